@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // OCR loads WASM/worker scripts and language data from node_modules at runtime; bundling breaks
+  // those relative paths.
+  serverExternalPackages: ["pdfjs-dist", "tesseract.js", "@tesseract.js-data/eng"],
 };
 
 export default nextConfig;
@@ -0,0 +1,84 @@
+import { createLogger, errorToObject } from "@/server/logger";
+import { cleanGlossaryEntries, parseGlossaryFile, readGlossary, writeGlossary } from "@/server/glossary";
+import { DEFAULT_WORKSPACE, parseWorkspaceId } from "@/server/storage";
+
+export const runtime = "nodejs";
+
+// Glossaries are parsed in memory; real ones are a few hundred rows.
+const MAX_GLOSSARY_BYTES = Number(process.env.GLOSSARY_MAX_BYTES || 2 * 1024 * 1024);
+
+function tooLarge() {
+  return Response.json(
+    { error: `Glossary files are limited to ${Math.round(MAX_GLOSSARY_BYTES / 1024 / 1024)} MB` },
+    { status: 413 }
+  );
+}
+
+/** `?workspace=<id>`, the default workspace when absent; null when the id is malformed. */
+function workspaceOf(req: Request) {
+  const raw = new URL(req.url).searchParams.get("workspace");
+  return raw === null ? DEFAULT_WORKSPACE : parseWorkspaceId(raw);
+}
+
+function invalidWorkspace() {
+  return Response.json({ error: "Invalid workspace" }, { status: 400 });
+}
+
+/** The workspace's glossary, applied to its runs and AI edits. */
+export async function GET(req: Request) {
+  const workspace = workspaceOf(req);
+  if (!workspace) return invalidWorkspace();
+  return Response.json({ glossary: await readGlossary(workspace) }, { headers: { "cache-control": "no-store" } });
+}
+
+/**
+ * Replaces the workspace's glossary: a multipart `file` (.csv, .tsv, .xlsx, .ods or .json) or a JSON body
+ * `{ entries: [{ term, misspellings?, bannedSynonyms?, note? }] }`.
+ */
+export async function PUT(req: Request) {
+  const workspace = workspaceOf(req);
+  if (!workspace) return invalidWorkspace();
+  const log = createLogger("api.glossary", { workspace });
+  // The header is checked first so oversized bodies aren't read at all; sizes are checked again once
+  // read, since clients may stream without one.
+  if (Number(req.headers.get("content-length") || 0) > MAX_GLOSSARY_BYTES) return tooLarge();
+  try {
+    let entries;
+    if ((req.headers.get("content-type") || "").includes("multipart/form-data")) {
+      const file = (await req.formData()).get("file");
+      if (!(file instanceof File)) return Response.json({ error: "No file received" }, { status: 400 });
+      if (file.size > MAX_GLOSSARY_BYTES) return tooLarge();
+      try {
+        entries = parseGlossaryFile(file.name, Buffer.from(await file.arrayBuffer()));
+      } catch (e) {
+        return Response.json({ error: e instanceof Error ? e.message : "Could not read glossary" }, { status: 400 });
+      }
+    } else {
+      const raw = await req.text();
+      if (Buffer.byteLength(raw) > MAX_GLOSSARY_BYTES) return tooLarge();
+      let body: { entries?: unknown } | null = null;
+      try {
+        body = JSON.parse(raw) as { entries?: unknown } | null;
+      } catch {
+        // Reported as an empty glossary below.
+      }
+      entries = cleanGlossaryEntries(body?.entries);
+    }
+    if (!entries.length) {
+      return Response.json({ error: "The glossary has no terms" }, { status: 400 });
+    }
+    const glossary = await writeGlossary(workspace, entries);
+    log.info("glossary replaced", { terms: glossary.entries.length });
+    return Response.json({ glossary });
+  } catch (e) {
+    log.error("glossary update failed", { error: errorToObject(e) });
+    return Response.json({ error: "Failed to save glossary" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  const workspace = workspaceOf(req);
+  if (!workspace) return invalidWorkspace();
+  const glossary = await writeGlossary(workspace, []);
+  return Response.json({ glossary });
+}
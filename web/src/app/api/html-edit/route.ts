@@ -1,118 +1,11 @@
-import { openai } from "@ai-sdk/openai";
-import { generateText } from "ai";
+import { configuredLlmProviders, generateWithFallback } from "@/server/llm/registry";
+import { sanitizeHtmlFragment } from "@/server/html-sanitizer";
+import { checkGlossary, glossaryInstructions, readGlossary } from "@/server/glossary";
+import { createRedactor, REDACT_EVERY_RUN } from "@/server/redaction";
+import { DEFAULT_WORKSPACE, parseWorkspaceId } from "@/server/storage";
 
 export const runtime = "nodejs";
 
-function getGeminiKey() {
-  const key = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
-  const source = process.env.GEMINI_API_KEY
-    ? "GEMINI_API_KEY"
-    : process.env.GOOGLE_API_KEY
-      ? "GOOGLE_API_KEY"
-      : null;
-  return { key, source };
-}
-
-type GeminiModel = {
-  name?: string;
-  supportedGenerationMethods?: string[];
-  displayName?: string;
-};
-
-async function listGeminiModels(apiKey: string, version: "v1" | "v1beta") {
-  const url = new URL(`/${version}/models`, "https://generativelanguage.googleapis.com");
-  url.searchParams.set("key", apiKey);
-  const res = await fetch(url.toString(), { method: "GET" });
-  const text = await res.text().catch(() => "");
-  if (!res.ok) throw new Error(`Gemini ListModels ${version} failed ${res.status}: ${text.slice(0, 300)}`);
-  const json: unknown = JSON.parse(text);
-  return (((json as { models?: GeminiModel[] })?.models || []) as GeminiModel[]).filter(Boolean);
-}
-
-function pickBestGeminiModel(models: GeminiModel[]) {
-  const supports = (m: GeminiModel, method: string) =>
-    (m.supportedGenerationMethods || []).includes(method);
-  const name = (m: GeminiModel) => m.name || "";
-
-  const eligible = models.filter((m) => supports(m, "generateContent"));
-  const byPref = (prefs: RegExp[]) =>
-    eligible.find((m) => prefs.every((re) => re.test(name(m)))) || null;
-
-  return (
-    byPref([/gemini/i, /2\.5/i, /flash/i, /lite/i]) ||
-    byPref([/gemini/i, /2\.5/i, /flash/i]) ||
-    byPref([/gemini/i, /flash/i, /lite/i]) ||
-    byPref([/gemini/i, /2\./i, /flash/i]) ||
-    byPref([/gemini/i, /1\./i, /flash/i]) ||
-    eligible[0] ||
-    null
-  );
-}
-
-async function generateWithGemini(opts: { system: string; prompt: string }) {
-  const { key: apiKey } = getGeminiKey();
-  if (!apiKey) throw new Error("Gemini API key missing (set GEMINI_API_KEY or GOOGLE_API_KEY)");
-
-  const configuredModel = process.env.GEMINI_MODEL || null;
-  const configuredVersion =
-    (process.env.GEMINI_API_VERSION as "v1" | "v1beta" | undefined) || null;
-
-  let version: "v1" | "v1beta" = configuredVersion || "v1";
-  let modelName = configuredModel;
-
-  if (!modelName) {
-    // Prefer v1; fall back to v1beta if v1 ListModels fails.
-    try {
-      const models = await listGeminiModels(apiKey, version);
-      const best = pickBestGeminiModel(models);
-      modelName = best?.name?.replace(/^models\//, "") || null;
-    } catch {
-      version = "v1beta";
-      const models = await listGeminiModels(apiKey, version);
-      const best = pickBestGeminiModel(models);
-      modelName = best?.name?.replace(/^models\//, "") || null;
-    }
-  }
-
-  if (!modelName) throw new Error("No Gemini model found that supports generateContent");
-
-  const url = new URL(
-    `/${version}/models/${encodeURIComponent(modelName)}:generateContent`,
-    "https://generativelanguage.googleapis.com"
-  );
-  url.searchParams.set("key", apiKey);
-
-  const res = await fetch(url.toString(), {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    body: JSON.stringify({
-      contents: [
-        {
-          role: "user",
-          parts: [{ text: `${opts.system}\n\n${opts.prompt}` }],
-        },
-      ],
-      generationConfig: { temperature: 0.2 },
-    }),
-  });
-
-  const text = await res.text().catch(() => "");
-  if (!res.ok) throw new Error(`Gemini error ${res.status}: ${text.slice(0, 300)}`);
-
-  const json: unknown = JSON.parse(text);
-  const candidates =
-    (json as { candidates?: Array<{ content?: { parts?: Array<{ text?: unknown }> } }> })
-      ?.candidates || [];
-  const out = candidates
-    .flatMap((c) => c.content?.parts || [])
-    .map((p) => (typeof p.text === "string" ? p.text : ""))
-    .join("\n")
-    .trim();
-
-  if (!out) throw new Error("Empty Gemini output");
-  return out;
-}
-
 function normalizeHtmlFragment(input: string) {
   const trimmed = (input || "").trim();
   if (!trimmed) return "";
@@ -205,6 +98,8 @@ export async function POST(req: Request) {
           html?: unknown;
           instruction?: unknown;
           provider?: unknown;
+          redact?: unknown;
+          workspace?: unknown;
         }
       | null;
 
@@ -213,10 +108,8 @@ export async function POST(req: Request) {
     const instruction =
       typeof body?.instruction === "string" ? body.instruction : "";
     const providerRaw = typeof body?.provider === "string" ? body.provider : "auto";
-    const provider =
-      providerRaw === "openai" || providerRaw === "gemini" || providerRaw === "auto"
-        ? (providerRaw as "openai" | "gemini" | "auto")
-        : "auto";
+    // Unknown ids (e.g. a provider removed since the page loaded) behave like "auto".
+    const provider = configuredLlmProviders().some((p) => p.id === providerRaw) ? providerRaw : "auto";
 
     if (!html.trim()) {
       return Response.json({ error: "Missing html" }, { status: 400 });
@@ -225,13 +118,21 @@ export async function POST(req: Request) {
       return Response.json({ error: "Missing instruction" }, { status: 400 });
     }
 
+    // The guide's workspace decides which glossary applies.
+    const workspace = body?.workspace === undefined ? DEFAULT_WORKSPACE : parseWorkspaceId(body.workspace);
+    if (!workspace) {
+      return Response.json({ error: "Invalid workspace" }, { status: 400 });
+    }
+    const glossary = await readGlossary(workspace);
+    const terms = glossaryInstructions(glossary, `${title}\n${instruction}\n${html}`);
     const system =
       "You edit existing HTML guides for non-technical users. " +
       "You will be given an HTML fragment (no <html>, no <head>, no <body>). " +
       "Apply the user's instruction while preserving unrelated content and structure. " +
       "Return STRICT JSON: {\"summary\": string, \"html\": string}. " +
       "The html field must be ONLY an HTML fragment (no <html>, no <head>, no <body>). " +
-      "No markdown. No code fences. Do not wrap the JSON in ```.";
+      "No markdown. No code fences. Do not wrap the JSON in ```." +
+      (terms ? `\n\n${terms}` : "");
 
     const prompt =
       (title ? `Title: ${title}\n\n` : "") +
@@ -241,46 +142,26 @@ export async function POST(req: Request) {
       "\n\n" +
       'Return only JSON. Example: {"summary":"...","html":"<article>...</article>"}';
 
-    const hasOpenAi = !!process.env.OPENAI_API_KEY;
-    const hasGemini = !!getGeminiKey().key;
-
-    const callOpenAi = async () => {
-      if (!hasOpenAi) throw new Error("OPENAI_API_KEY missing");
-      const result = await generateText({
-        model: openai("gpt-5.1-mini"),
-        system,
-        prompt,
-        temperature: 0.2,
-      });
-      return result.text || "";
-    };
-
-    const callGemini = async () => {
-      if (!hasGemini) throw new Error("Gemini key missing");
-      return await generateWithGemini({ system, prompt });
-    };
-
-    const primary: "openai" | "gemini" =
-      provider === "auto" ? (hasOpenAi ? "openai" : "gemini") : provider;
-    const fallback: "openai" | "gemini" = primary === "openai" ? "gemini" : "openai";
-
-    let providerUsed: "openai" | "gemini" = primary;
-    let rawText = "";
-    try {
-      rawText = primary === "openai" ? await callOpenAi() : await callGemini();
-    } catch (e) {
-      // If the caller explicitly chose a provider, do not fall back.
-      if (provider !== "auto") throw e;
-      if ((fallback === "openai" && !hasOpenAi) || (fallback === "gemini" && !hasGemini)) {
-        throw e;
-      }
-      providerUsed = fallback;
-      rawText = fallback === "openai" ? await callOpenAi() : await callGemini();
-    }
+    // Guides of a redacted run hold the restored values, so they are masked again for external providers
+    // and put back into the edited HTML.
+    const redactor = REDACT_EVERY_RUN || body?.redact === true ? createRedactor() : undefined;
+
+    // If the caller explicitly chose a provider, do not fall back.
+    const result = await generateWithFallback({
+      system,
+      prompt,
+      temperature: 0.2,
+      purpose: "html-edit",
+      only: provider === "auto" ? undefined : provider,
+      redactor,
+    });
+    const providerUsed = result.provider;
+    const rawText = result.text;
 
     const parsed = tryParseResponse(rawText || "");
-    const nextHtml = normalizeHtmlFragment(parsed.html || "");
-    const summary = (parsed.summary || "").trim();
+    const editedHtml = redactor ? redactor.restore(parsed.html || "", { html: true, all: true }) : parsed.html;
+    const { html: nextHtml, report: sanitized } = sanitizeHtmlFragment(normalizeHtmlFragment(editedHtml || ""));
+    const summary = ((redactor ? redactor.restore(parsed.summary, { all: true }) : parsed.summary) || "").trim();
 
     if (!nextHtml) {
       return Response.json(
@@ -293,6 +174,8 @@ export async function POST(req: Request) {
       html: nextHtml,
       summary: summary || "Applied changes",
       provider: providerUsed,
+      sanitized,
+      ...(glossary.entries.length ? { glossary: checkGlossary(glossary, html, nextHtml) } : null),
     });
   } catch (e) {
     return Response.json(
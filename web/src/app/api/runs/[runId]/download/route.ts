@@ -3,38 +3,49 @@ import fssync from "node:fs";
 import { Readable } from "node:stream";
 import { readRunState } from "@/server/run-store";
 import { createLogger, errorToObject } from "@/server/logger";
+import { downloadFileName, isOutputFormat, OUTPUT_FORMATS } from "@/server/exports/formats";
 
 export const runtime = "nodejs";
 
+/** Streams one of the run's bundles: `?format=markdown|docx|epub`, or the HTML site zip by default. */
 export async function GET(
-  _req: Request,
+  req: Request,
   { params }: { params: Promise<{ runId: string }> }
 ) {
   const { runId } = await params;
   const log = createLogger("api.runs.download", { runId });
   try {
+    const format = new URL(req.url).searchParams.get("format") || "html";
+    if (!isOutputFormat(format)) {
+      log.warn("unknown download format", { format });
+      return Response.json({ error: "Unknown format" }, { status: 400 });
+    }
     const state = await readRunState(runId);
     if (state.status !== "completed") {
       log.warn("download requested but run not completed", { status: state.status });
       return Response.json({ error: "Run not completed" }, { status: 400 });
     }
 
-    const zipPath = state.downloadPath;
-    const stat = await fs.stat(zipPath);
+    const filePath = format === "html" ? state.downloadPath : state.downloads?.[format];
+    if (!filePath) {
+      log.warn("format not built for this run", { format });
+      return Response.json({ error: "This format was not generated for the run" }, { status: 404 });
+    }
+    const stat = await fs.stat(filePath);
     if (!stat.isFile()) {
-      log.warn("zip not found", { zipPath });
-      return Response.json({ error: "Zip not found" }, { status: 404 });
+      log.warn("download file not found", { filePath, format });
+      return Response.json({ error: "Download not found" }, { status: 404 });
     }
 
-    log.info("streaming zip", { zipPath, sizeBytes: stat.size });
-    const nodeStream = fssync.createReadStream(zipPath);
+    log.info("streaming download", { filePath, format, sizeBytes: stat.size });
+    const nodeStream = fssync.createReadStream(filePath);
     const webStream = Readable.toWeb(nodeStream) as ReadableStream;
 
     return new Response(webStream, {
       headers: {
-        "content-type": "application/zip",
+        "content-type": OUTPUT_FORMATS[format].contentType,
         "content-length": String(stat.size),
-        "content-disposition": `attachment; filename="guides-${runId}.zip"`,
+        "content-disposition": `attachment; filename="${downloadFileName(format, runId)}"`,
         "cache-control": "no-store",
       },
     });
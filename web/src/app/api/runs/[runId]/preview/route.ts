@@ -3,6 +3,7 @@ import path from "node:path";
 import { readRunState } from "@/server/run-store";
 import { safeJoin } from "@/server/storage";
 import { createLogger, errorToObject } from "@/server/logger";
+import type { Guide } from "@/lib/types";
 
 export const runtime = "nodejs";
 
@@ -10,8 +11,14 @@ type ManifestGuide = {
   sourcePath: string;
   outputFile: string;
   title: string;
+  description?: string;
+  tags?: string[];
   status: "ok" | "error";
   error?: string;
+  translations?: Record<
+    string,
+    { outputFile: string; status: "ok" | "error"; title?: string; description?: string; tags?: string[] }
+  >;
 };
 
 type Manifest = {
@@ -27,6 +34,11 @@ function isSafeSingleFileName(name: string) {
   return true;
 }
 
+/**
+ * Lists the run's guides (with title, description and tags), or returns one guide's HTML with
+ * `?file=`. `&lang=<tag>` picks one of its translations and `&format=json` returns the guide as a
+ * `Guide` object instead.
+ */
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ runId: string }> }
@@ -47,6 +59,8 @@ export async function GET(
     const u = new URL(req.url);
     const file = (u.searchParams.get("file") || "").trim();
     const download = (u.searchParams.get("download") || "").trim() === "1";
+    const asJson = (u.searchParams.get("format") || "").trim() === "json";
+    const lang = (u.searchParams.get("lang") || "").trim();
 
     const raw = await fs.readFile(manifestPath, "utf8");
     const manifest = JSON.parse(raw) as Manifest;
@@ -77,14 +91,31 @@ export async function GET(
       return Response.json({ error: "Invalid file" }, { status: 400 });
     }
 
-    const allowed = new Set(guides.map((g) => g.outputFile));
-    if (!allowed.has(file)) {
+    const entry = guides.find((g) => g.outputFile === file);
+    if (!entry) {
       return Response.json({ error: "File not found" }, { status: 404 });
     }
 
-    const filePath = safeJoin(guidesDir, file);
+    // Only translations the manifest lists as written can be read; their paths come from it too.
+    const translation = lang ? entry.translations?.[lang] : undefined;
+    if (lang && translation?.status !== "ok") {
+      return Response.json({ error: "Translation not found" }, { status: 404 });
+    }
+    const variant = translation ?? entry;
+
+    const filePath = safeJoin(guidesDir, variant.outputFile);
     const html = await fs.readFile(filePath, "utf8");
 
+    if (asJson) {
+      const guide: Guide = {
+        title: variant.title || entry.title,
+        description: variant.description ?? "",
+        tags: Array.isArray(variant.tags) ? variant.tags : [],
+        content: html,
+      };
+      return Response.json(guide, { headers: { "cache-control": "no-store" } });
+    }
+
     return new Response(html, {
       headers: {
         "content-type": "text/html; charset=utf-8",
@@ -1,4 +1,4 @@
-import { readRunState } from "@/server/run-store";
+import { readRunState, runDownloadLinks } from "@/server/run-store";
 
 export const runtime = "nodejs";
 
@@ -14,6 +14,7 @@ export async function GET(
         status: "completed",
         progress: 100,
         downloadUrl: `/api/runs/${encodeURIComponent(runId)}/download`,
+        downloads: runDownloadLinks(state),
         current: state.current,
       });
     }
@@ -1,10 +1,10 @@
 import path from "node:path";
 import fs from "node:fs/promises";
 import { ensureDir, getRunsDir, getUploadsDir } from "@/server/storage";
-import { writeRunState } from "@/server/run-store";
+import { parseRunOptions, writeRunState } from "@/server/run-store";
 import { ensureWorkerStarted, processQueuedRun } from "@/server/worker";
 import { createLogger, errorToObject } from "@/server/logger";
-import { readRunState } from "@/server/run-store";
+import { readRunState, runDownloadLinks } from "@/server/run-store";
 
 export const runtime = "nodejs";
 
@@ -19,7 +19,7 @@ function isServerlessRuntime() {
 export async function POST(req: Request) {
   const log = createLogger("api.runs.create");
   try {
-    const body = (await req.json().catch(() => null)) as { uploadId?: string } | null;
+    const body = (await req.json().catch(() => null)) as { uploadId?: string; options?: unknown } | null;
     const uploadId = body?.uploadId;
     if (!uploadId) {
       log.warn("missing uploadId");
@@ -36,6 +36,7 @@ export async function POST(req: Request) {
       return Response.json({ error: "Upload not found" }, { status: 404 });
     }
 
+    const options = parseRunOptions(body?.options);
     const runId = crypto.randomUUID();
     await ensureDir(path.join(getRunsDir(), runId));
 
@@ -43,6 +44,7 @@ export async function POST(req: Request) {
     await writeRunState({
       runId,
       uploadId,
+      options,
       status: "queued",
       progress: 0,
       message: "Queued",
@@ -50,7 +52,7 @@ export async function POST(req: Request) {
       updatedAt: now,
     });
 
-    log.info("run queued", { runId, uploadId });
+    log.info("run queued", { runId, uploadId, options });
     ensureWorkerStarted();
 
     // In serverless, background work after returning a response is not reliable.
@@ -67,7 +69,12 @@ export async function POST(req: Request) {
             message?: string;
             current?: { file?: string; index?: number; total?: number };
           }
-        | { type: "completed"; runId: string; downloadUrl: string }
+        | {
+            type: "completed";
+            runId: string;
+            downloadUrl: string;
+            downloads: Array<{ format: string; label: string; url: string }>;
+          }
         | { type: "failed"; runId: string; error: string };
 
       const encoder = new TextEncoder();
@@ -104,6 +111,7 @@ export async function POST(req: Request) {
                   type: "completed",
                   runId,
                   downloadUrl: `/api/runs/${encodeURIComponent(runId)}/download`,
+                  downloads: runDownloadLinks(finalState),
                 });
               } else if (finalState.status === "failed") {
                 send({ type: "failed", runId, error: finalState.error || "Failed" });
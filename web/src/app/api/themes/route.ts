@@ -0,0 +1,11 @@
+import { listGuideThemes } from "@/server/themes";
+
+export const runtime = "nodejs";
+
+/** Themes a run can choose for its downloaded guides, with their default branding. */
+export async function GET() {
+  return Response.json(
+    { themes: listGuideThemes().map((t) => ({ id: t.id, label: t.label, branding: t.branding })) },
+    { headers: { "cache-control": "no-store" } }
+  );
+}
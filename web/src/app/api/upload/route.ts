@@ -2,6 +2,7 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { ensureDir, getUploadsDir, safeJoin } from "@/server/storage";
 import { createLogger, errorToObject } from "@/server/logger";
+import { archiveFolderName, archiveKind, expandArchive } from "@/server/archives";
 
 export const runtime = "nodejs";
 
@@ -22,10 +23,37 @@ export async function POST(req: Request) {
     await ensureDir(inputDir);
 
     const saved: Array<{ name: string; relativePath: string; size: number }> = [];
+    const rejected: Array<{ name: string; relativePath: string; error: string }> = [];
 
     for (const item of files) {
       if (!(item instanceof File)) continue;
       const relativePath = item.name || "file";
+
+      if (archiveKind(relativePath)) {
+        // Stage the archive outside input/ so the pipeline never sees the raw container.
+        const stagedPath = safeJoin(path.join(uploadDir, "archives"), relativePath);
+        const relativeDir = path.posix.join(path.posix.dirname(relativePath), archiveFolderName(relativePath));
+        try {
+          await ensureDir(path.dirname(stagedPath));
+          await fs.writeFile(stagedPath, Buffer.from(await item.arrayBuffer()));
+          const expanded = await expandArchive(stagedPath, safeJoin(inputDir, relativeDir), log);
+          for (const f of expanded) {
+            const rel = path.posix.join(relativeDir, f.relativePath);
+            saved.push({ name: path.basename(rel), relativePath: rel, size: f.size });
+          }
+        } catch (e) {
+          log.warn("archive rejected", { uploadId, relativePath, error: errorToObject(e) });
+          rejected.push({
+            name: path.basename(relativePath),
+            relativePath,
+            error: e instanceof Error ? e.message : "Could not expand archive",
+          });
+        } finally {
+          await fs.rm(stagedPath, { force: true });
+        }
+        continue;
+      }
+
       const targetPath = safeJoin(inputDir, relativePath);
       await ensureDir(path.dirname(targetPath));
       const buf = Buffer.from(await item.arrayBuffer());
@@ -38,16 +66,25 @@ export async function POST(req: Request) {
     }
 
     if (saved.length === 0) {
-      log.warn("no valid File items received", { uploadId });
-      return Response.json({ error: "No valid files received" }, { status: 400 });
+      log.warn("no valid File items received", { uploadId, rejectedCount: rejected.length });
+      return Response.json(
+        {
+          error: rejected.length
+            ? `No valid files received: ${rejected.map((r) => `${r.relativePath}: ${r.error}`).join("; ")}`
+            : "No valid files received",
+          rejected,
+        },
+        { status: 400 }
+      );
     }
 
     log.info("upload complete", {
       uploadId,
       savedCount: saved.length,
+      rejectedCount: rejected.length,
       files: saved.map((f) => ({ relativePath: f.relativePath, size: f.size })),
     });
-    return Response.json({ uploadId, files: saved });
+    return Response.json({ uploadId, files: saved, rejected });
   } catch (e) {
     log.error("upload failed", { error: errorToObject(e) });
     return Response.json(
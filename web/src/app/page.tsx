@@ -1,6 +1,9 @@
 import { RunWizard } from "@/components/run-wizard";
+import { parseWorkspaceId } from "@/server/storage";
 
-export default function Home() {
+// `?workspace=<id>` selects the workspace whose glossary runs and AI edits use.
+export default async function Home({ searchParams }: { searchParams: Promise<{ workspace?: string | string[] }> }) {
+  const workspace = parseWorkspaceId((await searchParams).workspace) ?? undefined;
   return (
     <main className="min-h-screen bg-background px-6 py-12">
       <div className="mx-auto w-full max-w-3xl">
@@ -12,7 +15,7 @@ export default function Home() {
             Upload, convert, download.
           </p>
         </div>
-        <RunWizard />
+        <RunWizard workspace={workspace} />
       </div>
     </main>
   );
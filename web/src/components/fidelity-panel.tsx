@@ -0,0 +1,89 @@
+"use client";
+
+import type { FidelityReport } from "@/server/fidelity";
+import { describeGlossaryViolation, type GlossaryReport } from "@/lib/glossary";
+
+const COVERAGE_LABELS = [
+  ["numbers", "Numbers"],
+  ["urls", "Links & emails"],
+  ["listItems", "List items"],
+  ["tableRows", "Table rows"],
+  ["headings", "Headings"],
+  ["terms", "Key terms"],
+] as const;
+
+function scoreClass(score: number) {
+  if (score >= 90) return "text-emerald-700";
+  if (score >= 70) return "text-amber-700";
+  return "text-destructive";
+}
+
+/**
+ * Preview sidebar with the pipeline's source-fidelity check for the original rewrite of a guide, and
+ * its glossary check when the workspace has a glossary.
+ */
+export function FidelityPanel({ report, glossary }: { report: FidelityReport; glossary?: GlossaryReport }) {
+  return (
+    <aside className="h-[520px] overflow-y-auto rounded-md border bg-background p-3 text-sm">
+      <div className="font-semibold">Source check</div>
+      <div className="mt-2 flex items-baseline gap-1">
+        <span className={["text-3xl font-semibold", scoreClass(report.score)].join(" ")}>{report.score}</span>
+        <span className="text-muted-foreground">/ 100</span>
+      </div>
+
+      <dl className="mt-3 space-y-1">
+        {COVERAGE_LABELS.map(([key, label]) => {
+          const c = report.coverage[key];
+          if (!c) return null;
+          return (
+            <div key={key} className="flex justify-between gap-2">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className={c.found < c.total ? "font-medium text-amber-700" : "font-medium"}>
+                {c.found}/{c.total}
+              </dd>
+            </div>
+          );
+        })}
+      </dl>
+
+      {report.warnings.length > 0 ? (
+        <ul className="mt-3 space-y-2 text-xs">
+          {report.warnings.map((w) => (
+            <li key={w} className="rounded-md border border-amber-300 bg-amber-50 px-2 py-1.5 text-amber-900">
+              {w}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-xs text-muted-foreground">Nothing from the source was found missing or added.</p>
+      )}
+
+      {glossary && glossary.checked > 0 && (
+        <div className="mt-4 border-t pt-3">
+          <div className="font-semibold">Glossary</div>
+          {glossary.violations.length > 0 ? (
+            <ul className="mt-2 space-y-2 text-xs">
+              {glossary.violations.map((v) => (
+                <li
+                  key={`${v.kind}:${v.term}:${v.found}`}
+                  className="rounded-md border border-amber-300 bg-amber-50 px-2 py-1.5 text-amber-900"
+                >
+                  {describeGlossaryViolation(v)}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-2 text-xs text-muted-foreground">
+              {glossary.checked === 1 ? "The glossary term is" : `All ${glossary.checked} glossary terms are`} used
+              as written.
+            </p>
+          )}
+        </div>
+      )}
+
+      <p className="mt-3 text-xs text-muted-foreground">
+        Compares the converted guide with the extracted source text. AI edits made here are not re-checked.
+      </p>
+    </aside>
+  );
+}
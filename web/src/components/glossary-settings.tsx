@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Glossary } from "@/server/glossary";
+
+// Terms listed before "and N more".
+const MAX_LISTED = 30;
+
+/**
+ * Workspace glossary picker for the Convert step. The glossary is stored on the server and applies
+ * to every run and AI edit in the workspace, so changes here are saved immediately rather than sent
+ * with the run.
+ */
+export function GlossarySettings({ workspace }: { workspace?: string }) {
+  const url = workspace ? `/api/glossary?workspace=${encodeURIComponent(workspace)}` : "/api/glossary";
+  const [glossary, setGlossary] = useState<Glossary | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(url, { signal: controller.signal })
+      .then((r) => (r.ok ? r.json() : null))
+      .then((json: { glossary?: Glossary } | null) => {
+        if (json?.glossary) setGlossary(json.glossary);
+      })
+      .catch(() => {});
+    return () => controller.abort();
+  }, [url]);
+
+  const save = async (init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(url, init);
+      const body = (await res.json().catch(() => null)) as { glossary?: Glossary; error?: string } | null;
+      if (!res.ok || !body?.glossary) throw new Error(body?.error || `Glossary update failed (${res.status})`);
+      setGlossary(body.glossary);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Glossary update failed");
+    } finally {
+      setBusy(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const upload = (file: File) => {
+    const form = new FormData();
+    form.append("file", file);
+    void save({ method: "PUT", body: form });
+  };
+
+  const entries = glossary?.entries || [];
+
+  return (
+    <details className="rounded-md border px-3 py-2 text-sm">
+      <summary className="cursor-pointer text-muted-foreground">
+        Glossary{entries.length ? ` (${entries.length} terms)` : ""}
+      </summary>
+      <div className="mt-3 flex flex-col gap-3">
+        <p className="text-xs text-muted-foreground">
+          Protected product and system names for every run in this workspace. Upload a CSV, spreadsheet or JSON
+          file with the columns <code>term</code>, <code>misspellings</code>, <code>bannedSynonyms</code> and{" "}
+          <code>note</code> (separate several values with &quot;;&quot;). Guides that misspell, replace or drop a
+          term are flagged in the preview.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,.xlsx,.xls,.ods,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) upload(file);
+            }}
+          />
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => fileInputRef.current?.click()}
+            className="rounded-md border bg-background px-2 py-1 text-xs hover:bg-muted disabled:opacity-50"
+          >
+            {entries.length ? "Replace glossary" : "Upload glossary"}
+          </button>
+          {entries.length > 0 && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => void save({ method: "DELETE" })}
+              className="rounded-md border bg-background px-2 py-1 text-xs text-destructive hover:bg-destructive/5 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          )}
+          {glossary?.updatedAt && entries.length > 0 && (
+            <span className="text-xs text-muted-foreground">
+              Updated {new Date(glossary.updatedAt).toLocaleString()}
+            </span>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-destructive/30 bg-destructive/10 px-2 py-1 text-xs text-destructive">
+            {error}
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <ul className="flex flex-wrap gap-1.5 text-xs">
+            {entries.slice(0, MAX_LISTED).map((e) => (
+              <li
+                key={e.term}
+                title={[
+                  e.misspellings?.length ? `Not: ${e.misspellings.join(", ")}` : "",
+                  e.bannedSynonyms?.length ? `Never: ${e.bannedSynonyms.join(", ")}` : "",
+                  e.note || "",
+                ]
+                  .filter(Boolean)
+                  .join("\n")}
+                className="rounded-full border bg-muted/40 px-2 py-0.5"
+              >
+                {e.term}
+              </li>
+            ))}
+            {entries.length > MAX_LISTED && (
+              <li className="px-1 py-0.5 text-muted-foreground">and {entries.length - MAX_LISTED} more</li>
+            )}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -2,8 +2,12 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ErrorLightbox } from "./error-lightbox";
+import { FidelityPanel } from "./fidelity-panel";
+import { GlossarySettings } from "./glossary-settings";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { describeGlossaryViolation, type GlossaryReport } from "@/lib/glossary";
+import type { FidelityReport } from "@/server/fidelity";
 import { Download, Maximize, Minimize, X } from "lucide-react";
 
 type Step = "upload" | "convert" | "done";
@@ -14,11 +18,73 @@ type UploadedFile = {
   size: number;
 };
 
+type RejectedUpload = {
+  name: string;
+  relativePath: string;
+  error: string;
+};
+
 type UploadResponse = {
   uploadId: string;
   files: UploadedFile[];
+  rejected?: RejectedUpload[];
+};
+
+type ThemeBranding = {
+  headerText?: string;
+  footerText?: string;
+  logoUrl?: string;
+  primaryColor?: string;
+  accentColor?: string;
+};
+
+type ThemeOption = { id: string; label: string; branding: ThemeBranding };
+
+type ExportFormat = "markdown" | "docx" | "epub";
+
+type RunDownload = { format: string; label: string; url: string };
+
+const EXPORT_FORMAT_OPTIONS: Array<{ id: ExportFormat; label: string }> = [
+  { id: "markdown", label: "Markdown" },
+  { id: "docx", label: "Word (.docx)" },
+  { id: "epub", label: "EPUB handbook" },
+];
+
+type RewriteSettings = {
+  audience?: string;
+  tone?: "friendly" | "neutral" | "formal" | "concise";
+  readingLevel?: "simple" | "general" | "expert";
+  language?: string;
+  styleGuide?: string;
+  translations?: string[];
 };
 
+const TONE_OPTIONS = [
+  { id: "friendly", label: "Friendly" },
+  { id: "neutral", label: "Neutral" },
+  { id: "formal", label: "Formal" },
+  { id: "concise", label: "Concise" },
+] as const;
+
+const READING_LEVEL_OPTIONS = [
+  { id: "simple", label: "Simple (plain language)" },
+  { id: "general", label: "General" },
+  { id: "expert", label: "Expert" },
+] as const;
+
+const LANGUAGE_OPTIONS = [
+  { id: "en", label: "English" },
+  { id: "de", label: "German" },
+  { id: "fr", label: "French" },
+  { id: "es", label: "Spanish" },
+  { id: "it", label: "Italian" },
+  { id: "nl", label: "Dutch" },
+  { id: "pt-BR", label: "Portuguese (Brazil)" },
+  { id: "pl", label: "Polish" },
+  { id: "ja", label: "Japanese" },
+  { id: "zh-CN", label: "Chinese (Simplified)" },
+];
+
 type RunStatus =
   | {
       status: "queued" | "running";
@@ -26,7 +92,7 @@ type RunStatus =
       message?: string;
       current?: { file?: string; index?: number; total?: number };
     }
-  | { status: "completed"; progress: 100; downloadUrl: string }
+  | { status: "completed"; progress: 100; downloadUrl: string; downloads?: RunDownload[] }
   | { status: "failed"; progress: number; error: string; debugError?: unknown };
 
 function formatBytes(bytes: number) {
@@ -39,14 +105,77 @@ function formatBytes(bytes: number) {
   return `${gb.toFixed(1)} GB`;
 }
 
+/** Counts of what the server-side sanitizer removed from model HTML. */
+type SanitizeReport = Record<
+  "removedElements" | "unwrappedElements" | "removedAttributes" | "blockedUrls",
+  Record<string, number>
+>;
+
 type PreviewGuide = {
   sourcePath: string;
   outputFile: string;
   title: string;
+  description?: string;
+  tags?: string[];
   status: "ok" | "error";
   error?: string;
+  sanitized?: SanitizeReport;
+  fidelity?: FidelityReport;
+  glossary?: GlossaryReport;
+  /** Translated variants by language tag; `outputFile` is relative to the guides folder. */
+  translations?: Record<
+    string,
+    {
+      outputFile: string;
+      status: "ok" | "error";
+      title?: string;
+      description?: string;
+      tags?: string[];
+      error?: string;
+      sanitized?: SanitizeReport;
+      fidelity?: FidelityReport;
+      glossary?: GlossaryReport;
+    }
+  >;
 };
 
+/**
+ * The guide as shown in the preview: the original, or its translation into `lang` when that
+ * succeeded. `key` identifies the variant's edit timeline.
+ */
+function previewVariant(guide: PreviewGuide | undefined, lang: string) {
+  if (!guide) return null;
+  const translation = lang ? guide.translations?.[lang] : undefined;
+  if (translation?.status !== "ok") return { ...guide, lang: "", key: guide.outputFile };
+  return {
+    ...guide,
+    ...translation,
+    title: translation.title || guide.title,
+    lang,
+    key: `${lang}/${guide.outputFile}`,
+  };
+}
+
+function languageLabel(tag: string) {
+  try {
+    return new Intl.DisplayNames([tag], { type: "language" }).of(tag) || tag;
+  } catch {
+    return tag;
+  }
+}
+
+/** e.g. "<script> ×1, a[onclick] ×2, javascript: link ×1"; empty when nothing unsafe was removed. */
+function describeSanitizeReport(report: SanitizeReport | undefined) {
+  if (!report) return "";
+  // Unwrapped elements kept their text, so they are formatting losses rather than safety findings.
+  const items = [
+    ...Object.entries(report.removedElements || {}).map(([name, n]) => `<${name}> ×${n}`),
+    ...Object.entries(report.removedAttributes || {}).map(([name, n]) => `${name} ×${n}`),
+    ...Object.entries(report.blockedUrls || {}).map(([name, n]) => `${name} link ×${n}`),
+  ];
+  return items.join(", ");
+}
+
 type PreviewIndexResponse = {
   runId: string;
   uploadId: string;
@@ -251,7 +380,8 @@ function uploadWithProgress(
   });
 }
 
-export function RunWizard() {
+/** `workspace` selects the glossary the runs and AI edits use (the default workspace when unset). */
+export function RunWizard({ workspace }: { workspace?: string }) {
   const [step, setStep] = useState<Step>("upload");
 
   const [isDragging, setIsDragging] = useState(false);
@@ -261,12 +391,22 @@ export function RunWizard() {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadId, setUploadId] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [rejectedUploads, setRejectedUploads] = useState<RejectedUpload[]>([]);
   const uploadedSignatureRef = useRef<string | null>(null);
   const lastUploadAttemptSignatureRef = useRef<string | null>(null);
   const autoUploadTimerRef = useRef<number | null>(null);
 
   const [runId, setRunId] = useState<string | null>(null);
   const [runStatus, setRunStatus] = useState<RunStatus | null>(null);
+  const [splitSections, setSplitSections] = useState(false);
+  const [redactPii, setRedactPii] = useState(false);
+  const [themes, setThemes] = useState<ThemeOption[]>([]);
+  const [themeId, setThemeId] = useState("default");
+  // Only the fields the user changed; the rest come from the selected theme on the server.
+  const [brandingOverrides, setBrandingOverrides] = useState<ThemeBranding>({});
+  // The HTML site is always built; these are the extra download bundles.
+  const [exportFormats, setExportFormats] = useState<ExportFormat[]>([]);
+  const [rewriteSettings, setRewriteSettings] = useState<RewriteSettings>({});
   const lastPollSigRef = useRef<string | null>(null);
   const [showErrorLightbox, setShowErrorLightbox] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -283,6 +423,8 @@ export function RunWizard() {
   const [previewGuides, setPreviewGuides] = useState<PreviewGuide[]>([]);
   const [previewIndex, setPreviewIndex] = useState<number>(0);
   const [previewHtml, setPreviewHtml] = useState<string>("");
+  // Language tag of the translation being previewed; "" for the original.
+  const [previewLang, setPreviewLang] = useState("");
   const [previewStatus, setPreviewStatus] = useState<
     "idle" | "loading-index" | "loading-html" | "ready" | "error"
   >("idle");
@@ -295,7 +437,7 @@ export function RunWizard() {
   const [aiMessages, setAiMessages] = useState<HtmlEditMessage[]>([]);
   const [isAiApplying, setIsAiApplying] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
-  const [aiProviderPref, setAiProviderPref] = useState<"auto" | "openai" | "gemini">("auto");
+  const [aiProviderPref, setAiProviderPref] = useState<string>("auto");
 
   const [htmlVersionsByFile, setHtmlVersionsByFile] = useState<Record<string, HtmlVersion[]>>(
     {}
@@ -359,6 +501,7 @@ export function RunWizard() {
     setIsUploading(false);
     setUploadId(null);
     setUploadError(null);
+    setRejectedUploads([]);
     uploadedSignatureRef.current = null;
     lastUploadAttemptSignatureRef.current = null;
     lastPollSigRef.current = null;
@@ -435,6 +578,7 @@ export function RunWizard() {
     setIsUploading(true);
     setUploadPct(0);
     setUploadError(null);
+    setRejectedUploads([]);
     lastUploadAttemptSignatureRef.current = pickedSignature;
     try {
       console.info("[RunWizard] upload: start", {
@@ -444,6 +588,7 @@ export function RunWizard() {
       const res = await uploadWithProgress(picked, setUploadPct);
       setUploadId(res.uploadId);
       setUploadPct(100);
+      setRejectedUploads(res.rejected || []);
       console.info("[RunWizard] upload: complete", { uploadId: res.uploadId, files: res.files });
       uploadedSignatureRef.current = pickedSignature;
     } catch (e) {
@@ -471,7 +616,18 @@ export function RunWizard() {
           accept: "application/x-ndjson, application/json",
           "content-type": "application/json",
         },
-        body: JSON.stringify({ uploadId }),
+        body: JSON.stringify({
+          uploadId,
+          options: {
+            splitSections,
+            theme: themeId,
+            branding: brandingOverrides,
+            formats: ["html", ...exportFormats],
+            rewrite: rewriteSettings,
+            redact: redactPii,
+            workspace,
+          },
+        }),
       });
       const contentType = resp.headers.get("content-type") || "";
 
@@ -512,6 +668,7 @@ export function RunWizard() {
           }
           if (t === "completed") {
             const id = (evt as { runId?: unknown }).runId;
+            const downloads = (evt as { downloads?: RunDownload[] }).downloads;
             if (typeof id === "string") {
               newRunId = id;
               setRunId(id);
@@ -519,6 +676,7 @@ export function RunWizard() {
                 status: "completed",
                 progress: 100,
                 downloadUrl: `/api/runs/${encodeURIComponent(id)}/download`,
+                downloads,
               });
               setStep("done");
             } else {
@@ -526,6 +684,7 @@ export function RunWizard() {
                 status: "completed",
                 progress: 100,
                 downloadUrl: `/api/runs/${encodeURIComponent(newRunId || "")}/download`,
+                downloads,
               });
               setStep("done");
             }
@@ -699,7 +858,7 @@ export function RunWizard() {
     return () => {
       cancelled = true;
     };
-  }, [uploadId]);
+  }, [brandingOverrides, exportFormats, redactPii, rewriteSettings, splitSections, themeId, uploadId, workspace]);
 
   const fetchReviewerLog = useCallback(async () => {
     if (!runId) return;
@@ -785,6 +944,18 @@ export function RunWizard() {
     };
   }, [picked, pickedSignature, uploadId, isUploading, uploadError, invalidateUpload, startUpload]);
 
+  // Themes for the downloaded guides; the picker stays hidden if this fails.
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/themes", { signal: controller.signal })
+      .then((r) => (r.ok ? r.json() : null))
+      .then((json: { themes?: ThemeOption[] } | null) => {
+        if (json?.themes?.length) setThemes(json.themes);
+      })
+      .catch(() => {});
+    return () => controller.abort();
+  }, []);
+
   // On the final step, load the server log for reviewer debugging.
   useEffect(() => {
     if (step !== "done" || !runId) return;
@@ -840,7 +1011,8 @@ export function RunWizard() {
     if (step !== "done" || !runId) return;
     if (runStatus?.status !== "completed") return;
     const guide = previewGuides[previewIndex];
-    if (!guide) return;
+    const view = previewVariant(guide, previewLang);
+    if (!guide || !view) return;
 
     const controller = new AbortController();
     setPreviewStatus((s) => (s === "loading-index" ? s : "loading-html"));
@@ -849,7 +1021,8 @@ export function RunWizard() {
     void (async () => {
       try {
         const resp = await fetch(
-          `/api/runs/${encodeURIComponent(runId)}/preview?file=${encodeURIComponent(guide.outputFile)}`,
+          `/api/runs/${encodeURIComponent(runId)}/preview?file=${encodeURIComponent(guide.outputFile)}` +
+            (view.lang ? `&lang=${encodeURIComponent(view.lang)}` : ""),
           { cache: "no-store", signal: controller.signal }
         );
         const text = await resp.text();
@@ -873,7 +1046,7 @@ export function RunWizard() {
     })();
 
     return () => controller.abort();
-  }, [step, runId, runStatus?.status, previewGuides, previewIndex]);
+  }, [step, runId, runStatus?.status, previewGuides, previewIndex, previewLang]);
 
   // Reset per-run state when runId changes.
   useEffect(() => {
@@ -888,16 +1061,17 @@ export function RunWizard() {
     setAiProviderPref("auto");
     setHtmlVersionsByFile({});
     setSelectedVersionByFile({});
+    setPreviewLang("");
   }, [runId]);
 
-  // Seed versions for the current previewed file (one timeline per outputFile).
+  // Seed versions for the current previewed file (one timeline per outputFile and language).
   useEffect(() => {
     if (step !== "done" || !runId) return;
     if (runStatus?.status !== "completed") return;
     if (previewStatus !== "ready") return;
-    const guide = previewGuides[previewIndex];
-    if (!guide?.outputFile) return;
-    const file = guide.outputFile;
+    const view = previewVariant(previewGuides[previewIndex], previewLang);
+    if (!view?.outputFile) return;
+    const file = view.key;
     const initialId = "original";
 
     setHtmlVersionsByFile((cur) => {
@@ -916,7 +1090,7 @@ export function RunWizard() {
       };
     });
     setSelectedVersionByFile((cur) => (cur[file] ? cur : { ...cur, [file]: initialId }));
-  }, [step, runId, runStatus?.status, previewStatus, previewGuides, previewIndex, previewHtml]);
+  }, [step, runId, runStatus?.status, previewStatus, previewGuides, previewIndex, previewLang, previewHtml]);
 
   // Keep fullscreen state in sync with the browser.
   useEffect(() => {
@@ -943,7 +1117,18 @@ export function RunWizard() {
   }, []);
 
   const currentGuide = previewGuides[previewIndex];
-  const currentFile = currentGuide?.outputFile || "";
+  const currentView = previewVariant(currentGuide, previewLang);
+  const previewLanguages = currentGuide?.translations
+    ? [
+        { tag: "", label: "Original", error: undefined as string | undefined },
+        ...Object.entries(currentGuide.translations).map(([tag, t]) => ({
+          tag,
+          label: languageLabel(tag),
+          error: t.status === "ok" ? undefined : t.error || "Translation failed",
+        })),
+      ]
+    : [];
+  const currentFile = currentView?.key || "";
   const currentVersions = currentFile ? htmlVersionsByFile[currentFile] || [] : [];
   const selectedVersionId = currentFile ? selectedVersionByFile[currentFile] : undefined;
   const selectedVersion =
@@ -952,12 +1137,12 @@ export function RunWizard() {
   const isOriginalSelected = (selectedVersion?.id || "original") === "original";
 
   const applyAiEdit = useCallback(async () => {
-    if (!currentGuide?.outputFile) return;
+    if (!currentView) return;
     const instruction = aiInput.trim();
     if (!instruction) return;
     if (!selectedVersion) return;
 
-    const file = currentGuide.outputFile;
+    const file = currentView.key;
     setAiError(null);
     setIsAiApplying(true);
     setAiInput("");
@@ -968,10 +1153,12 @@ export function RunWizard() {
         method: "POST",
         headers: { "content-type": "application/json" },
         body: JSON.stringify({
-          title: currentGuide.title,
+          title: currentView.title,
           html: selectedVersion.html,
           instruction,
           provider: aiProviderPref,
+          redact: redactPii,
+          workspace,
         }),
       });
       const body: unknown = await resp.json().catch(() => null);
@@ -992,12 +1179,15 @@ export function RunWizard() {
           ? ((body as { summary: string }).summary as string)
           : "Applied changes";
       const providerUsed =
-        typeof (body as { provider?: unknown } | null)?.provider === "string" &&
-        (((body as { provider: string }).provider as string) === "openai" ||
-          ((body as { provider: string }).provider as string) === "gemini")
-          ? (((body as { provider: "openai" | "gemini" }).provider as unknown) as "openai" | "gemini")
+        typeof (body as { provider?: unknown } | null)?.provider === "string"
+          ? ((body as { provider: string }).provider as string) || null
           : null;
 
+      const removed = describeSanitizeReport((body as { sanitized?: SanitizeReport } | null)?.sanitized);
+      const glossaryIssues = ((body as { glossary?: GlossaryReport } | null)?.glossary?.violations || [])
+        .map(describeGlossaryViolation)
+        .join("; ");
+
       if (!nextHtml.trim()) throw new Error("AI returned empty HTML");
       if (providerUsed) setAiProviderPref(providerUsed);
 
@@ -1021,7 +1211,13 @@ export function RunWizard() {
       setSelectedVersionByFile((cur) => ({ ...cur, [file]: id }));
       setAiMessages((cur) => [
         ...cur,
-        { role: "assistant", content: providerUsed ? `${summary} (${providerUsed})` : summary },
+        {
+          role: "assistant",
+          content:
+            (providerUsed ? `${summary} (${providerUsed})` : summary) +
+            (removed ? ` — removed unsafe HTML: ${removed}` : "") +
+            (glossaryIssues ? ` — glossary: ${glossaryIssues}` : ""),
+        },
       ]);
     } catch (e) {
       const msg = e instanceof Error ? e.message : "Failed to apply AI edit";
@@ -1030,7 +1226,7 @@ export function RunWizard() {
     } finally {
       setIsAiApplying(false);
     }
-  }, [aiInput, currentGuide, selectedVersion]);
+  }, [aiInput, aiProviderPref, currentView, redactPii, selectedVersion, workspace]);
 
   return (
     <div
@@ -1169,6 +1365,19 @@ export function RunWizard() {
                   </div>
                 )}
 
+                {rejectedUploads.length > 0 && (
+                  <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+                    <div className="font-medium">Some files could not be unpacked</div>
+                    <ul className="mt-1 space-y-0.5 text-xs">
+                      {rejectedUploads.map((r) => (
+                        <li key={r.relativePath} className="break-words">
+                          <span className="font-medium">{r.relativePath}</span>: {r.error}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {uploadError && (
                   <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
                     <div className="min-w-0">{uploadError}</div>
@@ -1182,7 +1391,224 @@ export function RunWizard() {
                   </div>
                 )}
 
+                {uploadId && (
+                  <details className="rounded-md border px-3 py-2 text-sm">
+                    <summary className="cursor-pointer text-muted-foreground">Writing style</summary>
+                    <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                      <label className="flex flex-col gap-1 sm:col-span-2">
+                        <span className="text-xs text-muted-foreground">Audience</span>
+                        <input
+                          type="text"
+                          value={rewriteSettings.audience || ""}
+                          placeholder="non-technical users"
+                          onChange={(e) =>
+                            setRewriteSettings((r) => ({ ...r, audience: e.target.value || undefined }))
+                          }
+                          className="rounded-md border bg-background px-2 py-1"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1">
+                        <span className="text-xs text-muted-foreground">Tone</span>
+                        <select
+                          value={rewriteSettings.tone || ""}
+                          onChange={(e) =>
+                            setRewriteSettings((r) => ({
+                              ...r,
+                              tone: (e.target.value || undefined) as RewriteSettings["tone"],
+                            }))
+                          }
+                          className="rounded-md border bg-background px-2 py-1"
+                        >
+                          <option value="">Default</option>
+                          {TONE_OPTIONS.map((t) => (
+                            <option key={t.id} value={t.id}>
+                              {t.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex flex-col gap-1">
+                        <span className="text-xs text-muted-foreground">Reading level</span>
+                        <select
+                          value={rewriteSettings.readingLevel || ""}
+                          onChange={(e) =>
+                            setRewriteSettings((r) => ({
+                              ...r,
+                              readingLevel: (e.target.value || undefined) as RewriteSettings["readingLevel"],
+                            }))
+                          }
+                          className="rounded-md border bg-background px-2 py-1"
+                        >
+                          <option value="">Default</option>
+                          {READING_LEVEL_OPTIONS.map((l) => (
+                            <option key={l.id} value={l.id}>
+                              {l.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex flex-col gap-1">
+                        <span className="text-xs text-muted-foreground">Output language</span>
+                        <select
+                          value={rewriteSettings.language || ""}
+                          onChange={(e) =>
+                            setRewriteSettings((r) => ({ ...r, language: e.target.value || undefined }))
+                          }
+                          className="rounded-md border bg-background px-2 py-1"
+                        >
+                          <option value="">Same as source</option>
+                          {LANGUAGE_OPTIONS.map((l) => (
+                            <option key={l.id} value={l.id}>
+                              {l.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <div className="flex flex-col gap-1">
+                        <span className="text-xs text-muted-foreground">Also translate into</span>
+                        <div className="flex flex-wrap gap-x-3 gap-y-1">
+                          {LANGUAGE_OPTIONS.filter((l) => l.id !== rewriteSettings.language).map((l) => (
+                            <label key={l.id} className="flex items-center gap-1.5">
+                              <input
+                                type="checkbox"
+                                checked={!!rewriteSettings.translations?.includes(l.id)}
+                                onChange={(e) =>
+                                  setRewriteSettings((r) => {
+                                    const rest = (r.translations || []).filter((t) => t !== l.id);
+                                    const next = e.target.checked ? [...rest, l.id] : rest;
+                                    return { ...r, translations: next.length ? next : undefined };
+                                  })
+                                }
+                                className="h-4 w-4 rounded border-border"
+                              />
+                              {l.label}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                      <label className="flex flex-col gap-1 sm:col-span-2">
+                        <span className="text-xs text-muted-foreground">House style guide</span>
+                        <textarea
+                          value={rewriteSettings.styleGuide || ""}
+                          placeholder={"Say \"sign in\", not \"log in\".\nNumber every procedure step."}
+                          rows={4}
+                          onChange={(e) =>
+                            setRewriteSettings((r) => ({ ...r, styleGuide: e.target.value || undefined }))
+                          }
+                          className="rounded-md border bg-background px-2 py-1"
+                        />
+                      </label>
+                    </div>
+                  </details>
+                )}
+
+                {uploadId && <GlossarySettings workspace={workspace} />}
+
+                {uploadId && themes.length > 0 && (
+                  <details className="rounded-md border px-3 py-2 text-sm">
+                    <summary className="cursor-pointer text-muted-foreground">Download appearance</summary>
+                    <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                      <label className="flex flex-col gap-1">
+                        <span className="text-xs text-muted-foreground">Theme</span>
+                        <select
+                          value={themeId}
+                          onChange={(e) => setThemeId(e.target.value)}
+                          className="rounded-md border bg-background px-2 py-1"
+                        >
+                          {themes.map((t) => (
+                            <option key={t.id} value={t.id}>
+                              {t.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex flex-col gap-1">
+                        <span className="text-xs text-muted-foreground">Brand colour</span>
+                        <input
+                          type="color"
+                          value={
+                            brandingOverrides.primaryColor ||
+                            themes.find((t) => t.id === themeId)?.branding.primaryColor ||
+                            "#2563eb"
+                          }
+                          onChange={(e) =>
+                            setBrandingOverrides((b) => ({ ...b, primaryColor: e.target.value }))
+                          }
+                          className="h-8 w-16 rounded-md border bg-background"
+                        />
+                      </label>
+                      {(
+                        [
+                          ["headerText", "Header text", "Acme Operations"],
+                          ["footerText", "Footer text", "Internal use only"],
+                          ["logoUrl", "Logo URL", "https://example.com/logo.png"],
+                        ] as const
+                      ).map(([key, label, placeholder]) => (
+                        <label
+                          key={key}
+                          className={cn("flex flex-col gap-1", key === "logoUrl" && "sm:col-span-2")}
+                        >
+                          <span className="text-xs text-muted-foreground">{label}</span>
+                          <input
+                            type="text"
+                            value={brandingOverrides[key] || ""}
+                            placeholder={placeholder}
+                            onChange={(e) =>
+                              setBrandingOverrides((b) => ({ ...b, [key]: e.target.value || undefined }))
+                            }
+                            className="rounded-md border bg-background px-2 py-1"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  </details>
+                )}
+
+                {uploadId && (
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-muted-foreground">
+                    <span>Also download as:</span>
+                    {EXPORT_FORMAT_OPTIONS.map((f) => (
+                      <label key={f.id} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={exportFormats.includes(f.id)}
+                          onChange={(e) =>
+                            setExportFormats((cur) =>
+                              e.target.checked ? [...cur, f.id] : cur.filter((x) => x !== f.id)
+                            )
+                          }
+                          className="h-4 w-4 rounded border-border"
+                        />
+                        {f.label}
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {uploadId && (
+                  <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={redactPii}
+                      onChange={(e) => setRedactPii(e.target.checked)}
+                      className="h-4 w-4 rounded border-border"
+                    />
+                    Mask personal data and secrets before anything is sent to an external service
+                  </label>
+                )}
+
                 <div className="flex flex-wrap items-center justify-end gap-3">
+                  {uploadId && (
+                    <label className="mr-auto flex items-center gap-2 text-sm text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        checked={splitSections}
+                        onChange={(e) => setSplitSections(e.target.checked)}
+                        className="h-4 w-4 rounded border-border"
+                      />
+                      One guide per top-level section of each document
+                    </label>
+                  )}
                   {uploadId && (
                     <button
                       type="button"
@@ -1296,6 +1722,17 @@ export function RunWizard() {
                 >
                   Download zip
                 </a>
+                {runStatus.downloads
+                  ?.filter((d) => d.format !== "html")
+                  .map((d) => (
+                    <a
+                      key={d.format}
+                      href={d.url}
+                      className="rounded-md border border-border bg-background px-4 py-2 text-sm font-medium hover:bg-muted"
+                    >
+                      {d.label}
+                    </a>
+                  ))}
                 <button
                   type="button"
                   onClick={resetWizard}
@@ -1329,10 +1766,52 @@ export function RunWizard() {
                 <div className="space-y-3">
                   <div className="flex flex-wrap items-center justify-between gap-2">
                     <div className="min-w-0 text-sm">
-                      <span className="font-medium">{previewGuides[previewIndex]?.title}</span>{" "}
+                      <span className="font-medium">{currentView?.title}</span>{" "}
                       <span className="text-muted-foreground">
                         ({previewIndex + 1}/{previewGuides.length})
                       </span>
+                      {currentView?.description && (
+                        <p className="mt-1 max-w-prose text-muted-foreground">{currentView.description}</p>
+                      )}
+                      {!!currentView?.tags?.length && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {currentView.tags.map((tag) => (
+                            <span
+                              key={tag}
+                              className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+                            >
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {describeSanitizeReport(currentView?.sanitized) && (
+                        <p className="mt-1 max-w-prose text-xs text-amber-700">
+                          Removed unsafe HTML: {describeSanitizeReport(currentView?.sanitized)}
+                        </p>
+                      )}
+                      {previewLanguages.length > 0 && (
+                        <div className="mt-2 flex flex-wrap items-center gap-1" role="group" aria-label="Language">
+                          {previewLanguages.map((l) => (
+                            <button
+                              key={l.tag || "original"}
+                              type="button"
+                              onClick={() => setPreviewLang(l.tag)}
+                              disabled={!!l.error}
+                              title={l.error}
+                              className={cn(
+                                "rounded-md border px-2 py-0.5 text-xs",
+                                (currentView?.lang || "") === l.tag
+                                  ? "border-blue-600 bg-blue-50 text-blue-700"
+                                  : "border-border bg-background hover:bg-muted",
+                                l.error && "cursor-not-allowed text-muted-foreground line-through hover:bg-background"
+                              )}
+                            >
+                              {l.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
                     <div className="flex flex-wrap items-center gap-2">
                       <button
@@ -1353,7 +1832,7 @@ export function RunWizard() {
                         <a
                           href={`/api/runs/${encodeURIComponent(runId || "")}/preview?file=${encodeURIComponent(
                             previewGuides[previewIndex]?.outputFile || ""
-                          )}&download=1`}
+                          )}${currentView?.lang ? `&lang=${encodeURIComponent(currentView.lang)}` : ""}&download=1`}
                           className="inline-flex items-center justify-center rounded-md bg-black p-2 text-white hover:bg-black/90"
                           aria-label="Download this doc"
                           title="Download this doc"
@@ -1365,10 +1844,10 @@ export function RunWizard() {
                         <button
                           type="button"
                           onClick={() => {
-                            const title = currentGuide?.title || "Preview";
+                            const title = currentView?.title || "Preview";
                             const full = wrapPreviewDoc(title, htmlToRender);
                             const safeName =
-                              (currentGuide?.outputFile || "guide.html").replace(
+                              (currentView?.key || "guide.html").replace(
                                 /[^a-zA-Z0-9._-]/g,
                                 "_"
                               ) || "guide.html";
@@ -1434,20 +1913,25 @@ export function RunWizard() {
                   </div>
 
                   <div className="relative">
-                    <div
-                      ref={previewFullscreenElRef}
-                      className="h-[520px] overflow-hidden rounded-md border bg-background"
-                    >
-                      <iframe
-                        title={previewGuides[previewIndex]?.title || "Preview"}
-                        className="h-full w-full"
-                        sandbox=""
-                        referrerPolicy="no-referrer"
-                        srcDoc={wrapPreviewDoc(
-                          previewGuides[previewIndex]?.title || "Preview",
-                          htmlToRender
-                        )}
-                      />
+                    <div className={currentView?.fidelity ? "grid gap-3 lg:grid-cols-[1fr_16rem]" : undefined}>
+                      <div
+                        ref={previewFullscreenElRef}
+                        className="h-[520px] overflow-hidden rounded-md border bg-background"
+                      >
+                        <iframe
+                          title={previewGuides[previewIndex]?.title || "Preview"}
+                          className="h-full w-full"
+                          sandbox=""
+                          referrerPolicy="no-referrer"
+                          srcDoc={wrapPreviewDoc(
+                            previewGuides[previewIndex]?.title || "Preview",
+                            htmlToRender
+                          )}
+                        />
+                      </div>
+                      {currentView?.fidelity && (
+                        <FidelityPanel report={currentView.fidelity} glossary={currentView.glossary} />
+                      )}
                     </div>
 
                     {/* Lightbox editor: full-size artifact on the left + chat on the right */}
@@ -1469,7 +1953,7 @@ export function RunWizard() {
                               <div className="min-w-0">
                                 <div className="text-sm font-semibold">AI editor</div>
                                 <div className="mt-0.5 truncate text-xs text-muted-foreground">
-                                  {currentGuide?.title || "Preview"}
+                                  {currentView?.title || "Preview"}
                                 </div>
                               </div>
                               <button
@@ -1488,12 +1972,12 @@ export function RunWizard() {
                                 <div className="h-full min-h-0 p-3">
                                   <div className="h-full overflow-hidden rounded-md border bg-background">
                                     <iframe
-                                      title={`${currentGuide?.title || "Preview"} (Editor)`}
+                                      title={`${currentView?.title || "Preview"} (Editor)`}
                                       className="h-full w-full"
                                       sandbox=""
                                       referrerPolicy="no-referrer"
                                       srcDoc={wrapPreviewDoc(
-                                        currentGuide?.title || "Preview",
+                                        currentView?.title || "Preview",
                                         htmlToRender
                                       )}
                                     />
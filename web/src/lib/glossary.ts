@@ -0,0 +1,18 @@
+export type GlossaryViolation = {
+  term: string;
+  /** `missing`: in the source but not the result; `misspelled`/`synonym`: `found` used instead. */
+  kind: "missing" | "misspelled" | "synonym";
+  found?: string;
+};
+
+export type GlossaryReport = {
+  /** Glossary entries that applied to this guide (mentioned in the source or the result). */
+  checked: number;
+  violations: GlossaryViolation[];
+};
+
+export function describeGlossaryViolation(v: GlossaryViolation) {
+  if (v.kind === "missing") return `"${v.term}" is missing`;
+  if (v.kind === "misspelled") return `"${v.found}" should be "${v.term}"`;
+  return `"${v.found}" used instead of "${v.term}"`;
+}
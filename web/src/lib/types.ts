@@ -1,5 +1,8 @@
 export type Guide = {
   title: string;
+  /** One plain-text paragraph summarizing the guide. */
   description: string;
+  tags: string[];
+  /** HTML fragment. */
   content: string;
 }
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import { mkdtempSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { gzipSync } from "node:zlib";
+import JSZip from "jszip";
+
+// Small limits so the tests can hit them without large inputs.
+process.env.ARCHIVE_MAX_ENTRIES = "5";
+process.env.ARCHIVE_MAX_EXPANDED_BYTES = String(64 * 1024);
+process.env.ARCHIVE_MAX_NESTING = "2";
+
+type Archives = typeof import("@/server/archives");
+
+const workDir = mkdtempSync(path.join(os.tmpdir(), "archives-test-"));
+let expandArchive: Archives["expandArchive"];
+
+before(async () => {
+  ({ expandArchive } = await import("@/server/archives"));
+});
+
+after(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+/** A ustar header block plus the padded content, without the end-of-archive blocks. */
+function tarEntry(name: string, content: string | Buffer, declaredSize?: number) {
+  const data = Buffer.from(content);
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100, "utf8");
+  header.write("0000644\0", 100);
+  header.write("0000000\0", 108);
+  header.write("0000000\0", 116);
+  header.write((declaredSize ?? data.length).toString(8).padStart(11, "0") + "\0", 124);
+  header.write("00000000000\0", 136);
+  header.write("        ", 148);
+  header.write("0", 156);
+  header.write("ustar\0", 257);
+  header.write("00", 263);
+  let sum = 0;
+  for (const byte of header) sum += byte;
+  header.write(sum.toString(8).padStart(6, "0") + "\0 ", 148);
+  const padded = Buffer.alloc(Math.ceil(data.length / 512) * 512);
+  data.copy(padded);
+  return Buffer.concat([header, padded]);
+}
+
+function tarOf(entries: Record<string, string | Buffer>) {
+  return Buffer.concat([...Object.entries(entries).map(([n, c]) => tarEntry(n, c)), Buffer.alloc(1024)]);
+}
+
+async function zipOf(entries: Record<string, string | Buffer>) {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(entries)) zip.file(name, content, { createFolders: false });
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+let caseCount = 0;
+
+/** Writes `archive` as `fileName` and expands it into a fresh folder. */
+async function expand(fileName: string, archive: Buffer) {
+  const dir = path.join(workDir, `case-${++caseCount}`);
+  await fs.mkdir(dir, { recursive: true });
+  const archivePath = path.join(dir, fileName);
+  await fs.writeFile(archivePath, archive);
+  const destDir = path.join(dir, "out");
+  return { destDir, result: expandArchive(archivePath, destDir) };
+}
+
+test("expands zip and tar archives, keeping folders", async () => {
+  const entries = { "docs/a.md": "# A", "b.txt": "B", "__MACOSX/docs/._a.md": "junk" };
+  for (const [fileName, archive] of [
+    ["export.zip", await zipOf(entries)],
+    ["export.tar", tarOf(entries)],
+    ["export.tar.gz", gzipSync(tarOf(entries))],
+  ] as const) {
+    const { destDir, result } = await expand(fileName, archive);
+    const files = await result;
+    assert.deepEqual(files.map((f) => f.relativePath).sort(), ["b.txt", "docs/a.md"], fileName);
+    assert.equal(await fs.readFile(path.join(destDir, "docs/a.md"), "utf8"), "# A");
+  }
+});
+
+test("rejects entries that climb out of the archive folder", async () => {
+  for (const [fileName, archive] of [
+    ["slip.zip", await zipOf({ "ok.md": "ok", "../escaped.md": "x" })],
+    ["slip-nested.zip", await zipOf({ "docs/../../escaped.md": "x" })],
+    ["slip.tar", tarOf({ "ok.md": "ok", "../escaped.md": "x" })],
+    ["slip-nested.tar", tarOf({ "docs/../../escaped.md": "x" })],
+  ] as const) {
+    const { destDir, result } = await expand(fileName, archive);
+    await assert.rejects(result, /outside the archive folder/, fileName);
+    await assert.rejects(fs.access(destDir), fileName);
+    await assert.rejects(fs.access(path.join(destDir, "..", "escaped.md")), fileName);
+  }
+});
+
+test("rejects absolute zip entry names", async () => {
+  const { destDir, result } = await expand("absolute.zip", await zipOf({ "/tmp/absolute.md": "x" }));
+  await assert.rejects(result, /outside the archive folder/);
+  await assert.rejects(fs.access(destDir));
+});
+
+test("keeps absolute tar entry names inside the archive folder", async () => {
+  // Like tar itself, the leading slash is stripped rather than the archive rejected.
+  const { destDir, result } = await expand("absolute.tar", tarOf({ "/tmp/absolute.md": "x" }));
+  assert.deepEqual((await result).map((f) => f.relativePath), ["tmp/absolute.md"]);
+  assert.equal(await fs.readFile(path.join(destDir, "tmp/absolute.md"), "utf8"), "x");
+});
+
+test("enforces the entry count limit", async () => {
+  const entries = Object.fromEntries(Array.from({ length: 6 }, (_, i) => [`f${i}.md`, "x"]));
+  for (const [fileName, archive] of [
+    ["many.zip", await zipOf(entries)],
+    ["many.tar", tarOf(entries)],
+  ] as const) {
+    const { destDir, result } = await expand(fileName, archive);
+    await assert.rejects(result, /more than 5 files/, fileName);
+    await assert.rejects(fs.access(destDir), fileName);
+  }
+});
+
+test("enforces the expanded size limit across entries", async () => {
+  // Each entry is under the limit; together they are not. Zeros compress well, as in a zip bomb.
+  const chunk = Buffer.alloc(40 * 1024);
+  for (const [fileName, archive] of [
+    ["big.zip", await zipOf({ "a.bin": chunk, "b.bin": chunk })],
+    ["big.tar.gz", gzipSync(tarOf({ "a.bin": chunk, "b.bin": chunk }))],
+  ] as const) {
+    const { destDir, result } = await expand(fileName, archive);
+    await assert.rejects(result, /expands to more than/, fileName);
+    await assert.rejects(fs.access(destDir), fileName);
+  }
+});
+
+test("expands nested archives up to the nesting limit", async () => {
+  const inner = await zipOf({ "deep.md": "deep" });
+  const middle = tarOf({ "inner.zip": inner });
+  const { result } = await expand("outer.zip", await zipOf({ "middle.tar": middle, "top.md": "top" }));
+  const files = await result;
+  assert.deepEqual(files.map((f) => f.relativePath).sort(), ["middle/inner/deep.md", "top.md"]);
+});
+
+test("rejects archives nested past the limit", async () => {
+  const innermost = await zipOf({ "deepest.md": "x" });
+  const third = await zipOf({ "innermost.zip": innermost });
+  const second = tarOf({ "third.zip": third });
+  const { destDir, result } = await expand("outer.zip", await zipOf({ "second.tar": second }));
+  await assert.rejects(result, /nested more than 2 levels deep/);
+  await assert.rejects(fs.access(destDir));
+});
+
+test("rejects a truncated tar without crashing", async () => {
+  const full = tarOf({ "a.md": "a", "b.md": "b".repeat(2000) });
+  // Cut inside b.md's data: its header promises more bytes than the file has.
+  const truncated = full.subarray(0, 512 * 3 + 100);
+  for (const [fileName, archive] of [
+    ["truncated.tar", truncated],
+    ["truncated.tar.gz", gzipSync(truncated)],
+    ["cut-gzip.tar.gz", gzipSync(full).subarray(0, Math.floor(gzipSync(full).length / 2))],
+    ["oversized-entry.tar", tarEntry("c.md", "c", 64 * 1024)],
+  ] as const) {
+    const { destDir, result } = await expand(fileName, archive);
+    await assert.rejects(result, Error, fileName);
+    await assert.rejects(fs.access(destDir), fileName);
+  }
+});
+
+test("rejects a truncated zip", async () => {
+  const full = await zipOf({ "a.md": "a".repeat(1000) });
+  const { destDir, result } = await expand("truncated.zip", full.subarray(0, full.length - 30));
+  await assert.rejects(result, Error);
+  await assert.rejects(fs.access(destDir));
+});
@@ -0,0 +1,233 @@
+import fs from "node:fs/promises";
+import fssync from "node:fs";
+import path from "node:path";
+import { Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import yauzl from "yauzl";
+import { Parser, type ReadEntry } from "tar";
+import { ensureDir, safeJoin } from "@/server/storage";
+import type { Logger } from "@/server/logger";
+
+// Zip-bomb protection. Limits apply across an archive and everything nested inside it.
+const MAX_ENTRIES = Number(process.env.ARCHIVE_MAX_ENTRIES || 5000);
+const MAX_EXPANDED_BYTES = Number(process.env.ARCHIVE_MAX_EXPANDED_BYTES || 512 * 1024 * 1024);
+const MAX_PATH_DEPTH = Number(process.env.ARCHIVE_MAX_PATH_DEPTH || 16);
+const MAX_NESTING = Number(process.env.ARCHIVE_MAX_NESTING || 2);
+
+type ArchiveKind = "zip" | "tar";
+
+type Budget = { entries: number; bytes: number };
+
+export type ExpandedFile = { relativePath: string; size: number };
+
+export function archiveKind(fileName: string): ArchiveKind | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".zip")) return "zip";
+  if (lower.endsWith(".tar.gz") || lower.endsWith(".tgz") || lower.endsWith(".tar")) return "tar";
+  return null;
+}
+
+/**
+ * Folder name an archive expands into, e.g. `wiki-export.tar.gz` -> `wiki-export`.
+ */
+export function archiveFolderName(fileName: string) {
+  const base = path.basename(fileName).replace(/\.(zip|tar\.gz|tgz|tar)$/i, "");
+  return base.trim() || "archive";
+}
+
+function normalizeEntryName(name: string) {
+  return name.replaceAll("\\", "/").replace(/^(\.\/)+/, "");
+}
+
+// OS metadata that zip tools add; never useful as a guide.
+function isJunkEntry(name: string) {
+  return name.startsWith("__MACOSX/") || path.posix.basename(name) === ".DS_Store";
+}
+
+function claimEntry(budget: Budget, entryName: string, depthPrefix: string) {
+  budget.entries++;
+  if (budget.entries > MAX_ENTRIES) {
+    throw new Error(`Archive has more than ${MAX_ENTRIES} files`);
+  }
+  const depth = `${depthPrefix}${entryName}`.split("/").filter(Boolean).length;
+  if (depth > MAX_PATH_DEPTH) {
+    throw new Error(`Archive entry "${entryName}" is nested more than ${MAX_PATH_DEPTH} folders deep`);
+  }
+}
+
+function resolveEntryTarget(destDir: string, entryName: string) {
+  try {
+    return safeJoin(destDir, entryName);
+  } catch {
+    throw new Error(`Archive entry "${entryName}" points outside the archive folder`);
+  }
+}
+
+function byteCounter(budget: Budget) {
+  return new Transform({
+    transform(chunk: Buffer, _enc, cb) {
+      budget.bytes += chunk.length;
+      if (budget.bytes > MAX_EXPANDED_BYTES) {
+        cb(new Error(`Archive expands to more than ${Math.round(MAX_EXPANDED_BYTES / 1024 / 1024)} MB`));
+        return;
+      }
+      cb(null, chunk);
+    },
+  });
+}
+
+async function expandZip(archivePath: string, destDir: string, budget: Budget, depthPrefix: string) {
+  const written: string[] = [];
+  const zip = await yauzl.openPromise(archivePath, { lazyEntries: true, strictFileNames: false });
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const onEntry = async (entry: yauzl.Entry) => {
+        const name = normalizeEntryName(entry.fileName);
+        if (name.endsWith("/") || isJunkEntry(name)) return;
+        // Symlinks could point anywhere on the host; skip them.
+        if (((entry.externalFileAttributes >>> 16) & 0o170000) === 0o120000) return;
+        if (entry.isEncrypted()) throw new Error("Encrypted archives are not supported");
+
+        claimEntry(budget, name, depthPrefix);
+        const target = resolveEntryTarget(destDir, name);
+        await ensureDir(path.dirname(target));
+        const stream = await zip.openReadStreamPromise(entry);
+        await pipeline(stream, byteCounter(budget), fssync.createWriteStream(target));
+        written.push(target);
+      };
+      zip.on("entry", (entry: yauzl.Entry) => {
+        onEntry(entry).then(() => zip.readEntry(), reject);
+      });
+      zip.on("end", () => resolve());
+      zip.on("error", (e: Error) => {
+        // yauzl validates names itself; surface its path errors in the same terms as safeJoin's.
+        if (/invalid relative path|absolute path/i.test(e.message)) {
+          reject(new Error(`Archive entry points outside the archive folder (${e.message})`));
+          return;
+        }
+        reject(e);
+      });
+      zip.readEntry();
+    });
+  } finally {
+    zip.close();
+  }
+  return written;
+}
+
+async function expandTar(archivePath: string, destDir: string, budget: Budget, depthPrefix: string) {
+  const written: string[] = [];
+  const pendingWrites: Promise<void>[] = [];
+  // The first failure wins; it is thrown once the writes still in flight have settled.
+  let failure: Error | undefined;
+
+  await new Promise<void>((resolve) => {
+    const input = fssync.createReadStream(archivePath);
+    const fail = (e: unknown) => {
+      if (failure) return;
+      failure = e instanceof Error ? e : new Error(String(e));
+      input.destroy();
+      resolve();
+    };
+
+    // Parser auto-detects gzip, so .tar and .tar.gz share this path.
+    const parser = new Parser({
+      strict: true,
+      onReadEntry: (entry: ReadEntry) => {
+        try {
+          const name = normalizeEntryName(entry.path);
+          // Only regular files: directories are implied by paths, links could escape the tree.
+          if (entry.type !== "File" && entry.type !== "OldFile") {
+            entry.resume();
+            return;
+          }
+          if (isJunkEntry(name)) {
+            entry.resume();
+            return;
+          }
+          claimEntry(budget, name, depthPrefix);
+          const target = resolveEntryTarget(destDir, name);
+          fssync.mkdirSync(path.dirname(target), { recursive: true });
+          written.push(target);
+          const write = pipeline(entry, byteCounter(budget), fssync.createWriteStream(target));
+          pendingWrites.push(
+            write.catch((e) => {
+              fail(e);
+              parser.abort(failure!);
+            })
+          );
+        } catch (e) {
+          entry.resume();
+          fail(e);
+          parser.abort(failure!);
+        }
+      },
+    });
+    parser.on("error", fail);
+    parser.on("abort", fail);
+    parser.on("end", () => resolve());
+    input.on("error", fail);
+    input.pipe(parser);
+  });
+
+  await Promise.allSettled(pendingWrites);
+  if (failure) throw failure;
+  return written;
+}
+
+async function expandInto(
+  archivePath: string,
+  destDir: string,
+  budget: Budget,
+  nesting: number,
+  depthPrefix: string,
+  log?: Logger
+): Promise<string[]> {
+  const kind = archiveKind(archivePath);
+  if (!kind) return [];
+  const written =
+    kind === "zip"
+      ? await expandZip(archivePath, destDir, budget, depthPrefix)
+      : await expandTar(archivePath, destDir, budget, depthPrefix);
+
+  // Expand archives found inside the archive (wiki exports often nest attachments this way).
+  const out: string[] = [];
+  for (const file of written) {
+    if (!archiveKind(file)) {
+      out.push(file);
+      continue;
+    }
+    if (nesting + 1 > MAX_NESTING) {
+      throw new Error(`Archive contains archives nested more than ${MAX_NESTING} levels deep`);
+    }
+    const nestedDir = path.join(path.dirname(file), archiveFolderName(file));
+    const nestedPrefix = `${depthPrefix}${path.relative(destDir, nestedDir).replaceAll(path.sep, "/")}/`;
+    log?.info("archive: expanding nested archive", { file: path.relative(destDir, file), nesting: nesting + 1 });
+    out.push(...(await expandInto(file, nestedDir, budget, nesting + 1, nestedPrefix, log)));
+    await fs.rm(file, { force: true });
+  }
+  return out;
+}
+
+/**
+ * Expands a .zip/.tar/.tar.gz into `destDir`, preserving internal folder paths.
+ * Every entry goes through `safeJoin` (zip-slip) and the shared entry/size/depth budget; on any
+ * violation the partially expanded folder is removed and a descriptive error is thrown.
+ */
+export async function expandArchive(archivePath: string, destDir: string, log?: Logger): Promise<ExpandedFile[]> {
+  const budget: Budget = { entries: 0, bytes: 0 };
+  await ensureDir(destDir);
+  try {
+    const files = await expandInto(archivePath, destDir, budget, 0, "", log);
+    const out: ExpandedFile[] = [];
+    for (const f of files) {
+      const st = await fs.stat(f);
+      out.push({ relativePath: path.relative(destDir, f).replaceAll(path.sep, "/"), size: st.size });
+    }
+    log?.info("archive: expanded", { archivePath, files: out.length, expandedBytes: budget.bytes });
+    return out;
+  } catch (e) {
+    await fs.rm(destDir, { recursive: true, force: true });
+    throw e;
+  }
+}
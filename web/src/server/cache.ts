@@ -0,0 +1,51 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getCacheDir, writeJsonAtomic } from "@/server/storage";
+
+/**
+ * Persistent content-addressed cache for pipeline results, so re-uploading the same folder or
+ * re-running after a partial failure skips ingestion and LLM calls for unchanged files.
+ * Entries are JSON files under `<DATA_DIR>/cache/<namespace>/<ab>/<key>.json`; set PIPELINE_CACHE=0
+ * to bypass it.
+ *
+ * There is no size limit or eviction: entries stay until the folder is deleted. Markdown entries hold
+ * the converted documents in full, so redacted runs skip that namespace; HTML entries hold the model's
+ * answer, which only carries placeholders when the model is an external one.
+ */
+
+export type CacheNamespace = "markdown" | "html";
+
+export function isCacheEnabled() {
+  return process.env.PIPELINE_CACHE !== "0";
+}
+
+/** SHA-256 over the parts, length-prefixed so ("ab", "c") and ("a", "bc") don't collide. */
+export function hashKey(...parts: Array<string | Buffer>) {
+  const h = crypto.createHash("sha256");
+  for (const part of parts) {
+    const buf = typeof part === "string" ? Buffer.from(part, "utf8") : part;
+    h.update(`${buf.length}:`);
+    h.update(buf);
+  }
+  return h.digest("hex");
+}
+
+function entryPath(namespace: CacheNamespace, key: string) {
+  return path.join(getCacheDir(), namespace, key.slice(0, 2), `${key}.json`);
+}
+
+export async function readCache<T>(namespace: CacheNamespace, key: string): Promise<T | null> {
+  if (!isCacheEnabled()) return null;
+  try {
+    return JSON.parse(await fs.readFile(entryPath(namespace, key), "utf8")) as T;
+  } catch {
+    // Missing or half-written entries are just misses.
+    return null;
+  }
+}
+
+export async function writeCache(namespace: CacheNamespace, key: string, value: unknown) {
+  if (!isCacheEnabled()) return;
+  await writeJsonAtomic(entryPath(namespace, key), value);
+}
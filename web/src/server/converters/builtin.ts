@@ -0,0 +1,225 @@
+import path from "node:path";
+import pdfParse from "pdf-parse";
+import type { Converter, ConverterInput, MarkdownResult } from "@/server/converters/registry";
+import { CONTENT_TYPES } from "@/server/converters/sniff";
+import { docxToMarkdown } from "@/server/converters/docx";
+import { pptxToMarkdown } from "@/server/converters/pptx";
+import { delimitedToMarkdown, workbookToMarkdown } from "@/server/converters/spreadsheet";
+import { htmlToMainMarkdown } from "@/server/converters/html";
+import { odpToMarkdown, odtToMarkdown } from "@/server/converters/opendocument";
+import { rtfToMarkdown } from "@/server/converters/rtf";
+import { emlToMarkdown, msgToMarkdown } from "@/server/converters/email";
+import { imageToMarkdownWithOcr, pdfToMarkdownWithOcr, scannedPdfPages } from "@/server/converters/ocr";
+import { decodeText } from "@/server/converters/text-encoding";
+
+function decode({ buf, fileName, log }: ConverterInput) {
+  const { text, encoding } = decodeText(buf);
+  log?.info("converter: decoded text", { fileName, encoding });
+  return { text, encoding };
+}
+
+function nonEmpty(markdown: string, what: string): MarkdownResult {
+  const text = markdown.trim();
+  if (text) return { markdown: text };
+  throw new Error(`${what} returned empty markdown`);
+}
+
+/** Plain text and Markdown; also the fallback for unknown extensions. */
+export const textConverter: Converter = {
+  name: "text",
+  version: 1,
+  extensions: [".md", ".markdown", ".txt", ".log"],
+  convert: (input) => {
+    const { text, encoding } = decode(input);
+    return { markdown: text, encoding };
+  },
+};
+
+const delimitedConverter: Converter = {
+  name: "delimited",
+  version: 1,
+  // The sheet heading is the file's name.
+  usesFileName: true,
+  extensions: [".csv", ".tsv"],
+  convert: (input) => {
+    const sheetName = path.basename(input.fileName, path.extname(input.fileName));
+    const { text, encoding } = decode(input);
+    return { markdown: delimitedToMarkdown(sheetName, text, input.ext === ".tsv" ? "\t" : ","), encoding };
+  },
+};
+
+const spreadsheetConverter: Converter = {
+  name: "spreadsheet",
+  version: 1,
+  extensions: [".xlsx", ".xls", ".ods"],
+  contentTypes: [CONTENT_TYPES.xlsx, CONTENT_TYPES.xls, CONTENT_TYPES.ods],
+  binary: true,
+  convert: ({ buf, log }) => nonEmpty(workbookToMarkdown(buf, log), "spreadsheet conversion"),
+};
+
+const jsonConverter: Converter = {
+  name: "json",
+  version: 1,
+  extensions: [".json"],
+  convert: (input) => {
+    const { text: raw, encoding } = decode(input);
+    try {
+      return { markdown: "```json\n" + JSON.stringify(JSON.parse(raw), null, 2) + "\n```", encoding };
+    } catch {
+      return { markdown: raw, encoding };
+    }
+  },
+};
+
+type PdfParsePage = {
+  getTextContent: (opts: object) => Promise<{ items: Array<{ str: string; transform: number[] }> }>;
+};
+
+/** pdf-parse's default page renderer, also collecting each page's text for the scanned-page check. */
+function collectPdfPageText(pageTexts: string[]) {
+  return async (page: PdfParsePage) => {
+    const content = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    let lastY: number | undefined;
+    let text = "";
+    for (const item of content.items) {
+      text += lastY === item.transform[5] || !lastY ? item.str : `\n${item.str}`;
+      lastY = item.transform[5];
+    }
+    pageTexts.push(text);
+    return text;
+  };
+}
+
+const pdfConverter: Converter = {
+  name: "pdf",
+  version: 2,
+  extensions: [".pdf"],
+  contentTypes: [CONTENT_TYPES.pdf],
+  binary: true,
+  convert: async ({ buf, fileName, log }) => {
+    const pageTexts: string[] = [];
+    const parsed = await pdfParse(buf, { pagerender: collectPdfPageText(pageTexts) });
+    const text = (parsed.text || "").trim();
+    const scanned = scannedPdfPages(pageTexts);
+    if (text && !scanned.length) return { markdown: text };
+
+    // Pages with a text layer keep it; only the sparse ones are OCR'd.
+    log?.info("converter: pdf has pages without a usable text layer; running OCR", {
+      fileName,
+      pages: parsed.numpages,
+      scannedPages: scanned,
+      textChars: text.length,
+    });
+    const ocred = await pdfToMarkdownWithOcr(buf, log);
+    if (ocred.markdown.trim()) return ocred;
+    if (text) return { markdown: text };
+    throw new Error("pdf-parse returned empty text and OCR found nothing");
+  },
+};
+
+const docxConverter: Converter = {
+  name: "docx",
+  version: 1,
+  extensions: [".docx"],
+  contentTypes: [CONTENT_TYPES.docx],
+  binary: true,
+  convert: async ({ buf, log }) => nonEmpty(await docxToMarkdown(buf, log), "mammoth"),
+};
+
+const pptxConverter: Converter = {
+  name: "pptx",
+  version: 2,
+  extensions: [".pptx"],
+  contentTypes: [CONTENT_TYPES.pptx],
+  binary: true,
+  convert: async ({ buf, log }) => nonEmpty(await pptxToMarkdown(buf, log), "pptx conversion"),
+};
+
+const odtConverter: Converter = {
+  name: "odt",
+  version: 1,
+  extensions: [".odt"],
+  contentTypes: [CONTENT_TYPES.odt],
+  binary: true,
+  convert: async ({ buf, log }) => nonEmpty(await odtToMarkdown(buf, log), "odt conversion"),
+};
+
+const odpConverter: Converter = {
+  name: "odp",
+  version: 1,
+  extensions: [".odp"],
+  contentTypes: [CONTENT_TYPES.odp],
+  binary: true,
+  convert: async ({ buf, log }) => nonEmpty(await odpToMarkdown(buf, log), "odp conversion"),
+};
+
+const rtfConverter: Converter = {
+  name: "rtf",
+  version: 1,
+  extensions: [".rtf"],
+  contentTypes: [CONTENT_TYPES.rtf],
+  // Raw RTF is control-word noise; a failed parse shouldn't fall back to it.
+  binary: true,
+  convert: ({ buf, log }) => nonEmpty(rtfToMarkdown(buf, log), "rtf conversion"),
+};
+
+const emlConverter: Converter = {
+  name: "eml",
+  version: 2,
+  extensions: [".eml"],
+  contentTypes: [CONTENT_TYPES.eml],
+  localOnly: true,
+  convert: ({ buf, log }) => emlToMarkdown(buf, log),
+};
+
+const msgConverter: Converter = {
+  name: "msg",
+  version: 2,
+  extensions: [".msg"],
+  contentTypes: [CONTENT_TYPES.msg],
+  binary: true,
+  localOnly: true,
+  convert: ({ buf, log }) => msgToMarkdown(buf, log),
+};
+
+const imageConverter: Converter = {
+  name: "image-ocr",
+  version: 1,
+  extensions: [".png", ".jpg", ".jpeg", ".tif", ".tiff", ".bmp", ".webp"],
+  contentTypes: [CONTENT_TYPES.png, CONTENT_TYPES.jpeg, CONTENT_TYPES.tiff, CONTENT_TYPES.bmp, CONTENT_TYPES.webp],
+  binary: true,
+  convert: async ({ buf, log }) => {
+    const ocred = await imageToMarkdownWithOcr(buf, log);
+    if (ocred.markdown.trim()) return ocred;
+    throw new Error("OCR found no text in image");
+  },
+};
+
+const htmlConverter: Converter = {
+  name: "html",
+  version: 2,
+  extensions: [".html", ".htm"],
+  contentTypes: [CONTENT_TYPES.html],
+  convert: (input) => {
+    const { text: html, encoding } = decode(input);
+    const text = htmlToMainMarkdown(html, input.log).trim();
+    return { markdown: text || html, encoding };
+  },
+};
+
+export const BUILTIN_CONVERTERS: Converter[] = [
+  textConverter,
+  delimitedConverter,
+  spreadsheetConverter,
+  jsonConverter,
+  pdfConverter,
+  docxConverter,
+  pptxConverter,
+  odtConverter,
+  odpConverter,
+  rtfConverter,
+  emlConverter,
+  msgConverter,
+  imageConverter,
+  htmlConverter,
+];
@@ -0,0 +1,34 @@
+import mammoth from "mammoth";
+import type { Logger } from "@/server/logger";
+import { htmlToMarkdown } from "@/server/converters/html-to-markdown";
+
+// Mammoth already maps "Heading 1".."Heading 6" and list numbering; these cover the other
+// structural styles our SOP templates use.
+const STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Subtitle'] => h2:fresh",
+  "p[style-name='Quote'] => blockquote > p:fresh",
+  "p[style-name='Intense Quote'] => blockquote > p:fresh",
+  "r[style-name='Strong'] => strong",
+  "r[style-name='Emphasis'] => em",
+];
+
+export async function docxToMarkdown(buf: Buffer, log?: Logger): Promise<string> {
+  const result = await mammoth.convertToHtml(
+    { buffer: buf },
+    {
+      styleMap: STYLE_MAP,
+      // Don't inline image bytes as data URIs; the alt text is all the rewrite step can use.
+      convertImage: mammoth.images.imgElement(async () => ({ src: "" })),
+    }
+  );
+
+  if (result.messages.length > 0) {
+    log?.debug("docx: conversion messages", {
+      count: result.messages.length,
+      messages: result.messages.slice(0, 20).map((m) => `${m.type}: ${m.message}`),
+    });
+  }
+
+  return htmlToMarkdown(result.value || "");
+}
@@ -0,0 +1,156 @@
+import { simpleParser, type AddressObject } from "mailparser";
+import MsgReader from "@kenjiuno/msgreader";
+import type { Logger } from "@/server/logger";
+import { htmlToMarkdown } from "@/server/converters/html-to-markdown";
+
+export type EmailAttachment = {
+  fileName: string;
+  content: Buffer;
+};
+
+export type EmailConversion = {
+  markdown: string;
+  attachments: EmailAttachment[];
+};
+
+type ParsedEmail = {
+  subject: string;
+  from: string;
+  to: string;
+  cc: string;
+  date: string;
+  html: string;
+  text: string;
+  attachments: EmailAttachment[];
+};
+
+// "On Mon, Jane wrote:" introduces a quoted reply; it may wrap onto a second line.
+const WROTE_MARKER = /^on\s.+wrote:\s*$/i;
+
+// Lines that start the quoted history in Outlook-style replies, which don't mark quoted lines with ">".
+const REPLY_MARKERS = [/^-{2,}\s*original message\s*-{2,}$/i, /^_{10,}$/];
+
+function isForward(subject: string) {
+  return /^\s*(fw|fwd)\s*:/i.test(subject);
+}
+
+function isQuotedTail(lines: string[]) {
+  return lines.every((l) => !l.trim() || l.trim().startsWith(">"));
+}
+
+/**
+ * Removes the quoted history trailing a reply so only the newest message remains. Quoted lines are
+ * only dropped after an "On … wrote:" marker and when nothing but the quote follows it, so inline
+ * replies keep the questions they answer. Forwards are kept intact because the forwarded content is
+ * usually the point of the email.
+ */
+export function stripQuotedReplies(markdown: string, subject: string) {
+  if (isForward(subject)) return markdown;
+  const lines = markdown.split("\n");
+  const out: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const markerLines = WROTE_MARKER.test(line)
+      ? 1
+      : WROTE_MARKER.test(`${line} ${(lines[i + 1] || "").trim()}`)
+        ? 2
+        : 0;
+    if (markerLines && isQuotedTail(lines.slice(i + markerLines))) break;
+    if (REPLY_MARKERS.some((re) => re.test(line))) break;
+    // Outlook reply header block: "From: ..." followed shortly by "Sent:"/"Date:".
+    if (/^\**from:\**\s/i.test(line) && lines.slice(i + 1, i + 4).some((l) => /^\**(sent|date):\**\s/i.test(l.trim()))) {
+      break;
+    }
+    out.push(lines[i]);
+  }
+  return out.join("\n").trim();
+}
+
+function renderEmail(email: ParsedEmail) {
+  const body = email.html.trim() ? htmlToMarkdown(email.html) : email.text.trim();
+  const meta = [
+    ["From", email.from],
+    ["To", email.to],
+    ["Cc", email.cc],
+    ["Date", email.date],
+    ["Subject", email.subject],
+  ]
+    .filter(([, v]) => v)
+    .map(([k, v]) => `**${k}:** ${v}`)
+    .join("  \n");
+
+  const parts = [`# ${email.subject || "(no subject)"}`, meta, stripQuotedReplies(body, email.subject)];
+  if (email.attachments.length > 0) {
+    parts.push(`**Attachments:** ${email.attachments.map((a) => a.fileName).join(", ")}`);
+  }
+  return parts.filter(Boolean).join("\n\n");
+}
+
+function addressText(value: AddressObject | AddressObject[] | undefined) {
+  if (!value) return "";
+  return (Array.isArray(value) ? value : [value]).map((a) => a.text).join(", ");
+}
+
+export async function emlToMarkdown(buf: Buffer, log?: Logger): Promise<EmailConversion> {
+  const parsed = await simpleParser(buf);
+  const attachments: EmailAttachment[] = [];
+  for (const a of parsed.attachments) {
+    // Inline images (signatures, logos) are referenced from the body, not standalone documents.
+    if (a.related || (a.contentDisposition === "inline" && a.contentType.startsWith("image/"))) continue;
+    attachments.push({
+      fileName: a.filename || `attachment-${attachments.length + 1}`,
+      content: a.content,
+    });
+  }
+
+  const email: ParsedEmail = {
+    subject: parsed.subject || "",
+    from: addressText(parsed.from),
+    to: addressText(parsed.to),
+    cc: addressText(parsed.cc),
+    date: parsed.date ? parsed.date.toISOString() : "",
+    html: typeof parsed.html === "string" ? parsed.html : "",
+    text: parsed.text || "",
+    attachments,
+  };
+  log?.debug("email: parsed eml", { subject: email.subject, attachments: attachments.map((a) => a.fileName) });
+  return { markdown: renderEmail(email), attachments };
+}
+
+export function msgToMarkdown(buf: Buffer, log?: Logger): EmailConversion {
+  const reader = new MsgReader(new Uint8Array(buf).buffer);
+  const data = reader.getFileData();
+  if (data.error) throw new Error(`msg: ${data.error}`);
+
+  const recipients = (kind: "to" | "cc") =>
+    (data.recipients || [])
+      .filter((r) => (r.recipType || "to") === kind)
+      .map((r) => (r.name && r.smtpAddress ? `${r.name} <${r.smtpAddress}>` : r.name || r.smtpAddress || r.email || ""))
+      .filter(Boolean)
+      .join(", ");
+
+  const attachments: EmailAttachment[] = [];
+  for (const att of data.attachments || []) {
+    if (att.attachmentHidden) continue;
+    const file = reader.getAttachment(att);
+    attachments.push({
+      fileName: file.fileName || att.fileName || `attachment-${attachments.length + 1}`,
+      content: Buffer.from(file.content),
+    });
+  }
+
+  const sentAt = data.clientSubmitTime || data.messageDeliveryTime || "";
+  const sentDate = sentAt ? new Date(sentAt) : null;
+  const email: ParsedEmail = {
+    subject: data.subject || "",
+    from: data.senderName && data.senderEmail ? `${data.senderName} <${data.senderEmail}>` : data.senderName || data.senderEmail || "",
+    to: recipients("to"),
+    cc: recipients("cc"),
+    date: sentDate && !Number.isNaN(sentDate.getTime()) ? sentDate.toISOString() : sentAt,
+    html: data.bodyHtml || (data.html ? Buffer.from(data.html).toString("utf8") : ""),
+    text: data.body || "",
+    attachments,
+  };
+  log?.debug("email: parsed msg", { subject: email.subject, attachments: attachments.map((a) => a.fileName) });
+  return { markdown: renderEmail(email), attachments };
+}
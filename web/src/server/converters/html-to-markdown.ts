@@ -0,0 +1,93 @@
+import TurndownService from "turndown";
+
+let service: TurndownService | null = null;
+
+function childElements(node: Element, tagNames: string[]) {
+  return Array.from(node.childNodes).filter(
+    (c): c is Element => c.nodeType === 1 && tagNames.includes((c as Element).nodeName.toLowerCase())
+  );
+}
+
+function tableRows(table: Element) {
+  // Only direct rows (optionally inside thead/tbody/tfoot) so nested tables don't leak their rows.
+  const rows: Element[] = [];
+  for (const child of childElements(table, ["thead", "tbody", "tfoot", "tr"])) {
+    if (child.nodeName.toLowerCase() === "tr") rows.push(child);
+    else rows.push(...childElements(child, ["tr"]));
+  }
+  return rows;
+}
+
+function cellToMarkdown(td: TurndownService, cell: Element) {
+  return td
+    .turndown(cell.innerHTML || "")
+    .replace(/\n+/g, "<br>")
+    .replaceAll("|", "\\|")
+    .trim();
+}
+
+function tableToMarkdown(td: TurndownService, table: Element) {
+  const rows = tableRows(table).map((tr) => {
+    const cells: string[] = [];
+    for (const cell of childElements(tr, ["td", "th"])) {
+      const text = cellToMarkdown(td, cell);
+      const span = Math.max(1, Number(cell.getAttribute("colspan") || 1) || 1);
+      cells.push(text);
+      for (let i = 1; i < span; i++) cells.push("");
+    }
+    return cells;
+  });
+  const nonEmpty = rows.filter((r) => r.length > 0);
+  if (nonEmpty.length === 0) return "";
+
+  const width = Math.max(...nonEmpty.map((r) => r.length));
+  const pad = (r: string[]) => [...r, ...Array<string>(width - r.length).fill("")];
+  const line = (r: string[]) => `| ${pad(r).join(" | ")} |`;
+
+  // GFM tables need a header row; DOCX tables rarely mark one, so treat the first row as the header.
+  const [header, ...body] = nonEmpty;
+  return [line(header), line(Array<string>(width).fill("---")), ...body.map(line)].join("\n");
+}
+
+function getService() {
+  if (service) return service;
+
+  const td = new TurndownService({
+    headingStyle: "atx",
+    bulletListMarker: "-",
+    codeBlockStyle: "fenced",
+    emDelimiter: "_",
+    strongDelimiter: "**",
+  });
+
+  td.remove(["script", "style", "noscript", "template"]);
+
+  td.addRule("table", {
+    filter: "table",
+    replacement: (_content, node) => `\n\n${tableToMarkdown(td, node as Element)}\n\n`,
+  });
+
+  // Converters drop embedded image bytes (they bloat prompts); keep alt text so the reader knows
+  // something was there.
+  td.addRule("imageWithoutSource", {
+    filter: (node) => node.nodeName === "IMG" && !(node.getAttribute("src") || "").trim(),
+    replacement: (_content, node) => {
+      const alt = ((node as Element).getAttribute("alt") || "").trim();
+      return alt ? `[Image: ${alt}]` : "";
+    },
+  });
+
+  service = td;
+  return td;
+}
+
+/**
+ * Converts an HTML fragment/document into GitHub-flavoured Markdown, keeping headings, nested lists,
+ * tables, links and emphasis.
+ */
+export function htmlToMarkdown(html: string) {
+  return getService()
+    .turndown(html || "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,87 @@
+import { Readability } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+import type { Logger } from "@/server/logger";
+import { htmlToMarkdown } from "@/server/converters/html-to-markdown";
+
+// Never part of the content.
+const NON_CONTENT_SELECTORS = ["script", "style", "noscript", "template", "iframe"];
+
+// Site chrome that exported intranet pages carry around the actual article.
+const BOILERPLATE_SELECTORS = [
+  "nav",
+  "footer",
+  "aside",
+  "form",
+  "body > header",
+  "[role='navigation']",
+  "[role='banner']",
+  "[role='contentinfo']",
+  "[role='search']",
+  "[aria-hidden='true']",
+];
+
+// Whole id/class tokens of chrome; "page-with-sidebar" or "shared-docs" must not match.
+const BOILERPLATE_TOKEN_RE =
+  /^(?:cookies?(?:[-_](?:banner|bar|notice|consent|popup))?|consent(?:[-_]banner)?|gdpr(?:[-_]banner)?|banner|breadcrumbs?|skip[-_]link|sidebar|site[-_]header|site[-_]footer|newsletter(?:[-_]signup)?|share(?:[-_](?:buttons|links))?|social[-_]share)$/i;
+
+const CONTENT_SELECTOR = "main, article, [role='main']";
+
+// Below this much article text, Readability probably latched onto the wrong block.
+const MIN_ARTICLE_CHARS = 200;
+
+function textLength(el: Element) {
+  return (el.textContent || "").replace(/\s+/g, "").length;
+}
+
+function removeBoilerplate(document: Document) {
+  for (const el of Array.from(document.querySelectorAll(NON_CONTENT_SELECTORS.join(",")))) el.remove();
+  const pageChars = document.body ? textLength(document.body) : 0;
+  // A theme may put chrome classes or a <form> around the whole page: keep anything that holds the
+  // main content or most of the page's text.
+  const isWrapper = (el: Element) =>
+    el.tagName === "BODY" ||
+    el.tagName === "HTML" ||
+    el.matches(CONTENT_SELECTOR) ||
+    !!el.querySelector(CONTENT_SELECTOR) ||
+    textLength(el) > pageChars / 2;
+  for (const el of Array.from(document.querySelectorAll(BOILERPLATE_SELECTORS.join(",")))) {
+    if (!isWrapper(el)) el.remove();
+  }
+  for (const el of Array.from(document.querySelectorAll("[id],[class]"))) {
+    if (!el.isConnected) continue;
+    const tokens = `${el.getAttribute("id") || ""} ${el.getAttribute("class") || ""}`.split(/\s+/);
+    if (tokens.some((t) => BOILERPLATE_TOKEN_RE.test(t)) && !isWrapper(el)) el.remove();
+  }
+}
+
+/**
+ * Converts an HTML page into Markdown of its main content: Readability picks the article, known
+ * chrome (nav, footers, cookie banners) is dropped, and headings/lists/tables/links are kept.
+ */
+export function htmlToMainMarkdown(html: string, log?: Logger) {
+  const cleanDocument = () => {
+    const { document } = parseHTML(html);
+    removeBoilerplate(document as unknown as Document);
+    return document;
+  };
+  const document = cleanDocument();
+  const pageTitle = (document.querySelector("title")?.textContent || "").trim();
+
+  // Readability mutates the DOM it is given, so run it on a separate parse.
+  const article = new Readability(cleanDocument() as unknown as Document, { keepClasses: false }).parse();
+
+  const fallbackRoot = document.querySelector("main, article, [role='main']") || document.body;
+
+  const useArticle = !!article?.content && (article.textContent || "").trim().length >= MIN_ARTICLE_CHARS;
+  const contentHtml = useArticle ? article!.content! : fallbackRoot?.innerHTML || "";
+  log?.debug("html: main content extracted", {
+    strategy: useArticle ? "readability" : "cleaned-body",
+    articleChars: (article?.textContent || "").length,
+  });
+
+  const title = (useArticle ? article?.title : "") || pageTitle;
+  const markdown = htmlToMarkdown(contentHtml);
+  // Prepend the page title unless the article already opens with a heading.
+  if (title && !/^#\s/.test(markdown)) return `# ${title}\n\n${markdown}`;
+  return markdown;
+}
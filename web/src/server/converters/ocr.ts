@@ -0,0 +1,198 @@
+import type { Worker as TesseractWorker } from "tesseract.js";
+import type { Logger } from "@/server/logger";
+import { errorToObject } from "@/server/logger";
+
+// Pages whose text layer has fewer characters than this are treated as scanned images.
+const MIN_TEXT_LAYER_CHARS = Number(process.env.OCR_MIN_TEXT_CHARS || 20);
+const OCR_LANGS = (process.env.OCR_LANGS || "eng")
+  .split(/[+,]/)
+  .map((s) => s.trim())
+  .filter(Boolean);
+
+export type OcrPageReport = {
+  /** 1-based page number (always 1 for standalone images). */
+  page: number;
+  /** Tesseract mean confidence, 0-100. */
+  confidence: number;
+  chars: number;
+};
+
+export type OcrReport = {
+  engine: "tesseract.js";
+  languages: string[];
+  pages: OcrPageReport[];
+};
+
+/**
+ * 1-based numbers of the PDF pages whose text layer is too sparse to be real content (typically
+ * scans). Exports often mix scanned pages into an otherwise digital document.
+ */
+export function scannedPdfPages(pageTexts: string[]) {
+  return pageTexts.flatMap((text, i) => (text.trim().length < MIN_TEXT_LAYER_CHARS ? [i + 1] : []));
+}
+
+async function createOcrWorker(log?: Logger): Promise<TesseractWorker> {
+  const { createWorker } = await import("tesseract.js");
+  // Language data must be on disk: OCR has to work without network access. The bundled English
+  // model is used unless OCR_LANG_PATH points at a folder with other `<lang>.traineddata.gz` files.
+  const langPath = process.env.OCR_LANG_PATH || (await import("@tesseract.js-data/eng")).default.langPath;
+  log?.info("ocr: starting worker", { languages: OCR_LANGS, langPath });
+  return await createWorker(OCR_LANGS, undefined, {
+    langPath,
+    gzip: true,
+    cacheMethod: "none",
+  });
+}
+
+async function recognize(worker: TesseractWorker, image: Buffer) {
+  const { data } = await worker.recognize(image);
+  return { text: (data.text || "").trim(), confidence: Math.round(data.confidence ?? 0) };
+}
+
+type PdfImage = { width: number; height: number; kind: number; data: Uint8Array | Uint8ClampedArray };
+
+/**
+ * Encodes decoded pdf.js pixel data as a binary PNM (PGM/PPM), which Tesseract reads natively,
+ * so we don't need a canvas or image encoder dependency.
+ */
+function pdfImageToPnm(img: PdfImage): Buffer | null {
+  const { width, height, kind, data } = img;
+  if (!width || !height || !data) return null;
+
+  if (kind === 1) {
+    // GRAYSCALE_1BPP: packed bits, rows padded to whole bytes.
+    const rowBytes = Math.ceil(width / 8);
+    const out = Buffer.alloc(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        out[y * width + x] = bit ? 255 : 0;
+      }
+    }
+    return Buffer.concat([Buffer.from(`P5\n${width} ${height}\n255\n`), out]);
+  }
+
+  const channels = kind === 3 ? 4 : kind === 2 ? 3 : 0;
+  if (!channels) return null;
+  const out = Buffer.alloc(width * height * 3);
+  for (let i = 0, o = 0; i < width * height; i++, o += 3) {
+    out[o] = data[i * channels];
+    out[o + 1] = data[i * channels + 1];
+    out[o + 2] = data[i * channels + 2];
+  }
+  return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), out]);
+}
+
+type PdfPage = {
+  getTextContent: () => Promise<{ items: Array<{ str?: string; hasEOL?: boolean }> }>;
+  getOperatorList: () => Promise<{ fnArray: number[]; argsArray: unknown[][] }>;
+  objs: { get: (name: string, cb?: (v: unknown) => void) => unknown };
+  commonObjs: { get: (name: string, cb?: (v: unknown) => void) => unknown };
+};
+
+async function getPageObject(page: PdfPage, name: string) {
+  const store = name.startsWith("g_") ? page.commonObjs : page.objs;
+  return await new Promise<unknown>((resolve) => {
+    try {
+      store.get(name, resolve);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+/**
+ * Scanned pages are usually one full-page image; pick the largest image painted on the page.
+ */
+async function largestPageImage(page: PdfPage, ops: { ImageKind?: unknown; OPS: Record<string, number> }) {
+  const list = await page.getOperatorList();
+  let best: PdfImage | null = null;
+  for (let i = 0; i < list.fnArray.length; i++) {
+    const fn = list.fnArray[i];
+    let img: PdfImage | null = null;
+    if (fn === ops.OPS.paintImageXObject || fn === ops.OPS.paintImageXObjectRepeat) {
+      const name = list.argsArray[i]?.[0];
+      if (typeof name === "string") img = (await getPageObject(page, name)) as PdfImage | null;
+    } else if (fn === ops.OPS.paintInlineImageXObject) {
+      img = (list.argsArray[i]?.[0] as PdfImage) ?? null;
+    }
+    if (img?.data && (!best || img.width * img.height > best.width * best.height)) best = img;
+  }
+  return best;
+}
+
+/**
+ * Extracts PDF text page by page, running OCR on pages that have no usable text layer.
+ * Returns Markdown with one section per page plus a report of which pages were OCR'd.
+ */
+export async function pdfToMarkdownWithOcr(buf: Buffer, log?: Logger) {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(buf),
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: 0,
+  }).promise;
+
+  const report: OcrReport = { engine: "tesseract.js", languages: OCR_LANGS, pages: [] };
+  const sections: string[] = [];
+  let worker: TesseractWorker | null = null;
+
+  try {
+    for (let n = 1; n <= doc.numPages; n++) {
+      const page = (await doc.getPage(n)) as unknown as PdfPage;
+      const content = await page.getTextContent();
+      const layerText = content.items
+        .map((it) => `${it.str ?? ""}${it.hasEOL ? "\n" : ""}`)
+        .join("")
+        .trim();
+
+      if (layerText.length >= MIN_TEXT_LAYER_CHARS) {
+        sections.push(layerText);
+        continue;
+      }
+
+      const img = await largestPageImage(page, pdfjs);
+      const pnm = img ? pdfImageToPnm(img) : null;
+      if (!pnm) {
+        if (layerText) sections.push(layerText);
+        log?.debug("ocr: page has no text layer and no decodable image", { page: n });
+        continue;
+      }
+
+      worker ??= await createOcrWorker(log);
+      try {
+        const { text, confidence } = await recognize(worker, pnm);
+        report.pages.push({ page: n, confidence, chars: text.length });
+        log?.info("ocr: page recognized", { page: n, confidence, chars: text.length });
+        if (text) sections.push(text);
+      } catch (e) {
+        log?.warn("ocr: page recognition failed", { page: n, error: errorToObject(e) });
+      }
+    }
+  } finally {
+    await worker?.terminate().catch(() => undefined);
+    await doc.destroy().catch(() => undefined);
+  }
+
+  return { markdown: sections.join("\n\n"), ocr: report };
+}
+
+/**
+ * OCRs a standalone image file (PNG/JPEG/TIFF/BMP/WebP).
+ */
+export async function imageToMarkdownWithOcr(buf: Buffer, log?: Logger) {
+  const worker = await createOcrWorker(log);
+  try {
+    const { text, confidence } = await recognize(worker, buf);
+    log?.info("ocr: image recognized", { confidence, chars: text.length });
+    const report: OcrReport = {
+      engine: "tesseract.js",
+      languages: OCR_LANGS,
+      pages: [{ page: 1, confidence, chars: text.length }],
+    };
+    return { markdown: text, ocr: report };
+  } finally {
+    await worker.terminate().catch(() => undefined);
+  }
+}
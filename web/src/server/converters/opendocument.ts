@@ -0,0 +1,373 @@
+import type { Logger } from "@/server/logger";
+import { htmlToMarkdown } from "@/server/converters/html-to-markdown";
+import { childElements, descendants, firstChild, loadZip, readZipXml } from "@/server/converters/zip-xml";
+
+type TextStyle = { parent: string | null; bold: boolean | null; italic: boolean | null };
+
+/**
+ * Style lookups needed to recover structure: inline emphasis, paragraph roles (title, quote, code)
+ * and whether each list level is numbered. Automatic styles in content.xml shadow styles.xml.
+ */
+type Styles = {
+  text: Map<string, TextStyle>;
+  lists: Map<string, Map<number, boolean>>;
+};
+
+// Paragraph styles (by internal name, i.e. spaces encoded as `_20_`) that carry structure on their own.
+const PARAGRAPH_ROLES: Array<[RegExp, string]> = [
+  [/^Title$/, "h1"],
+  [/^Subtitle$/, "h2"],
+  [/^Heading_20_([1-6])$/, "h"],
+  [/^Quotations$/, "blockquote"],
+  [/^Preformatted_20_Text$/, "pre"],
+];
+// Generated content that duplicates the document body (tables of contents, indexes).
+const SKIPPED_BLOCKS = new Set([
+  "text:table-of-content",
+  "text:alphabetical-index",
+  "text:illustration-index",
+  "text:table-index",
+  "text:object-index",
+  "text:user-index",
+  "text:bibliography",
+  "text:sequence-decls",
+  "text:variable-decls",
+  "text:user-field-decls",
+  "office:forms",
+]);
+// Presentation frames that repeat on every slide and carry no content.
+const SKIPPED_PRESENTATION_CLASSES = new Set(["page-number", "footer", "header", "date-time", "handout"]);
+
+function escapeHtml(s: string) {
+  return s.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;");
+}
+
+function collectStyles(docs: Array<Document | null>): Styles {
+  const styles: Styles = { text: new Map(), lists: new Map() };
+  for (const doc of docs) {
+    if (!doc) continue;
+    for (const s of descendants(doc, "style:style")) {
+      const name = s.getAttribute("style:name");
+      if (!name) continue;
+      const props = firstChild(s, "style:text-properties");
+      const weight = props?.getAttribute("fo:font-weight");
+      const fontStyle = props?.getAttribute("fo:font-style");
+      styles.text.set(name, {
+        parent: s.getAttribute("style:parent-style-name"),
+        bold: weight ? weight === "bold" || Number(weight) >= 600 : null,
+        italic: fontStyle ? fontStyle === "italic" || fontStyle === "oblique" : null,
+      });
+    }
+    for (const ls of descendants(doc, "text:list-style")) {
+      const name = ls.getAttribute("style:name");
+      if (!name) continue;
+      const levels = new Map<number, boolean>();
+      for (const lvl of childElements(ls)) {
+        const level = Number(lvl.getAttribute("text:level") || 1);
+        levels.set(level, lvl.nodeName === "text:list-level-style-number");
+      }
+      styles.lists.set(name, levels);
+    }
+  }
+  return styles;
+}
+
+function styleFlag(styles: Styles, name: string | null, key: "bold" | "italic") {
+  for (let depth = 0; name && depth < 20; depth++) {
+    const s = styles.text.get(name);
+    if (!s) return false;
+    if (s[key] !== null) return s[key];
+    name = s.parent;
+  }
+  return false;
+}
+
+function paragraphRole(styles: Styles, name: string | null) {
+  for (let depth = 0; name && depth < 20; depth++) {
+    for (const [re, role] of PARAGRAPH_ROLES) {
+      const m = name.match(re);
+      if (m) return role === "h" ? `h${m[1]}` : role;
+    }
+    name = styles.text.get(name)?.parent ?? null;
+  }
+  return "p";
+}
+
+function frameImageAlt(frame: Element) {
+  const title = firstChild(frame, "svg:title")?.textContent?.trim();
+  const desc = firstChild(frame, "svg:desc")?.textContent?.trim();
+  return desc || title || frame.getAttribute("draw:name") || "";
+}
+
+function inlineHtml(node: Node, styles: Styles): string {
+  let out = "";
+  for (let c = node.firstChild; c; c = c.nextSibling) {
+    if (c.nodeType === 3) {
+      out += escapeHtml(c.nodeValue || "");
+      continue;
+    }
+    if (c.nodeType !== 1) continue;
+    const el = c as Element;
+    switch (el.nodeName) {
+      case "text:s":
+        out += " ".repeat(Math.max(1, Math.min(100, Number(el.getAttribute("text:c") || 1) || 1)));
+        break;
+      case "text:tab":
+        out += " ";
+        break;
+      case "text:line-break":
+        out += "<br>";
+        break;
+      case "text:span": {
+        let inner = inlineHtml(el, styles);
+        const styleName = el.getAttribute("text:style-name");
+        if (inner.trim() && styleFlag(styles, styleName, "bold")) inner = `<strong>${inner}</strong>`;
+        if (inner.trim() && styleFlag(styles, styleName, "italic")) inner = `<em>${inner}</em>`;
+        out += inner;
+        break;
+      }
+      case "text:a": {
+        const href = el.getAttribute("xlink:href") || "";
+        const inner = inlineHtml(el, styles);
+        out += href && !href.startsWith("#") ? `<a href="${escapeHtml(href)}">${inner}</a>` : inner;
+        break;
+      }
+      case "text:note": {
+        // Footnotes/endnotes stay next to the text they annotate.
+        const body = firstChild(el, "text:note-body");
+        const text = body ? blockInlineText(body, styles) : "";
+        if (text) out += ` (${text})`;
+        break;
+      }
+      case "draw:frame": {
+        const textBox = firstChild(el, "draw:text-box");
+        if (textBox) {
+          out += blockInlineText(textBox, styles);
+        } else if (firstChild(el, "draw:image")) {
+          out += `<img src="" alt="${escapeHtml(frameImageAlt(el))}">`;
+        }
+        break;
+      }
+      case "office:annotation":
+      case "office:annotation-end":
+      case "text:soft-page-break":
+      case "text:bookmark":
+      case "text:bookmark-start":
+      case "text:bookmark-end":
+        break;
+      default:
+        out += inlineHtml(el, styles);
+    }
+  }
+  return out;
+}
+
+/** Flattens a block container (table cell, note, text box) to one line of inline HTML. */
+function blockInlineText(container: Element, styles: Styles): string {
+  const parts: string[] = [];
+  for (const el of childElements(container)) {
+    if (el.nodeName === "text:p" || el.nodeName === "text:h") parts.push(inlineHtml(el, styles).trim());
+    else if (el.nodeName === "text:list") {
+      for (const item of childElements(el)) parts.push(blockInlineText(item, styles));
+    } else if (el.nodeName === "text:section") parts.push(blockInlineText(el, styles));
+  }
+  return parts.filter(Boolean).join("<br>");
+}
+
+function listHtml(list: Element, styles: Styles, inheritedStyle: string | null, level: number): string {
+  const styleName = list.getAttribute("text:style-name") || inheritedStyle;
+  const ordered = (styleName && styles.lists.get(styleName)?.get(level)) || false;
+  const items: string[] = [];
+  for (const item of childElements(list)) {
+    if (item.nodeName !== "text:list-item" && item.nodeName !== "text:list-header") continue;
+    // Paragraphs inside an item are kept inline so the Markdown list stays tight.
+    const text: string[] = [];
+    const nested: string[] = [];
+    for (const child of childElements(item)) {
+      if (child.nodeName === "text:list") nested.push(listHtml(child, styles, styleName, level + 1));
+      else if (child.nodeName === "text:p" || child.nodeName === "text:h") {
+        const inner = inlineHtml(child, styles).trim();
+        if (inner) text.push(inner);
+      }
+    }
+    if (text.length || nested.length) items.push(`<li>${text.join("<br>")}${nested.join("")}</li>`);
+  }
+  if (!items.length) return "";
+  const tag = ordered ? "ol" : "ul";
+  return `<${tag}>${items.join("")}</${tag}>`;
+}
+
+function tableRows(node: Element): Element[] {
+  const rows: Element[] = [];
+  for (const child of childElements(node)) {
+    if (child.nodeName === "table:table-row") rows.push(child);
+    else if (
+      child.nodeName === "table:table-header-rows" ||
+      child.nodeName === "table:table-rows" ||
+      child.nodeName === "table:table-row-group"
+    ) {
+      rows.push(...tableRows(child));
+    }
+  }
+  return rows;
+}
+
+function tableHtml(table: Element, styles: Styles) {
+  const rows: string[] = [];
+  for (const tr of tableRows(table)) {
+    const cells: string[] = [];
+    for (const cell of childElements(tr)) {
+      // Cells hidden by a merge are represented by the spanning cell's colspan.
+      if (cell.nodeName !== "table:table-cell") continue;
+      const text = blockInlineText(cell, styles);
+      const span = Number(cell.getAttribute("table:number-columns-spanned") || 1) || 1;
+      // Editors pad rows with huge runs of repeated empty cells; only repeat cells that have content.
+      const repeat = text ? Math.min(50, Number(cell.getAttribute("table:number-columns-repeated") || 1) || 1) : 1;
+      for (let i = 0; i < repeat; i++) cells.push(`<td${span > 1 ? ` colspan="${span}"` : ""}>${text}</td>`);
+    }
+    while (cells.length && /^<td[^>]*><\/td>$/.test(cells.at(-1)!)) cells.pop();
+    if (cells.length) rows.push(`<tr>${cells.join("")}</tr>`);
+  }
+  return rows.length ? `<table>${rows.join("")}</table>` : "";
+}
+
+function blocksHtml(container: Element, styles: Styles): string {
+  const out: string[] = [];
+  for (const el of childElements(container)) {
+    if (SKIPPED_BLOCKS.has(el.nodeName)) continue;
+    switch (el.nodeName) {
+      case "text:h": {
+        const level = Math.max(1, Math.min(6, Number(el.getAttribute("text:outline-level") || 1) || 1));
+        const inner = inlineHtml(el, styles).trim();
+        if (inner) out.push(`<h${level}>${inner}</h${level}>`);
+        break;
+      }
+      case "text:p": {
+        const inner = inlineHtml(el, styles).trim();
+        if (!inner) break;
+        const role = paragraphRole(styles, el.getAttribute("text:style-name"));
+        if (role === "blockquote") out.push(`<blockquote><p>${inner}</p></blockquote>`);
+        else if (role === "pre") out.push(`<pre><code>${inner.replaceAll("<br>", "\n")}</code></pre>`);
+        else out.push(`<${role}>${inner}</${role}>`);
+        break;
+      }
+      case "text:list":
+        out.push(listHtml(el, styles, null, 1));
+        break;
+      case "table:table":
+        out.push(tableHtml(el, styles));
+        break;
+      case "draw:frame": {
+        const textBox = firstChild(el, "draw:text-box");
+        if (textBox) out.push(blocksHtml(textBox, styles));
+        else if (firstChild(el, "draw:image")) out.push(`<p><img src="" alt="${escapeHtml(frameImageAlt(el))}"></p>`);
+        else {
+          const table = firstChild(el, "table:table");
+          if (table) out.push(tableHtml(table, styles));
+        }
+        break;
+      }
+      default:
+        // Sections, custom shapes, groups and other wrappers: recurse into their content.
+        out.push(blocksHtml(el, styles));
+    }
+  }
+  return out.filter(Boolean).join("\n");
+}
+
+async function loadOpenDocument(buf: Buffer, kind: string) {
+  const zip = await loadZip(buf);
+  const content = await readZipXml(zip, "content.xml");
+  if (!content) throw new Error(`${kind}: missing content.xml`);
+  const styles = collectStyles([await readZipXml(zip, "styles.xml"), content]);
+  const body = firstChild(content.documentElement, "office:body");
+  return { body, styles };
+}
+
+/**
+ * Converts an OpenDocument text file (.odt) into Markdown with headings, nested lists, tables,
+ * links and emphasis preserved.
+ */
+export async function odtToMarkdown(buf: Buffer, log?: Logger): Promise<string> {
+  const { body, styles } = await loadOpenDocument(buf, "odt");
+  const text = firstChild(body, "office:text");
+  if (!text) throw new Error("odt: missing office:text body");
+  const html = blocksHtml(text, styles);
+  log?.debug("odt: converted document", { htmlChars: html.length, styleCount: styles.text.size });
+  return htmlToMarkdown(html);
+}
+
+function frameText(frame: Element, styles: Styles) {
+  return blockInlineText(firstChild(frame, "draw:text-box") || frame, styles)
+    .replace(/<br>/g, " ")
+    .replace(/<[^>]+>/g, "")
+    .trim();
+}
+
+function slideBlocksHtml(container: Element, styles: Styles, out: { title: string | null; blocks: string[] }) {
+  for (const shape of childElements(container)) {
+    const cls = shape.getAttribute("presentation:class");
+    if (cls && SKIPPED_PRESENTATION_CLASSES.has(cls)) continue;
+    if (shape.nodeName === "draw:g") {
+      slideBlocksHtml(shape, styles, out);
+      continue;
+    }
+    if (shape.nodeName === "presentation:notes" || shape.nodeName === "office:forms") continue;
+    if (cls === "title" && !out.title) {
+      const title = frameText(shape, styles);
+      if (title) {
+        out.title = title;
+        continue;
+      }
+    }
+    const blockHtml =
+      shape.nodeName === "draw:frame" ? frameBlocksHtml(shape, styles) : blocksHtml(shape, styles);
+    if (blockHtml) out.blocks.push(blockHtml);
+  }
+}
+
+function frameBlocksHtml(frame: Element, styles: Styles) {
+  const textBox = firstChild(frame, "draw:text-box");
+  if (textBox) return blocksHtml(textBox, styles);
+  const table = firstChild(frame, "table:table");
+  if (table) return tableHtml(table, styles);
+  if (firstChild(frame, "draw:image")) {
+    const alt = frameImageAlt(frame);
+    return alt ? `<p><img src="" alt="${escapeHtml(alt)}"></p>` : "";
+  }
+  return "";
+}
+
+/**
+ * Converts an OpenDocument presentation (.odp) the same way as PPTX: one `##` section per slide,
+ * bullets and tables preserved, speaker notes quoted underneath.
+ */
+export async function odpToMarkdown(buf: Buffer, log?: Logger): Promise<string> {
+  const { body, styles } = await loadOpenDocument(buf, "odp");
+  const presentation = firstChild(body, "office:presentation");
+  if (!presentation) throw new Error("odp: missing office:presentation body");
+  const pages = childElements(presentation, "draw:page");
+  const sections: string[] = [];
+
+  for (const [i, page] of pages.entries()) {
+    const out = { title: null as string | null, blocks: [] as string[] };
+    slideBlocksHtml(page, styles, out);
+
+    const notes = childElements(firstChild(page, "presentation:notes"), "draw:frame")
+      .filter((f) => f.getAttribute("presentation:class") === "notes")
+      .map((f) => htmlToMarkdown(frameBlocksHtml(f, styles)))
+      .join("\n")
+      .split("\n")
+      .filter((l) => l.trim())
+      .join("\n");
+
+    const parts = [`## ${out.title || `Slide ${i + 1}`}`, ...out.blocks.map(htmlToMarkdown).filter(Boolean)];
+    if (notes) {
+      parts.push(["> **Speaker notes:**", ...notes.split("\n").map((l) => `> ${l}`)].join("\n>\n"));
+    }
+    sections.push(parts.join("\n\n"));
+  }
+
+  log?.debug("odp: converted slides", { slideCount: pages.length });
+  return sections.join("\n\n");
+}
@@ -0,0 +1,221 @@
+import type JSZip from "jszip";
+import type { Logger } from "@/server/logger";
+import {
+  childElements,
+  descendants,
+  firstChild,
+  loadZip,
+  readRelationships,
+  readZipXml,
+} from "@/server/converters/zip-xml";
+
+type Rels = Awaited<ReturnType<typeof readRelationships>>;
+
+const TITLE_PLACEHOLDERS = new Set(["title", "ctrTitle"]);
+// Layout chrome that repeats on every slide and carries no content.
+const SKIPPED_PLACEHOLDERS = new Set(["sldNum", "dt", "ftr", "hdr", "sldImg"]);
+
+function placeholderOf(sp: Element) {
+  const nvPr = firstChild(firstChild(sp, "p:nvSpPr"), "p:nvPr");
+  const ph = firstChild(nvPr, "p:ph");
+  if (!ph) return null;
+  // A placeholder without an explicit type is the generic content ("obj") placeholder.
+  return ph.getAttribute("type") || "obj";
+}
+
+function wrapTrimmed(text: string, wrap: (inner: string) => string) {
+  // Keep surrounding whitespace outside the markers so "**bold** text" stays valid Markdown.
+  const m = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!m || !m[2]) return text;
+  return `${m[1]}${wrap(m[2])}${m[3]}`;
+}
+
+function runsToMarkdown(paragraph: Element, rels: Rels) {
+  // PowerPoint splits text into runs wherever it was edited, so runs with the same formatting are
+  // joined before wrapping: "**Hel****lo**" is not bold in Markdown.
+  const pieces: Array<{ text: string; bold: boolean; link?: string; br?: boolean }> = [];
+  for (const child of childElements(paragraph)) {
+    if (child.nodeName === "a:br") {
+      pieces.push({ text: "<br>", bold: false, br: true });
+      continue;
+    }
+    if (child.nodeName !== "a:r" && child.nodeName !== "a:fld") continue;
+
+    const text = descendants(child, "a:t")
+      .map((t) => t.textContent || "")
+      .join("");
+    if (!text) continue;
+
+    const rPr = firstChild(child, "a:rPr");
+    const bold = rPr?.getAttribute("b") === "1";
+    const linkId = firstChild(rPr, "a:hlinkClick")?.getAttribute("r:id");
+    const rel = linkId ? rels.get(linkId) : undefined;
+    const link = rel?.external ? rel.target : undefined;
+    const prev = pieces.at(-1);
+    if (prev && !prev.br && prev.bold === bold && prev.link === link) prev.text += text;
+    else pieces.push({ text, bold, link });
+  }
+  const out = pieces
+    .map(({ text, bold, link, br }) => {
+      if (br) return text;
+      let piece = text;
+      if (bold) piece = wrapTrimmed(piece, (t) => `**${t}**`);
+      if (link) piece = wrapTrimmed(piece, (t) => `[${t}](${link})`);
+      return piece;
+    })
+    .join("");
+  return out.replace(/\s+(<br>)/g, "$1").replace(/[ \t]+/g, " ").trim();
+}
+
+function paragraphLines(txBody: Element | null, rels: Rels, bulletsByDefault: boolean) {
+  const lines: string[] = [];
+  // Column where the text of each open list level starts. Nested items are indented to their parent's
+  // text, so by 3 spaces under "1. " but 2 under "- "; less would end a numbered list in Markdown.
+  const textColumns: number[] = [];
+  for (const p of childElements(txBody, "a:p")) {
+    const text = runsToMarkdown(p, rels);
+    if (!text) continue;
+
+    const pPr = firstChild(p, "a:pPr");
+    const level = Math.max(0, Math.min(8, Number(pPr?.getAttribute("lvl") || 0) || 0));
+    const numbered = !!firstChild(pPr, "a:buAutoNum");
+    const bulleted =
+      !firstChild(pPr, "a:buNone") && (numbered || !!firstChild(pPr, "a:buChar") || bulletsByDefault);
+
+    if (bulleted) {
+      // A level without a parent item above it nests one step below the deepest open one.
+      const depth = Math.min(level, textColumns.length);
+      const indent = depth ? textColumns[depth - 1] : 0;
+      const marker = numbered ? "1." : "-";
+      textColumns.length = depth;
+      textColumns.push(indent + marker.length + 1);
+      lines.push(`${" ".repeat(indent)}${marker} ${text}`);
+    } else {
+      textColumns.length = 0;
+      lines.push(`\n${text}\n`);
+    }
+  }
+  return lines;
+}
+
+function tableToMarkdown(tbl: Element, rels: Rels) {
+  const rows = childElements(tbl, "a:tr").map((tr) =>
+    childElements(tr, "a:tc")
+      // Cells covered by a merge are emitted as empty so columns stay aligned.
+      .map((tc) =>
+        tc.getAttribute("hMerge") === "1" || tc.getAttribute("vMerge") === "1"
+          ? ""
+          : childElements(firstChild(tc, "a:txBody"), "a:p")
+              .map((p) => runsToMarkdown(p, rels))
+              .filter(Boolean)
+              .join("<br>")
+              .replaceAll("|", "\\|")
+      )
+  );
+  if (rows.length === 0) return "";
+  const width = Math.max(...rows.map((r) => r.length));
+  const line = (r: string[]) => `| ${[...r, ...Array<string>(width - r.length).fill("")].join(" | ")} |`;
+  return [line(rows[0]), line(Array<string>(width).fill("---")), ...rows.slice(1).map(line)].join("\n");
+}
+
+function shapeTreeToMarkdown(tree: Element | null, rels: Rels, out: { title: string | null; blocks: string[] }) {
+  for (const shape of childElements(tree)) {
+    switch (shape.nodeName) {
+      case "p:grpSp":
+        shapeTreeToMarkdown(shape, rels, out);
+        break;
+      case "p:sp": {
+        const ph = placeholderOf(shape);
+        if (ph && SKIPPED_PLACEHOLDERS.has(ph)) break;
+        const txBody = firstChild(shape, "p:txBody");
+        if (ph && TITLE_PLACEHOLDERS.has(ph) && !out.title) {
+          const title = childElements(txBody, "a:p")
+            .map((p) => runsToMarkdown(p, rels).replace(/\*\*/g, ""))
+            .filter(Boolean)
+            .join(" ")
+            .replace(/<br>/g, " ");
+          if (title) {
+            out.title = title;
+            break;
+          }
+        }
+        // Body/content placeholders render bullets unless told otherwise; free text boxes don't.
+        const bulletsByDefault = ph === "body" || ph === "obj";
+        const lines = paragraphLines(txBody, rels, bulletsByDefault);
+        if (lines.length) out.blocks.push(lines.join("\n").replace(/\n{3,}/g, "\n\n").trim());
+        break;
+      }
+      case "p:graphicFrame":
+        for (const tbl of descendants(shape, "a:tbl")) {
+          const md = tableToMarkdown(tbl, rels);
+          if (md) out.blocks.push(md);
+        }
+        break;
+      case "p:pic": {
+        const descr = firstChild(firstChild(shape, "p:nvPicPr"), "p:cNvPr")?.getAttribute("descr")?.trim();
+        if (descr) out.blocks.push(`[Image: ${descr}]`);
+        break;
+      }
+    }
+  }
+}
+
+async function notesToMarkdown(zip: JSZip, notesPath: string) {
+  const doc = await readZipXml(zip, notesPath);
+  if (!doc) return "";
+  const rels = await readRelationships(zip, notesPath);
+  const blocks: string[] = [];
+  for (const sp of descendants(doc, "p:sp")) {
+    if (placeholderOf(sp) !== "body") continue;
+    for (const p of childElements(firstChild(sp, "p:txBody"), "a:p")) {
+      const text = runsToMarkdown(p, rels);
+      if (text) blocks.push(text);
+    }
+  }
+  return blocks.join("\n");
+}
+
+async function slidePathsInOrder(zip: JSZip) {
+  const presentationPath = "ppt/presentation.xml";
+  const doc = await readZipXml(zip, presentationPath);
+  if (!doc) throw new Error("pptx: missing ppt/presentation.xml");
+  const rels = await readRelationships(zip, presentationPath);
+  return descendants(firstChild(doc.documentElement, "p:sldIdLst"), "p:sldId")
+    .map((s) => rels.get(s.getAttribute("r:id") || "")?.target)
+    .filter((t): t is string => !!t);
+}
+
+/**
+ * Converts a PowerPoint deck into Markdown: one `##` section per slide (titled by the slide's title
+ * placeholder), bullet hierarchy preserved via indentation, and speaker notes quoted underneath.
+ */
+export async function pptxToMarkdown(buf: Buffer, log?: Logger): Promise<string> {
+  const zip = await loadZip(buf);
+  const slidePaths = await slidePathsInOrder(zip);
+  const sections: string[] = [];
+
+  for (const [i, slidePath] of slidePaths.entries()) {
+    const doc = await readZipXml(zip, slidePath);
+    if (!doc) {
+      log?.warn("pptx: slide part missing", { slidePath });
+      continue;
+    }
+    const rels = await readRelationships(zip, slidePath);
+    const out = { title: null as string | null, blocks: [] as string[] };
+    shapeTreeToMarkdown(descendants(doc, "p:spTree")[0] ?? null, rels, out);
+
+    const notesRel = Array.from(rels.values()).find((r) => r.type.endsWith("/notesSlide"));
+    const notes = notesRel ? await notesToMarkdown(zip, notesRel.target) : "";
+
+    const parts = [`## ${out.title || `Slide ${i + 1}`}`, ...out.blocks];
+    if (notes) {
+      parts.push(
+        ["> **Speaker notes:**", ...notes.split("\n").map((l) => `> ${l}`)].join("\n>\n")
+      );
+    }
+    sections.push(parts.join("\n\n"));
+  }
+
+  log?.debug("pptx: converted slides", { slideCount: slidePaths.length });
+  return sections.join("\n\n");
+}
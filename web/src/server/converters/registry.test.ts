@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import JSZip from "jszip";
+import { registerConverter, selectConverter } from "@/server/converters/registry";
+import { CONTENT_TYPES } from "@/server/converters/sniff";
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const DOCX_MAIN = "application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml";
+
+async function minimalDocx(text: string) {
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Override PartName="/word/document.xml" ContentType="${DOCX_MAIN}"/></Types>`
+  );
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Target="word/document.xml" ` +
+      `Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument"/></Relationships>`
+  );
+  zip.file(
+    "word/document.xml",
+    `<?xml version="1.0"?><w:document ${W}><w:body><w:p><w:r><w:t>${text}</w:t></w:r></w:p></w:body></w:document>`
+  );
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+async function minimalOdt(text: string) {
+  const zip = new JSZip();
+  zip.file("mimetype", CONTENT_TYPES.odt, { compression: "STORE" });
+  zip.file(
+    "content.xml",
+    `<?xml version="1.0"?><office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" ` +
+      `xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"><office:body><office:text>` +
+      `<text:p>${text}</text:p></office:text></office:body></office:document-content>`
+  );
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+async function convert(fileName: string, buf: Buffer) {
+  const { converter, contentType } = selectConverter(fileName, buf);
+  return converter.convert({ buf, fileName, ext: path.extname(fileName).toLowerCase(), contentType });
+}
+
+test("picks converters by extension when the content agrees", async () => {
+  const docx = await minimalDocx("Hello");
+  assert.equal(selectConverter("guide.docx", docx).converter.name, "docx");
+  assert.equal(selectConverter("guide.docx", docx).matchedBy, "extension");
+  assert.equal(selectConverter("notes.md", Buffer.from("# Notes")).converter.name, "text");
+  assert.equal(selectConverter("sheet.csv", Buffer.from("a,b\n1,2\n")).converter.name, "delimited");
+});
+
+test("reads a .docx saved as .txt as a Word document", async () => {
+  const docx = await minimalDocx("Renamed but still Word");
+  const selection = selectConverter("handbook.txt", docx);
+  assert.equal(selection.converter.name, "docx");
+  assert.equal(selection.matchedBy, "content");
+  assert.equal(selection.contentType, CONTENT_TYPES.docx);
+  assert.match((await convert("handbook.txt", docx)).markdown, /Renamed but still Word/);
+});
+
+test("reads OpenDocument containers whatever their extension", async () => {
+  const odt = await minimalOdt("Written in Writer");
+  for (const fileName of ["minutes.zip", "minutes", "minutes.docx"]) {
+    const selection = selectConverter(fileName, odt);
+    assert.equal(selection.converter.name, "odt", fileName);
+    assert.equal(selection.contentType, CONTENT_TYPES.odt, fileName);
+  }
+  assert.match((await convert("minutes.zip", odt)).markdown, /Written in Writer/);
+});
+
+test("reads a PDF without a .pdf extension as a PDF", () => {
+  const pdf = Buffer.from("%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\n");
+  for (const fileName of ["scan", "scan.txt", "scan.dat"]) {
+    const selection = selectConverter(fileName, pdf);
+    assert.equal(selection.converter.name, "pdf", fileName);
+    assert.equal(selection.matchedBy, "content", fileName);
+  }
+});
+
+test("falls back to plain text for unknown files", async () => {
+  const unknown = Buffer.from([0x00, 0x13, 0x37, 0xde, 0xad, 0xbe, 0xef, 0x42, 0x0a]);
+  for (const fileName of ["blob.bin", "blob"]) {
+    const selection = selectConverter(fileName, unknown);
+    assert.equal(selection.converter.name, "text", fileName);
+    assert.equal(selection.matchedBy, "fallback", fileName);
+    assert.equal(selection.contentType, null, fileName);
+  }
+  const result = await convert("blob.bin", unknown);
+  assert.equal(typeof result.markdown, "string");
+});
+
+test("reports binary content no converter handles instead of guessing one", () => {
+  // A gzip renamed to .txt: the extension's converter is kept, with the sniffed type, so the
+  // pipeline can refuse to decode it as text.
+  const selection = selectConverter("notes.txt", Buffer.from([0x1f, 0x8b, 0x08, 0x00, 0x00]));
+  assert.equal(selection.converter.name, "text");
+  assert.equal(selection.matchedBy, "extension");
+  assert.equal(selection.contentType, CONTENT_TYPES.gzip);
+});
+
+test("registered converters win over built-ins", () => {
+  registerConverter({
+    name: "custom-pdf",
+    extensions: [".pdf"],
+    contentTypes: [CONTENT_TYPES.pdf],
+    binary: true,
+    convert: () => ({ markdown: "custom" }),
+  });
+  const pdf = Buffer.from("%PDF-1.4\n");
+  assert.equal(selectConverter("report.pdf", pdf).converter.name, "custom-pdf");
+  assert.equal(selectConverter("report.txt", pdf).converter.name, "custom-pdf");
+});
@@ -0,0 +1,92 @@
+import path from "node:path";
+import type { Logger } from "@/server/logger";
+import type { EmailAttachment } from "@/server/converters/email";
+import type { OcrReport } from "@/server/converters/ocr";
+import type { DetectedEncoding } from "@/server/converters/text-encoding";
+import { sniffContentType } from "@/server/converters/sniff";
+import { BUILTIN_CONVERTERS, textConverter } from "@/server/converters/builtin";
+
+export type MarkdownResult = {
+  markdown: string;
+  /** Present when some or all of the text came from local OCR. */
+  ocr?: OcrReport;
+  /** Embedded files (e.g. email attachments) that should be converted as their own sources. */
+  attachments?: EmailAttachment[];
+  /** Detected character encoding for text-like inputs decoded locally. */
+  encoding?: DetectedEncoding;
+  /** Name of the converter that produced the Markdown ("ingestion" for the Trelent API). */
+  converter?: string;
+  /** Set when the result was reused from the content-hash cache instead of converted again. */
+  cached?: boolean;
+};
+
+export type ConverterInput = {
+  buf: Buffer;
+  fileName: string;
+  /** Lower-cased extension including the dot (may be empty or wrong for mislabelled files). */
+  ext: string;
+  /** Content type sniffed from the bytes, or null for plain text / unrecognised content. */
+  contentType: string | null;
+  log?: Logger;
+};
+
+export type Converter = {
+  /** Short id recorded in logs and the manifest, e.g. "pdf". */
+  name: string;
+  /** Lower-cased extensions including the dot. */
+  extensions: string[];
+  /** Sniffed content types (see `sniffContentType`) handled regardless of the file's extension. */
+  contentTypes?: string[];
+  /** Bump when the converter's output changes so cached Markdown from older versions is ignored. */
+  version?: number;
+  /** Output depends on the file name, not just its bytes and extension, so the name is part of the cache key. */
+  usesFileName?: boolean;
+  /** Higher wins when several converters match; built-ins use 0. */
+  priority?: number;
+  /** Raw bytes are never meaningful text, so a failure fails the file instead of decoding as text. */
+  binary?: boolean;
+  /** Converted locally even when the ingestion API is configured (e.g. it can't return attachments). */
+  localOnly?: boolean;
+  convert: (input: ConverterInput) => Promise<MarkdownResult> | MarkdownResult;
+};
+
+export type ConverterSelection = {
+  converter: Converter;
+  contentType: string | null;
+  matchedBy: "extension" | "content" | "fallback";
+};
+
+const registered: Converter[] = [];
+
+/**
+ * Adds a converter. Registered converters win over built-ins of the same priority, so a deployment
+ * can replace e.g. the PDF converter by registering one for `.pdf` / `application/pdf`.
+ */
+export function registerConverter(converter: Converter) {
+  registered.push(converter);
+}
+
+function candidates() {
+  // Stable sort keeps registered converters ahead of built-ins with the same priority.
+  return [...registered, ...BUILTIN_CONVERTERS].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+/**
+ * Picks a converter for a file. The extension decides when it agrees with the sniffed content (or
+ * nothing could be sniffed); otherwise the sniffed content type wins, so e.g. a PDF uploaded as
+ * `notes.txt` is still parsed as a PDF.
+ */
+export function selectConverter(fileName: string, buf: Buffer): ConverterSelection {
+  const ext = path.extname(fileName).toLowerCase();
+  const contentType = sniffContentType(buf);
+  const all = candidates();
+  const byExt = ext ? all.find((c) => c.extensions.includes(ext)) : undefined;
+
+  if (byExt && (!contentType || byExt.contentTypes?.includes(contentType))) {
+    return { converter: byExt, contentType, matchedBy: "extension" };
+  }
+  const byContent = contentType ? all.find((c) => c.contentTypes?.includes(contentType)) : undefined;
+  if (byContent) return { converter: byContent, contentType, matchedBy: "content" };
+  if (byExt) return { converter: byExt, contentType, matchedBy: "extension" };
+  return { converter: textConverter, contentType, matchedBy: "fallback" };
+}
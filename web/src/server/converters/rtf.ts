@@ -0,0 +1,458 @@
+import iconv from "iconv-lite";
+import type { Logger } from "@/server/logger";
+import { htmlToMarkdown } from "@/server/converters/html-to-markdown";
+
+type GroupState = {
+  bold: boolean;
+  italic: boolean;
+  /** Set inside destinations whose text is not document content (font table, pictures, ...). */
+  skip: boolean;
+  /** Where plain text goes inside special destinations. */
+  capture: "stylesheet" | "fonttbl" | "fldinst" | "listtext" | null;
+  font: number | null;
+  /** Style number being defined inside the stylesheet. */
+  styleDef: number | null;
+  /** Number of fallback characters that follow a `\uN` escape. */
+  uc: number;
+};
+
+type ParagraphState = {
+  style: number;
+  outlineLevel: number | null;
+  inTable: boolean;
+  listLevel: number | null;
+};
+
+type Run = { text: string; bold: boolean; italic: boolean; href?: string; raw?: boolean };
+
+type Block =
+  | { kind: "p" | "h1" | "h2" | "h3" | "h4" | "h5" | "h6"; html: string }
+  | { kind: "li"; html: string; level: number; ordered: boolean }
+  | { kind: "table"; rows: string[][] };
+
+// Destinations that never contain document text.
+const SKIPPED_DESTINATIONS = new Set([
+  "colortbl",
+  "info",
+  "pict",
+  "object",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "listtable",
+  "listoverridetable",
+  "revtbl",
+  "rsidtbl",
+  "generator",
+  "xmlnstbl",
+  "themedata",
+  "colorschememapping",
+  "latentstyles",
+  "datastore",
+  "pnseclvl",
+  "bkmkstart",
+  "bkmkend",
+]);
+
+// `\fcharsetN` values to code pages, for documents that switch scripts per font (e.g. Japanese text
+// in an otherwise Western document).
+const CHARSET_CODEPAGES: Record<number, string> = {
+  128: "cp932",
+  129: "cp949",
+  134: "cp936",
+  136: "cp950",
+  161: "windows-1253",
+  162: "windows-1254",
+  163: "windows-1258",
+  177: "windows-1255",
+  178: "windows-1256",
+  186: "windows-1257",
+  204: "windows-1251",
+  222: "windows-874",
+  238: "windows-1250",
+};
+
+const SYMBOLS: Record<string, string> = {
+  emdash: "\u2014",
+  endash: "\u2013",
+  bullet: "\u2022",
+  lquote: "\u2018",
+  rquote: "\u2019",
+  ldblquote: "\u201C",
+  rdblquote: "\u201D",
+  emspace: " ",
+  enspace: " ",
+  qmspace: " ",
+  tab: " ",
+};
+
+function escapeHtml(s: string) {
+  return s.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;");
+}
+
+function runsToHtml(runs: Run[]) {
+  let out = "";
+  for (let i = 0; i < runs.length; ) {
+    const { bold, italic, href } = runs[i];
+    let text = "";
+    for (; i < runs.length && runs[i].bold === bold && runs[i].italic === italic && runs[i].href === href; i++) {
+      text += runs[i].raw ? runs[i].text : escapeHtml(runs[i].text);
+    }
+    if (text.trim()) {
+      if (bold) text = `<strong>${text}</strong>`;
+      if (italic) text = `<em>${text}</em>`;
+      if (href) text = `<a href="${escapeHtml(href)}">${text}</a>`;
+    }
+    out += text;
+  }
+  return out.replace(/\s+/g, " ").trim();
+}
+
+function headingLevel(styleName: string | undefined, outlineLevel: number | null) {
+  if (outlineLevel !== null && outlineLevel >= 0 && outlineLevel < 6) return outlineLevel + 1;
+  if (!styleName) return null;
+  const m = styleName.match(/^heading\s*([1-6])$/i);
+  if (m) return Number(m[1]);
+  if (/^title$/i.test(styleName)) return 1;
+  if (/^subtitle$/i.test(styleName)) return 2;
+  return null;
+}
+
+function blocksToHtml(blocks: Block[]) {
+  const out: string[] = [];
+  for (let i = 0; i < blocks.length; i++) {
+    const b = blocks[i];
+    if (b.kind === "table") {
+      const rows = b.rows.map((r) => `<tr>${r.map((c) => `<td>${c}</td>`).join("")}</tr>`);
+      out.push(`<table>${rows.join("")}</table>`);
+      continue;
+    }
+    if (b.kind !== "li") {
+      out.push(`<${b.kind}>${b.html}</${b.kind}>`);
+      continue;
+    }
+    // Consecutive list paragraphs become one (possibly nested) list.
+    const open: Array<"ul" | "ol"> = [];
+    let html = "";
+    for (; i < blocks.length && blocks[i].kind === "li"; i++) {
+      const item = blocks[i] as Extract<Block, { kind: "li" }>;
+      const depth = Math.min(item.level, open.length);
+      while (open.length > depth + 1) html += `</li></${open.pop()}>`;
+      if (open.length === depth + 1) {
+        html += "</li>";
+      } else {
+        const tag = item.ordered ? "ol" : "ul";
+        html += `<${tag}>`;
+        open.push(tag);
+      }
+      html += `<li>${item.html}`;
+    }
+    i--;
+    while (open.length) html += `</li></${open.pop()}>`;
+    out.push(html);
+  }
+  return out.join("\n");
+}
+
+/**
+ * Converts an RTF document into Markdown. Handles the structure word processors emit: heading styles
+ * and outline levels, list paragraphs, `\trowd` tables, hyperlink fields, bold/italic, and legacy
+ * code pages (`\ansicpg`, per-font `\fcharset`) for non-ASCII text.
+ */
+export function rtfToMarkdown(buf: Buffer, log?: Logger): string {
+  const src = buf.toString("latin1");
+  if (!src.startsWith("{\\rtf")) throw new Error("rtf: missing {\\rtf header");
+
+  let codepage = "windows-1252";
+  const fontCodepages = new Map<number, string>();
+  const styleNames = new Map<number, string>();
+
+  const stack: GroupState[] = [];
+  let group: GroupState = { bold: false, italic: false, skip: false, capture: null, font: null, styleDef: null, uc: 1 };
+  let para: ParagraphState = { style: 0, outlineLevel: null, inTable: false, listLevel: null };
+
+  const blocks: Block[] = [];
+  let runs: Run[] = [];
+  let captured = "";
+  let listText = "";
+  let pendingBytes: number[] = [];
+  let skipFallback = 0;
+
+  // Table rows accumulate until a paragraph outside the table closes them.
+  let tableRows: string[][] | null = null;
+  let rowCells: string[] = [];
+  let cellParts: string[] = [];
+
+  // Hyperlink fields: `{\field{\*\fldinst HYPERLINK "url"}{\fldrslt text}}`.
+  const fields: Array<{ depth: number; href?: string }> = [];
+
+  const emitText = (text: string) => {
+    if (!text) return;
+    if (group.capture) {
+      if (group.capture === "listtext") listText += text;
+      else captured += text;
+      return;
+    }
+    if (group.skip) return;
+    const field = fields.at(-1);
+    runs.push({ text, bold: group.bold, italic: group.italic, href: field?.href });
+  };
+
+  const flushBytes = () => {
+    if (!pendingBytes.length) return;
+    const cp = (group.font !== null && fontCodepages.get(group.font)) || codepage;
+    const bytes = Buffer.from(pendingBytes);
+    pendingBytes = [];
+    emitText(iconv.encodingExists(cp) ? iconv.decode(bytes, cp) : bytes.toString("latin1"));
+  };
+
+  const flushTable = () => {
+    if (tableRows?.length) blocks.push({ kind: "table", rows: tableRows });
+    tableRows = null;
+    rowCells = [];
+    cellParts = [];
+  };
+
+  const endParagraph = () => {
+    flushBytes();
+    const html = runsToHtml(runs);
+    runs = [];
+    const marker = listText.trim();
+    listText = "";
+
+    if (para.inTable) {
+      if (html) cellParts.push(html);
+      return;
+    }
+    flushTable();
+    if (!html) return;
+
+    const level = headingLevel(styleNames.get(para.style), para.outlineLevel);
+    // Headings are bold by style; explicit bold runs would only add noise to the Markdown heading.
+    if (level) blocks.push({ kind: `h${level}` as Block["kind"], html: html.replace(/<\/?strong>/g, "") } as Block);
+    else if (para.listLevel !== null || marker) {
+      blocks.push({ kind: "li", html, level: para.listLevel ?? 0, ordered: /^[(]?\w{1,4}[.)]$/.test(marker) });
+    } else blocks.push({ kind: "p", html });
+  };
+
+  const controlWord = (word: string, param: number | null) => {
+    if (skipFallback > 0 && word !== "u") {
+      skipFallback--;
+      return;
+    }
+    // Inside tables of fonts/styles and skipped destinations, formatting words describe that
+    // metadata rather than the current paragraph.
+    if (group.capture === "stylesheet" || group.capture === "fonttbl") {
+      if (word === "f" && param !== null) group.font = param;
+      else if (word === "fcharset" && group.font !== null && param !== null && CHARSET_CODEPAGES[param]) {
+        fontCodepages.set(group.font, CHARSET_CODEPAGES[param]);
+      } else if (word === "s" && group.capture === "stylesheet") group.styleDef = param ?? 0;
+      return;
+    }
+    if (group.skip && word !== "uc") return;
+    switch (word) {
+      case "ansicpg":
+        if (param !== null) codepage = `windows-${param}`;
+        return;
+      case "f":
+        if (param !== null) group.font = param;
+        return;
+      case "s":
+        para.style = param ?? 0;
+        return;
+      case "uc":
+        group.uc = param ?? 1;
+        return;
+      case "u":
+        flushBytes();
+        emitText(String.fromCharCode(param !== null && param < 0 ? param + 65536 : (param ?? 63)));
+        skipFallback = group.uc;
+        return;
+      case "b":
+        group.bold = param !== 0;
+        return;
+      case "i":
+        group.italic = param !== 0;
+        return;
+      case "plain":
+        group.bold = false;
+        group.italic = false;
+        return;
+      case "pard":
+        para = { style: 0, outlineLevel: null, inTable: false, listLevel: null };
+        return;
+      case "outlinelevel":
+        para.outlineLevel = param;
+        return;
+      case "intbl":
+        para.inTable = true;
+        return;
+      case "ilvl":
+        para.listLevel = param ?? 0;
+        return;
+      case "ls":
+        if (para.listLevel === null) para.listLevel = 0;
+        return;
+      case "par":
+      case "sect":
+      case "page":
+        if (group.capture) return;
+        endParagraph();
+        return;
+      case "line":
+        flushBytes();
+        if (!group.capture) runs.push({ text: "<br>", bold: false, italic: false, raw: true });
+        return;
+      case "cell":
+        endParagraph();
+        rowCells.push(cellParts.join("<br>"));
+        cellParts = [];
+        return;
+      case "row":
+        endParagraph();
+        if (rowCells.some((c) => c.trim())) (tableRows ??= []).push(rowCells);
+        rowCells = [];
+        return;
+      default:
+        if (word in SYMBOLS) {
+          flushBytes();
+          emitText(SYMBOLS[word]);
+        }
+    }
+  };
+
+  const startDestination = (word: string, ignorable: boolean) => {
+    if (group.capture === "stylesheet" || group.capture === "fonttbl") return false;
+    if (word === "fonttbl" || word === "stylesheet") {
+      group.capture = word;
+      group.skip = true;
+      return true;
+    }
+    if (word === "fldinst") {
+      group.capture = "fldinst";
+      captured = "";
+      return true;
+    }
+    if (word === "listtext" || word === "pntext") {
+      group.capture = "listtext";
+      return true;
+    }
+    if (word === "field") {
+      fields.push({ depth: stack.length });
+      return false;
+    }
+    if (word === "fldrslt") {
+      const field = fields.at(-1);
+      if (field) {
+        const m = captured.match(/HYPERLINK\s+"([^"]+)"/i) || captured.match(/HYPERLINK\s+(\S+)/i);
+        if (m && !/^\\l$/.test(m[1])) field.href = m[1];
+      }
+      return false;
+    }
+    if (ignorable || SKIPPED_DESTINATIONS.has(word) || word === "footnote" || word === "annotation") {
+      group.skip = true;
+      return true;
+    }
+    return false;
+  };
+
+  let i = 0;
+  let groupStart = false;
+  let ignorableNext = false;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === "{") {
+      flushBytes();
+      stack.push(group);
+      group = { ...group, styleDef: null };
+      if (group.capture === "stylesheet" || group.capture === "fonttbl") captured = "";
+      groupStart = true;
+      ignorableNext = false;
+      i++;
+      continue;
+    }
+    if (ch === "}") {
+      flushBytes();
+      if (group.capture === "stylesheet" && group.styleDef !== null) {
+        const name = captured.replace(/;\s*$/, "").trim();
+        if (name) styleNames.set(group.styleDef, name);
+        captured = "";
+      }
+      if (fields.length && fields.at(-1)!.depth === stack.length) fields.pop();
+      group = stack.pop() ?? group;
+      groupStart = false;
+      i++;
+      continue;
+    }
+    if (ch === "\\") {
+      const next = src[i + 1];
+      if (next === "'") {
+        const byte = parseInt(src.slice(i + 2, i + 4), 16);
+        i += 4;
+        if (skipFallback > 0) {
+          skipFallback--;
+          continue;
+        }
+        if (!Number.isNaN(byte)) pendingBytes.push(byte);
+        continue;
+      }
+      if (next === "*") {
+        ignorableNext = true;
+        i += 2;
+        continue;
+      }
+      if (next && /[a-zA-Z]/.test(next)) {
+        const m = /^\\([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(src.slice(i, i + 48));
+        if (!m) {
+          i++;
+          continue;
+        }
+        i += m[0].length;
+        const word = m[1];
+        const param = m[2] !== undefined ? Number(m[2]) : null;
+        flushBytes();
+        if (groupStart || ignorableNext) {
+          const wasIgnorable = ignorableNext;
+          groupStart = false;
+          ignorableNext = false;
+          if (startDestination(word, wasIgnorable)) continue;
+        }
+        controlWord(word, param);
+        continue;
+      }
+      // Control symbols.
+      flushBytes();
+      i += 2;
+      if (next === "\\" || next === "{" || next === "}") emitText(next);
+      else if (next === "~") emitText("\u00A0");
+      else if (next === "_") emitText("-");
+      else if (next === "\n" || next === "\r") endParagraph();
+      continue;
+    }
+    if (ch === "\r" || ch === "\n") {
+      i++;
+      continue;
+    }
+    groupStart = false;
+    flushBytes();
+    if (skipFallback > 0) {
+      skipFallback--;
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < src.length && !"\\{}\r\n".includes(src[j])) j++;
+    emitText(src.slice(i, j));
+    i = j;
+  }
+  endParagraph();
+  flushTable();
+
+  log?.debug("rtf: converted document", { blockCount: blocks.length, codepage, styleCount: styleNames.size });
+  return htmlToMarkdown(blocksToHtml(blocks));
+}
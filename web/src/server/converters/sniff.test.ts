@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import JSZip from "jszip";
+import { CONTENT_TYPES, isBinaryContentType, sniffContentType } from "@/server/converters/sniff";
+
+async function zipOf(entries: Array<[string, string]>) {
+  const zip = new JSZip();
+  for (const [name, content] of entries) zip.file(name, content, { compression: "STORE" });
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+/** An OLE compound file header followed by a directory entry name, as legacy Office files have. */
+function compoundFile(streamName: string) {
+  const header = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+  return Buffer.concat([header, Buffer.alloc(504), Buffer.from(streamName, "utf16le"), Buffer.alloc(64)]);
+}
+
+test("recognises OOXML and OpenDocument containers", async () => {
+  assert.equal(sniffContentType(await zipOf([["word/document.xml", "<w:document/>"]])), CONTENT_TYPES.docx);
+  assert.equal(sniffContentType(await zipOf([["ppt/presentation.xml", "<p:presentation/>"]])), CONTENT_TYPES.pptx);
+  assert.equal(sniffContentType(await zipOf([["xl/workbook.xml", "<workbook/>"]])), CONTENT_TYPES.xlsx);
+  for (const mime of [CONTENT_TYPES.odt, CONTENT_TYPES.ods, CONTENT_TYPES.odp]) {
+    const odf = await zipOf([
+      ["mimetype", mime],
+      ["content.xml", "<office:document-content/>"],
+    ]);
+    assert.equal(sniffContentType(odf), mime);
+  }
+  assert.equal(sniffContentType(await zipOf([["notes/readme.md", "# Notes"]])), CONTENT_TYPES.zip);
+});
+
+test("recognises legacy Office compound files", () => {
+  assert.equal(sniffContentType(compoundFile("__substg1.0_0037001F")), CONTENT_TYPES.msg);
+  assert.equal(sniffContentType(compoundFile("Workbook")), CONTENT_TYPES.xls);
+  assert.equal(sniffContentType(compoundFile("WordDocument")), CONTENT_TYPES.cfb);
+});
+
+test("recognises PDFs, images and compressed files by their signature", () => {
+  const cases: Array<[Buffer, string]> = [
+    [Buffer.from("%PDF-1.7\n%âãÏÓ\n1 0 obj"), CONTENT_TYPES.pdf],
+    [Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), CONTENT_TYPES.png],
+    [Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]), CONTENT_TYPES.jpeg],
+    [Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00]), CONTENT_TYPES.tiff],
+    [Buffer.from("GIF89a\x01\x00\x01\x00", "latin1"), CONTENT_TYPES.gif],
+    [Buffer.concat([Buffer.from("RIFF"), Buffer.alloc(4), Buffer.from("WEBPVP8 ")]), CONTENT_TYPES.webp],
+    [Buffer.from([0x1f, 0x8b, 0x08, 0x00]), CONTENT_TYPES.gzip],
+  ];
+  for (const [buf, type] of cases) {
+    assert.equal(sniffContentType(buf), type);
+    assert.ok(isBinaryContentType(type));
+  }
+});
+
+test("recognises text formats that need their own converter", () => {
+  assert.equal(sniffContentType(Buffer.from("\uFEFF{\\rtf1\\ansi Hello}")), CONTENT_TYPES.rtf);
+  assert.equal(sniffContentType(Buffer.from("  <!DOCTYPE html><html><body>Hi</body></html>")), CONTENT_TYPES.html);
+  const eml = [
+    "From: a@example.com",
+    "To: b@example.com",
+    "Subject: Hi",
+    "Date: Mon, 1 Jan 2024 10:00:00 +0000",
+    "",
+    "Body",
+  ].join("\r\n");
+  assert.equal(sniffContentType(Buffer.from(eml)), CONTENT_TYPES.eml);
+  for (const type of [CONTENT_TYPES.rtf, CONTENT_TYPES.html, CONTENT_TYPES.eml]) {
+    assert.ok(!isBinaryContentType(type));
+  }
+});
+
+test("leaves plain text and unknown bytes to the extension", () => {
+  assert.equal(sniffContentType(Buffer.from("# Notes\n\nSubject: budget\nTo: everyone\n")), null);
+  assert.equal(sniffContentType(Buffer.from("Subject: Quarterly plan\n\nThe plan is...")), null);
+  assert.equal(sniffContentType(Buffer.from([0x00, 0x13, 0x37, 0xde, 0xad, 0xbe, 0xef, 0x42])), null);
+  assert.equal(sniffContentType(Buffer.alloc(0)), null);
+  assert.ok(!isBinaryContentType(null));
+});
@@ -0,0 +1,101 @@
+/**
+ * Content-type sniffing from file bytes, so mislabelled uploads (a PDF saved as `.txt`, an `.xlsx`
+ * renamed to `.zip`, a web page saved without an extension) still reach the right converter.
+ */
+
+export const CONTENT_TYPES = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  odt: "application/vnd.oasis.opendocument.text",
+  ods: "application/vnd.oasis.opendocument.spreadsheet",
+  odp: "application/vnd.oasis.opendocument.presentation",
+  xls: "application/vnd.ms-excel",
+  msg: "application/vnd.ms-outlook",
+  cfb: "application/x-cfb",
+  zip: "application/zip",
+  gzip: "application/gzip",
+  rtf: "application/rtf",
+  png: "image/png",
+  jpeg: "image/jpeg",
+  tiff: "image/tiff",
+  bmp: "image/bmp",
+  webp: "image/webp",
+  gif: "image/gif",
+  html: "text/html",
+  eml: "message/rfc822",
+} as const;
+
+// Sniffed types that are text formats; every other sniffed type is a binary container.
+const TEXT_CONTENT_TYPES = new Set<string>([CONTENT_TYPES.rtf, CONTENT_TYPES.html, CONTENT_TYPES.eml]);
+
+export function isBinaryContentType(contentType: string | null) {
+  return !!contentType && !TEXT_CONTENT_TYPES.has(contentType);
+}
+
+function startsWith(buf: Buffer, bytes: number[], offset = 0) {
+  if (buf.length < offset + bytes.length) return false;
+  return bytes.every((b, i) => buf[offset + i] === b);
+}
+
+function sniffZip(buf: Buffer) {
+  // OpenDocument stores an uncompressed `mimetype` entry first, so its value sits at a fixed offset.
+  if (buf.length > 38 && buf.toString("latin1", 30, 38) === "mimetype") {
+    const dataStart = 38 + buf.readUInt16LE(28);
+    const mime = buf.toString("latin1", dataStart, dataStart + Math.min(80, buf.readUInt32LE(18)));
+    if (mime === CONTENT_TYPES.odt || mime === CONTENT_TYPES.ods || mime === CONTENT_TYPES.odp) return mime;
+  }
+  // OOXML part names are stored uncompressed in the local headers and central directory.
+  if (buf.includes("word/document.xml")) return CONTENT_TYPES.docx;
+  if (buf.includes("ppt/presentation.xml")) return CONTENT_TYPES.pptx;
+  if (buf.includes("xl/workbook.xml")) return CONTENT_TYPES.xlsx;
+  return CONTENT_TYPES.zip;
+}
+
+function sniffCompoundFile(buf: Buffer) {
+  // Legacy Office files are OLE compound files; stream names are UTF-16LE in the directory sectors.
+  if (buf.includes(Buffer.from("__substg1.0_", "utf16le"))) return CONTENT_TYPES.msg;
+  if (buf.includes(Buffer.from("Workbook", "utf16le")) || buf.includes(Buffer.from("Book", "utf16le"))) {
+    return CONTENT_TYPES.xls;
+  }
+  return CONTENT_TYPES.cfb;
+}
+
+const EMAIL_HEADER = /^(from|to|subject|date|received|return-path|message-id|mime-version|content-type):/i;
+
+function sniffText(buf: Buffer) {
+  const head = buf
+    .subarray(0, 2048)
+    .toString("latin1")
+    .replace(/^\xEF\xBB\xBF/, "");
+  const trimmed = head.trimStart().toLowerCase();
+  if (trimmed.startsWith("{\\rtf")) return CONTENT_TYPES.rtf;
+  if (trimmed.startsWith("<!doctype html") || trimmed.startsWith("<html")) return CONTENT_TYPES.html;
+
+  // A MIME message starts with a block of headers; require several well-known ones so a document
+  // that merely opens with "Subject:" isn't taken for an email.
+  const headerBlock = head.split(/\r?\n\r?\n/)[0] ?? "";
+  const lines = headerBlock.split(/\r?\n/);
+  const known = lines.filter((l) => EMAIL_HEADER.test(l)).length;
+  if (known >= 3 && /^[\w-]+:/.test(lines[0] ?? "") && /\r?\n\r?\n/.test(head)) return CONTENT_TYPES.eml;
+  return null;
+}
+
+/**
+ * Returns a content type recognised from the file's leading bytes, or null for plain text and
+ * anything unrecognised (the extension decides then).
+ */
+export function sniffContentType(buf: Buffer): string | null {
+  if (startsWith(buf, [0x25, 0x50, 0x44, 0x46, 0x2d])) return CONTENT_TYPES.pdf;
+  if (startsWith(buf, [0x50, 0x4b, 0x03, 0x04])) return sniffZip(buf);
+  if (startsWith(buf, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return sniffCompoundFile(buf);
+  if (startsWith(buf, [0x1f, 0x8b])) return CONTENT_TYPES.gzip;
+  if (startsWith(buf, [0x89, 0x50, 0x4e, 0x47])) return CONTENT_TYPES.png;
+  if (startsWith(buf, [0xff, 0xd8, 0xff])) return CONTENT_TYPES.jpeg;
+  if (startsWith(buf, [0x49, 0x49, 0x2a, 0x00]) || startsWith(buf, [0x4d, 0x4d, 0x00, 0x2a])) return CONTENT_TYPES.tiff;
+  if (startsWith(buf, [0x42, 0x4d]) && buf.length > 26 && buf.readUInt32LE(2) === buf.length) return CONTENT_TYPES.bmp;
+  if (startsWith(buf, [0x52, 0x49, 0x46, 0x46]) && buf.toString("latin1", 8, 12) === "WEBP") return CONTENT_TYPES.webp;
+  if (startsWith(buf, [0x47, 0x49, 0x46, 0x38])) return CONTENT_TYPES.gif;
+  return sniffText(buf);
+}
@@ -0,0 +1,162 @@
+import * as XLSX from "xlsx";
+import type { Logger } from "@/server/logger";
+
+const MAX_ROWS = Number(process.env.SPREADSHEET_MAX_ROWS || 500);
+const MAX_COLUMNS = Number(process.env.SPREADSHEET_MAX_COLUMNS || 12);
+
+type Rows = string[][];
+
+function isNumericLike(s: string) {
+  return /^[-+]?[$€£]?\s*[\d.,]+\s*%?$/.test(s.trim());
+}
+
+function trimGrid(rows: Rows): Rows {
+  const cleaned = rows
+    .map((r) => r.map((c) => (c ?? "").toString().trim()))
+    .filter((r) => r.some(Boolean));
+  // Drop trailing columns that are empty in every row (common in exported sheets).
+  let width = 0;
+  for (const r of cleaned) {
+    for (let i = r.length - 1; i >= 0; i--) {
+      if (r[i]) {
+        width = Math.max(width, i + 1);
+        break;
+      }
+    }
+  }
+  return cleaned.map((r) => [...r.slice(0, width), ...Array<string>(Math.max(0, width - r.length)).fill("")]);
+}
+
+/**
+ * Heuristic: treat the first row as a header when it is mostly filled with distinct,
+ * non-numeric labels and there is data underneath it.
+ */
+function looksLikeHeader(first: string[], rest: Rows) {
+  if (rest.length === 0) return false;
+  const filled = first.filter(Boolean);
+  if (filled.length < Math.ceil(first.length / 2)) return false;
+  if (filled.some(isNumericLike)) return false;
+  return new Set(filled.map((c) => c.toLowerCase())).size === filled.length;
+}
+
+function escapeCell(s: string) {
+  return s.replaceAll("|", "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function markdownTable(header: string[], body: Rows) {
+  const line = (r: string[]) => `| ${r.map(escapeCell).join(" | ")} |`;
+  return [line(header), line(header.map(() => "---")), ...body.map(line)].join("\n");
+}
+
+/**
+ * Renders one sheet as a Markdown section. Long sheets are truncated (with a note) and wide sheets
+ * are split into several tables that each repeat the first column so rows stay identifiable.
+ */
+export function sheetToMarkdown(name: string, rawRows: Rows) {
+  const rows = trimGrid(rawRows);
+  const heading = `## ${name}`;
+  if (rows.length === 0) return `${heading}\n\n_(empty sheet)_`;
+
+  const width = rows[0].length;
+  const hasHeader = looksLikeHeader(rows[0], rows.slice(1));
+  const header = hasHeader
+    ? rows[0].map((c, i) => c || `Column ${i + 1}`)
+    : Array.from({ length: width }, (_v, i) => `Column ${i + 1}`);
+  const allBody = hasHeader ? rows.slice(1) : rows;
+  const body = allBody.slice(0, MAX_ROWS);
+
+  const parts = [heading];
+  if (width <= MAX_COLUMNS) {
+    parts.push(markdownTable(header, body));
+  } else {
+    const chunk = Math.max(1, MAX_COLUMNS - 1);
+    for (let start = 1; start < width; start += chunk) {
+      const end = Math.min(width, start + chunk);
+      const cols = [0, ...Array.from({ length: end - start }, (_v, i) => start + i)];
+      parts.push(
+        `_Columns ${start + 1}–${end} of ${width}:_`,
+        markdownTable(
+          cols.map((c) => header[c]),
+          body.map((r) => cols.map((c) => r[c]))
+        )
+      );
+    }
+  }
+
+  if (allBody.length > body.length) {
+    parts.push(`_…${allBody.length - body.length} more row(s) omitted (showing first ${body.length})._`);
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Minimal RFC 4180 parser (quoted fields, escaped quotes, embedded newlines) for CSV/TSV text.
+ */
+export function parseDelimited(text: string, delimiter: string): Rows {
+  const rows: Rows = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function delimitedToMarkdown(name: string, text: string, delimiter: "," | "\t") {
+  return sheetToMarkdown(name, parseDelimited(text, delimiter));
+}
+
+export function workbookToMarkdown(buf: Buffer, log?: Logger) {
+  const wb = XLSX.read(buf, { type: "buffer", cellDates: true });
+  const hiddenByName = new Map((wb.Workbook?.Sheets || []).map((s) => [s.name, !!s.Hidden]));
+  const sections: string[] = [];
+
+  for (const name of wb.SheetNames) {
+    if (hiddenByName.get(name)) {
+      log?.debug("spreadsheet: skipping hidden sheet", { sheet: name });
+      continue;
+    }
+    const sheet = wb.Sheets[name];
+    if (!sheet) continue;
+    // `raw: false` keeps the displayed (formatted) value, e.g. dates and currency as the author saw them.
+    const rows = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: "", blankrows: false });
+    sections.push(sheetToMarkdown(name, rows));
+  }
+
+  log?.debug("spreadsheet: converted workbook", { sheetCount: sections.length, sheetNames: wb.SheetNames });
+  return sections.join("\n\n");
+}
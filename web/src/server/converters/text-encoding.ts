@@ -0,0 +1,96 @@
+import chardet from "chardet";
+import iconv from "iconv-lite";
+
+export type DetectedEncoding = {
+  /** iconv-lite encoding name used to decode, e.g. "utf-8", "utf-16le", "windows-1252". */
+  name: string;
+  source: "bom" | "utf8-valid" | "declared" | "sniffed" | "fallback";
+  /** chardet confidence (0-100), only for sniffed encodings. */
+  confidence?: number;
+};
+
+// Sniffing beyond this many bytes rarely changes the answer and gets slow on big logs/CSVs.
+const SNIFF_BYTES = 64 * 1024;
+// Below this chardet confidence, legacy Western Windows text is the most likely culprit.
+const MIN_SNIFF_CONFIDENCE = 30;
+
+function bomEncoding(buf: Buffer): string | null {
+  if (buf.length >= 3 && buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) return "utf-8";
+  if (buf.length >= 2 && buf[0] === 0xff && buf[1] === 0xfe) return "utf-16le";
+  if (buf.length >= 2 && buf[0] === 0xfe && buf[1] === 0xff) return "utf-16be";
+  return null;
+}
+
+function isValidUtf8(buf: Buffer) {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buf);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * BOM-less UTF-16 (common from older Windows exports) shows up as a NUL in every other byte.
+ */
+function nulPatternUtf16(sample: Buffer): string | null {
+  if (sample.length < 4) return null;
+  let evenNul = 0;
+  let oddNul = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0) evenNul++;
+    if (sample[i + 1] === 0) oddNul++;
+  }
+  const pairs = Math.floor(sample.length / 2);
+  if (oddNul / pairs > 0.4 && evenNul / pairs < 0.05) return "utf-16le";
+  if (evenNul / pairs > 0.4 && oddNul / pairs < 0.05) return "utf-16be";
+  return null;
+}
+
+function declaredCharset(sample: Buffer): string | null {
+  // Only meaningful for HTML/XML-ish text; ASCII-compatible prefixes are enough to read it.
+  const head = sample.subarray(0, 4096).toString("latin1");
+  const m =
+    head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w:.-]+)/i) ||
+    head.match(/<\?xml[^>]+encoding\s*=\s*["']([\w:.-]+)["']/i);
+  const name = m?.[1]?.toLowerCase();
+  return name && iconv.encodingExists(name) ? name : null;
+}
+
+function normalizeSniffed(name: string) {
+  // Browsers treat ISO-8859-1 labels as windows-1252; exports from Windows tools almost always are.
+  if (/^iso-8859-1$/i.test(name)) return "windows-1252";
+  return name.toLowerCase();
+}
+
+export function detectEncoding(buf: Buffer): DetectedEncoding {
+  const bom = bomEncoding(buf);
+  if (bom) return { name: bom, source: "bom" };
+
+  const sample = buf.subarray(0, SNIFF_BYTES);
+  const utf16 = nulPatternUtf16(sample);
+  if (utf16) return { name: utf16, source: "sniffed" };
+
+  if (isValidUtf8(buf)) return { name: "utf-8", source: "utf8-valid" };
+
+  const declared = declaredCharset(sample);
+  if (declared && declared !== "utf-8") return { name: declared, source: "declared" };
+
+  const best = chardet
+    .analyse(sample)
+    .find((m) => m.confidence >= MIN_SNIFF_CONFIDENCE && iconv.encodingExists(normalizeSniffed(m.name)));
+  if (best && normalizeSniffed(best.name) !== "utf-8") {
+    return { name: normalizeSniffed(best.name), source: "sniffed", confidence: best.confidence };
+  }
+  return { name: "windows-1252", source: "fallback" };
+}
+
+/**
+ * Decodes text-like file bytes, detecting BOMs and sniffing legacy encodings (UTF-16, Windows-125x,
+ * Shift-JIS, ...) instead of assuming UTF-8.
+ */
+export function decodeText(buf: Buffer): { text: string; encoding: DetectedEncoding } {
+  const encoding = detectEncoding(buf);
+  // iconv-lite strips a leading BOM by default.
+  return { text: iconv.decode(buf, encoding.name), encoding };
+}
@@ -0,0 +1,62 @@
+import path from "node:path";
+import JSZip from "jszip";
+import { DOMParser } from "@xmldom/xmldom";
+
+/**
+ * Small helpers shared by converters for zipped-XML formats (OOXML, OpenDocument).
+ * Elements are matched by qualified name (e.g. "a:p") because these formats use fixed prefixes.
+ */
+
+export async function loadZip(buf: Buffer) {
+  return await JSZip.loadAsync(buf);
+}
+
+export async function readZipXml(zip: JSZip, entryPath: string): Promise<Document | null> {
+  const entry = zip.file(entryPath);
+  if (!entry) return null;
+  const xml = await entry.async("string");
+  return new DOMParser().parseFromString(xml, "text/xml") as unknown as Document;
+}
+
+export function childElements(node: Node | null | undefined, tagName?: string): Element[] {
+  if (!node) return [];
+  const out: Element[] = [];
+  for (let c = node.firstChild; c; c = c.nextSibling) {
+    if (c.nodeType !== 1) continue;
+    if (!tagName || (c as Element).nodeName === tagName) out.push(c as Element);
+  }
+  return out;
+}
+
+export function firstChild(node: Node | null | undefined, tagName: string): Element | null {
+  return childElements(node, tagName)[0] ?? null;
+}
+
+export function descendants(node: Node | null | undefined, tagName: string): Element[] {
+  if (!node) return [];
+  const list = (node as Element).getElementsByTagName(tagName);
+  return Array.from({ length: list.length }, (_v, i) => list[i] as Element);
+}
+
+/**
+ * Parses a `.rels` part into `Id -> { target, type }`, resolving targets relative to the owning part.
+ */
+export async function readRelationships(zip: JSZip, ownerPartPath: string) {
+  const dir = path.posix.dirname(ownerPartPath);
+  const relsPath = path.posix.join(dir, "_rels", `${path.posix.basename(ownerPartPath)}.rels`);
+  const doc = await readZipXml(zip, relsPath);
+  const rels = new Map<string, { target: string; type: string; external: boolean }>();
+  if (!doc) return rels;
+  for (const rel of descendants(doc, "Relationship")) {
+    const id = rel.getAttribute("Id");
+    const target = rel.getAttribute("Target") || "";
+    if (!id || !target) continue;
+    const external = rel.getAttribute("TargetMode") === "External";
+    rels.set(id, {
+      target: external ? target : path.posix.normalize(path.posix.join(dir, target)),
+      type: rel.getAttribute("Type") || "",
+      external,
+    });
+  }
+  return rels;
+}
@@ -0,0 +1,382 @@
+import fs from "node:fs/promises";
+import JSZip from "jszip";
+import { ensureDir, safeJoin } from "@/server/storage";
+import type { SiteGuide } from "@/server/guide-site";
+import { escapeXml, parseGuideFragment, retargetGuideLinks, withExtension } from "@/server/exports/guide-html";
+
+/**
+ * Minimal HTML -> WordprocessingML writer for guide fragments: headings, paragraphs, nested lists,
+ * tables, code blocks, quotes and links map to Word styles and numbering, so the result stays
+ * editable in Word rather than being a pasted-in web page. Images are replaced by their alt text.
+ */
+
+type InlineStyle = { bold?: boolean; italic?: boolean; code?: boolean; strike?: boolean; underline?: boolean };
+
+type Segment = { text: string; style: InlineStyle; link?: string } | { br: true; link?: string };
+
+/** Paragraph context inside a list item: its first paragraph carries the bullet/number. */
+type ListItem = { numId: number; level: number };
+
+type Context = { quote?: boolean; list?: ListItem; cell?: boolean; indent?: number };
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const R_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const BULLET_NUM_ID = 1;
+const BULLET_GLYPHS = ["•", "◦", "▪"];
+const LIST_INDENT_TWIPS = 720;
+// Usable width of a Letter page with 1" margins.
+const TEXT_WIDTH_TWIPS = 9360;
+
+const SKIPPED_TAGS = new Set(["script", "style", "template", "noscript", "iframe", "object", "embed", "svg"]);
+const BLOCK_TAGS = new Set(
+  `address article aside blockquote dd details div dl dt figcaption figure footer h1 h2 h3 h4 h5 h6 header
+  hr li main nav ol p pre section summary table ul`.split(/\s+/)
+);
+
+function tagOf(node: Node) {
+  return node.nodeType === 1 ? (node as Element).tagName.toLowerCase() : "";
+}
+
+function isBlock(node: Node) {
+  return BLOCK_TAGS.has(tagOf(node));
+}
+
+function runProps(style: InlineStyle, link: boolean) {
+  const props = [
+    link ? `<w:rStyle w:val="Hyperlink"/>` : "",
+    style.code ? `<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>` : "",
+    style.bold ? "<w:b/>" : "",
+    style.italic ? "<w:i/>" : "",
+    style.strike ? "<w:strike/>" : "",
+    style.underline && !link ? `<w:u w:val="single"/>` : "",
+  ].join("");
+  return props ? `<w:rPr>${props}</w:rPr>` : "";
+}
+
+function runsXml(segments: Segment[]) {
+  let out = "";
+  for (let i = 0; i < segments.length; ) {
+    const link = segments[i].link;
+    let runs = "";
+    for (; i < segments.length && segments[i].link === link; i++) {
+      const s = segments[i];
+      runs +=
+        "br" in s
+          ? "<w:r><w:br/></w:r>"
+          : `<w:r>${runProps(s.style, !!link)}<w:t xml:space="preserve">${escapeXml(s.text)}</w:t></w:r>`;
+    }
+    out += link ? `<w:hyperlink r:id="${link}" w:history="1">${runs}</w:hyperlink>` : runs;
+  }
+  return out;
+}
+
+/** Collapses HTML whitespace across segments and trims the paragraph's ends. */
+function trimSegments(segments: Segment[]) {
+  const out: Segment[] = [];
+  let atLineStart = true;
+  for (const s of segments) {
+    if ("br" in s) {
+      out.push(s);
+      atLineStart = true;
+      continue;
+    }
+    let text = s.text.replace(/\s+/g, " ");
+    if (atLineStart) text = text.replace(/^ /, "");
+    if (!text) continue;
+    out.push({ ...s, text });
+    atLineStart = text.endsWith(" ");
+  }
+  for (let i = out.length - 1; i >= 0; i--) {
+    const s = out[i];
+    if ("br" in s) break;
+    s.text = s.text.replace(/ $/, "");
+    if (s.text) break;
+    out.splice(i, 1);
+  }
+  return out;
+}
+
+function createDocxWriter() {
+  const hyperlinks: string[] = [];
+  // Each ordered list gets its own numbering instance so its count restarts.
+  const orderedLists: Array<{ numId: number; level: number; start: number }> = [];
+
+  const linkId = (href: string) => {
+    const idx = hyperlinks.indexOf(href);
+    if (idx >= 0) return `rIdLink${idx + 1}`;
+    hyperlinks.push(href);
+    return `rIdLink${hyperlinks.length}`;
+  };
+
+  const inline = (node: Node, style: InlineStyle, link: string | undefined, out: Segment[]) => {
+    if (node.nodeType === 3) {
+      out.push({ text: node.textContent || "", style, link });
+      return;
+    }
+    if (node.nodeType !== 1) return;
+    const el = node as Element;
+    const tag = tagOf(el);
+    if (SKIPPED_TAGS.has(tag)) return;
+    if (tag === "br") {
+      out.push({ br: true, link });
+      return;
+    }
+    if (tag === "img") {
+      const alt = (el.getAttribute("alt") || "").trim();
+      if (alt) out.push({ text: `[Image: ${alt}]`, style: { ...style, italic: true }, link });
+      return;
+    }
+    let next = style;
+    if (tag === "strong" || tag === "b" || tag === "th") next = { ...next, bold: true };
+    if (tag === "em" || tag === "i" || tag === "cite") next = { ...next, italic: true };
+    if (tag === "code" || tag === "kbd" || tag === "samp") next = { ...next, code: true };
+    if (tag === "s" || tag === "del" || tag === "strike") next = { ...next, strike: true };
+    if (tag === "u" || tag === "ins") next = { ...next, underline: true };
+    let nextLink = link;
+    if (tag === "a") {
+      const href = (el.getAttribute("href") || "").trim();
+      // In-page anchors don't survive the conversion; keep the text only.
+      if (href && !href.startsWith("#") && !/^javascript:/i.test(href)) nextLink = linkId(href);
+    }
+    for (const child of Array.from(el.childNodes)) inline(child, next, nextLink, out);
+  };
+
+  const paragraph = (segments: Segment[], ctx: Context, pStyle?: string) => {
+    const runs = runsXml(trimSegments(segments));
+    const style = pStyle ?? (ctx.quote ? "Quote" : undefined);
+    let numbering = "";
+    let indent = "";
+    if (ctx.list) {
+      const { numId, level } = ctx.list;
+      if (numId) {
+        numbering = `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`;
+        // Later paragraphs of the same item line up with its text instead of repeating the bullet.
+        ctx.list = { ...ctx.list, numId: 0 };
+      } else {
+        indent = `<w:ind w:left="${LIST_INDENT_TWIPS * (level + 1)}"/>`;
+      }
+    } else if (ctx.indent) {
+      indent = `<w:ind w:left="${ctx.indent}"/>`;
+    }
+    const props = `${style ? `<w:pStyle w:val="${style}"/>` : ""}${numbering}${indent}`;
+    return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${runs}</w:p>`;
+  };
+
+  const list = (el: Element, ctx: Context, out: string[]) => {
+    const numbered = tagOf(el) === "ol";
+    const level = ctx.list ? Math.min(8, ctx.list.level + 1) : 0;
+    let numId = BULLET_NUM_ID;
+    if (numbered) {
+      numId = BULLET_NUM_ID + 1 + orderedLists.length;
+      orderedLists.push({ numId, level, start: Math.max(1, Number(el.getAttribute("start")) || 1) });
+    }
+    for (const li of Array.from(el.children)) {
+      if (tagOf(li) !== "li") {
+        blocks(li, ctx, out);
+        continue;
+      }
+      const itemCtx: Context = { ...ctx, list: { numId, level } };
+      const before = out.length;
+      blocks(li, itemCtx, out);
+      // Keep empty items so numbering doesn't skip.
+      if (out.length === before) out.push(paragraph([], itemCtx));
+    }
+  };
+
+  const table = (el: Element, ctx: Context, out: string[]) => {
+    const rows: Element[] = [];
+    for (const child of Array.from(el.children)) {
+      const tag = tagOf(child);
+      if (tag === "tr") rows.push(child);
+      else if (tag === "thead" || tag === "tbody" || tag === "tfoot") {
+        rows.push(...Array.from(child.children).filter((r) => tagOf(r) === "tr"));
+      }
+    }
+    const cellsOf = (tr: Element) => Array.from(tr.children).filter((c) => ["td", "th"].includes(tagOf(c)));
+    const span = (c: Element) => Math.max(1, Math.min(63, Number(c.getAttribute("colspan")) || 1));
+    const cols = Math.max(0, ...rows.map((tr) => cellsOf(tr).reduce((n, c) => n + span(c), 0)));
+    if (!cols) return;
+    const colWidth = Math.floor(TEXT_WIDTH_TWIPS / cols);
+    const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/>`;
+    let xml = `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${["top", "left", "bottom", "right", "insideH", "insideV"].map(border).join("")}</w:tblBorders></w:tblPr>`;
+    xml += `<w:tblGrid>${`<w:gridCol w:w="${colWidth}"/>`.repeat(cols)}</w:tblGrid>`;
+    for (const tr of rows) {
+      const cells = cellsOf(tr);
+      if (!cells.length) continue;
+      const used = cells.reduce((n, c) => n + span(c), 0);
+      xml += "<w:tr>";
+      cells.forEach((cell, i) => {
+        // Short rows are widened on their last cell; Word rejects rows that don't fill the grid.
+        const s = span(cell) + (i === cells.length - 1 ? cols - used : 0);
+        const content: string[] = [];
+        const cellCtx: Context = { cell: true, quote: ctx.quote };
+        if (tagOf(cell) === "th") {
+          const segments: Segment[] = [];
+          inline(cell, {}, undefined, segments);
+          content.push(paragraph(segments, cellCtx));
+        } else {
+          blocks(cell, cellCtx, content);
+        }
+        // A cell must end with a paragraph, even after a nested table.
+        if (!content.length || !content[content.length - 1].startsWith("<w:p")) content.push("<w:p/>");
+        const props = `<w:tcW w:w="${colWidth * s}" w:type="dxa"/>${s > 1 ? `<w:gridSpan w:val="${s}"/>` : ""}`;
+        xml += `<w:tc><w:tcPr>${props}</w:tcPr>${content.join("")}</w:tc>`;
+      });
+      xml += "</w:tr>";
+    }
+    out.push(`${xml}</w:tbl>`);
+  };
+
+  /** Renders the children of `container`, grouping loose inline content into paragraphs. */
+  const blocks = (container: Element, ctx: Context, out: string[]) => {
+    let pending: Segment[] = [];
+    const flush = () => {
+      if (pending.some((s) => "br" in s || s.text.trim())) out.push(paragraph(pending, ctx));
+      pending = [];
+    };
+    for (const node of Array.from(container.childNodes)) {
+      if (!isBlock(node)) {
+        inline(node, {}, undefined, pending);
+        continue;
+      }
+      flush();
+      const before = out.length;
+      const el = node as Element;
+      const tag = tagOf(el);
+      const heading = tag.match(/^h([1-6])$/);
+      if (heading) {
+        const segments: Segment[] = [];
+        inline(el, {}, undefined, segments);
+        out.push(paragraph(segments, ctx, ctx.cell ? undefined : `Heading${heading[1]}`));
+      } else if (tag === "p" || tag === "dt" || tag === "summary" || tag === "figcaption") {
+        const segments: Segment[] = [];
+        inline(el, tag === "dt" ? { bold: true } : {}, undefined, segments);
+        if (segments.length) out.push(paragraph(segments, ctx));
+      } else if (tag === "ul" || tag === "ol") {
+        list(el, ctx, out);
+      } else if (tag === "table") {
+        table(el, ctx, out);
+      } else if (tag === "pre") {
+        for (const line of (el.textContent || "").replace(/\n$/, "").split("\n")) {
+          const text = line.replace(/\t/g, "    ");
+          out.push(
+            `<w:p><w:pPr><w:pStyle w:val="Code"/></w:pPr>${text ? `<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>` : ""}</w:p>`
+          );
+        }
+      } else if (tag === "hr") {
+        out.push(
+          `<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CBD5E1"/></w:pBdr></w:pPr></w:p>`
+        );
+      } else if (tag === "blockquote") {
+        blocks(el, { ...ctx, quote: true }, out);
+      } else if (tag === "dd") {
+        blocks(el, { ...ctx, indent: (ctx.indent ?? 0) + LIST_INDENT_TWIPS }, out);
+      } else if (tag === "li") {
+        // Stray <li> outside a list.
+        blocks(el, { ...ctx, list: { numId: BULLET_NUM_ID, level: 0 } }, out);
+      } else {
+        blocks(el, ctx, out);
+      }
+      if (ctx.list && out.length > before) {
+        // Only the item's first paragraph is numbered, even when it came from a nested block.
+        ctx.list = { ...ctx.list, numId: 0 };
+      }
+    }
+    flush();
+  };
+
+  const numberingXml = () => {
+    const levels = (numbered: boolean) =>
+      Array.from({ length: 9 }, (_v, level) => {
+        const text = numbered ? `%${level + 1}.` : BULLET_GLYPHS[level % BULLET_GLYPHS.length];
+        return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${numbered ? ["decimal", "lowerLetter", "lowerRoman"][level % 3] : "bullet"}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${LIST_INDENT_TWIPS * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+      }).join("");
+    const nums = [
+      `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>`,
+      ...orderedLists.map(
+        (l) =>
+          `<w:num w:numId="${l.numId}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="${l.level}"><w:startOverride w:val="${l.start}"/></w:lvlOverride></w:num>`
+      ),
+    ];
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${W_NS}"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum><w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>${nums.join("")}</w:numbering>`;
+  };
+
+  const documentRelsXml = () => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rIdStyles" Type="${REL_TYPE}/styles" Target="styles.xml"/><Relationship Id="rIdNumbering" Type="${REL_TYPE}/numbering" Target="numbering.xml"/>${hyperlinks
+    .map(
+      (href, i) =>
+        `<Relationship Id="rIdLink${i + 1}" Type="${REL_TYPE}/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`
+    )
+    .join("")}</Relationships>`;
+
+  return { blocks, numberingXml, documentRelsXml };
+}
+
+function headingStyle(level: number, sizeHalfPoints: number) {
+  return `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/><w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${level <= 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:color w:val="0F172A"/><w:sz w:val="${sizeHalfPoints}"/><w:szCs w:val="${sizeHalfPoints}"/></w:rPr></w:style>`;
+}
+
+// Half-points for h1..h6.
+const HEADING_SIZES = [36, 30, 26, 24, 22, 22];
+
+const STYLES_XML = [
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:styles xmlns:w="${W_NS}">`,
+  `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>`,
+  `<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>`,
+  `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>`,
+  ...HEADING_SIZES.map((size, i) => headingStyle(i + 1, size)),
+  `<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="CBD5E1"/></w:pBdr><w:ind w:left="360"/></w:pPr><w:rPr><w:i/><w:color w:val="475569"/></w:rPr></w:style>`,
+  `<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr></w:style>`,
+  `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>`,
+  `</w:styles>`,
+].join("");
+
+/** Converts a guide fragment into a `.docx` file. */
+export async function htmlToDocx(html: string, opts: { title: string }) {
+  const writer = createDocxWriter();
+  const body: string[] = [];
+  writer.blocks(parseGuideFragment(html), {}, body);
+  if (!body.length) body.push("<w:p/>");
+
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`
+  );
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`
+  );
+  zip.file(
+    "docProps/core.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(opts.title)}</dc:title><dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, "Z")}</dcterms:created></cp:coreProperties>`
+  );
+  zip.file(
+    "word/document.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${body.join("")}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`
+  );
+  zip.file("word/styles.xml", STYLES_XML);
+  zip.file("word/numbering.xml", writer.numberingXml());
+  zip.file("word/_rels/document.xml.rels", writer.documentRelsXml());
+  return await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+/** Writes `<guide>.docx` for every guide into `dir`; links between guides point at the sibling `.docx`. */
+export async function writeDocxExport(opts: { guidesDir: string; dir: string; guides: SiteGuide[] }) {
+  await ensureDir(opts.dir);
+  const linked = new Set(opts.guides.map((g) => g.outputFile));
+  for (const g of opts.guides) {
+    const html = await fs.readFile(safeJoin(opts.guidesDir, g.outputFile), "utf8");
+    const root = parseGuideFragment(html);
+    retargetGuideLinks(root, (file) => (linked.has(file) ? withExtension(file, ".docx") : null));
+    const docx = await htmlToDocx(root.innerHTML, { title: g.title });
+    await fs.writeFile(safeJoin(opts.dir, withExtension(g.outputFile, ".docx")), docx);
+  }
+}
@@ -0,0 +1,175 @@
+import fs from "node:fs/promises";
+import JSZip from "jszip";
+import { safeJoin } from "@/server/storage";
+import { groupGuidesByFolder, type SiteGuide } from "@/server/guide-site";
+import { escapeXml, parseGuideFragment, retargetGuideLinks } from "@/server/exports/guide-html";
+
+/**
+ * Builds one EPUB 3 handbook from a run's guides: a chapter per guide in the download's index order,
+ * with a table of contents grouped by source folder. Guides that failed to convert are left out.
+ */
+
+type Chapter = { guide: SiteGuide; file: string; id: string; title: string; xhtml: string };
+
+const VOID_TAGS = new Set(["area", "br", "col", "hr", "img", "source", "track", "wbr"]);
+const DROPPED_TAGS = new Set([
+  "script", "style", "template", "noscript", "iframe", "object", "embed", "form", "input", "button", "link",
+  "meta", "base",
+]);
+const XML_NAME_RE = /^[a-zA-Z_][\w.-]*$/;
+
+const EPUB_CSS = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.25; }
+pre, code { font-family: monospace; }
+pre { white-space: pre-wrap; padding: 0.5em; background: #f4f4f5; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #d4d4d8; padding: 0.25em 0.5em; vertical-align: top; }
+blockquote { margin: 0 0 0 1em; padding-left: 0.75em; border-left: 3px solid #d4d4d8; }
+img { max-width: 100%; }
+nav ol { list-style: none; padding-left: 1em; }
+`;
+
+/** Serializes parsed HTML as well-formed XHTML, dropping scripts, forms and event-handler attributes. */
+function toXhtml(node: Node): string {
+  if (node.nodeType === 3) return escapeXml(node.textContent || "");
+  if (node.nodeType !== 1) return "";
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+  if (DROPPED_TAGS.has(tag) || !XML_NAME_RE.test(tag)) return "";
+  const attrs = Array.from(el.attributes)
+    .filter((a) => XML_NAME_RE.test(a.name) && !/^on/i.test(a.name) && !/^\s*javascript:/i.test(a.value))
+    .map((a) => ` ${a.name.toLowerCase()}="${escapeXml(a.value)}"`)
+    .join("");
+  if (VOID_TAGS.has(tag)) return `<${tag}${attrs}/>`;
+  return `<${tag}${attrs}>${Array.from(el.childNodes).map(toXhtml).join("")}</${tag}>`;
+}
+
+function xhtmlPage(opts: { title: string; lang: string; body: string; epubType?: string }) {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(opts.lang)}" lang="${escapeXml(opts.lang)}">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(opts.title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body${opts.epubType ? ` epub:type="${opts.epubType}"` : ""}>
+${opts.body}
+</body>
+</html>
+`;
+}
+
+function navXhtml(title: string, lang: string, chapters: Chapter[]) {
+  const item = (c: Chapter) => `<li><a href="${c.file}">${escapeXml(c.title)}</a></li>`;
+  const groups = groupGuidesByFolder(chapters.map((c) => c.guide));
+  const byGuide = new Map(chapters.map((c) => [c.guide, c]));
+  const entries = groups
+    .map(({ folder, guides }) => {
+      const items = guides.map((g) => item(byGuide.get(g)!)).join("\n");
+      return folder ? `<li><span>${escapeXml(folder)}</span>\n<ol>\n${items}\n</ol>\n</li>` : items;
+    })
+    .join("\n");
+  return xhtmlPage({
+    title,
+    lang,
+    body: `<nav epub:type="toc" id="toc">
+<h1>${escapeXml(title)}</h1>
+<ol>
+${entries || "<li><span>No guides were converted.</span></li>"}
+</ol>
+</nav>`,
+  });
+}
+
+/** EPUB 2 table of contents, still read by older e-readers. */
+function tocNcx(identifier: string, title: string, chapters: Chapter[]) {
+  const points = chapters
+    .map(
+      (c, i) =>
+        `<navPoint id="nav-${c.id}" playOrder="${i + 1}"><navLabel><text>${escapeXml(c.title)}</text></navLabel><content src="${c.file}"/></navPoint>`
+    )
+    .join("\n");
+  return `<?xml version="1.0" encoding="utf-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="${escapeXml(identifier)}"/></head>
+<docTitle><text>${escapeXml(title)}</text></docTitle>
+<navMap>
+${points}
+</navMap>
+</ncx>
+`;
+}
+
+function contentOpf(opts: { identifier: string; title: string; lang: string; chapters: Chapter[] }) {
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  const items = opts.chapters
+    .map((c) => `<item id="${c.id}" href="${c.file}" media-type="application/xhtml+xml"/>`)
+    .join("\n");
+  // A spine can't be empty; a run without any converted guide still gets a readable (contents) book.
+  const spine = opts.chapters.length
+    ? opts.chapters.map((c) => `<itemref idref="${c.id}"/>`).join("\n")
+    : `<itemref idref="nav"/>`;
+  return `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(opts.lang)}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeXml(opts.identifier)}</dc:identifier>
+<dc:title>${escapeXml(opts.title)}</dc:title>
+<dc:language>${escapeXml(opts.lang)}</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+<item id="css" href="styles.css" media-type="text/css"/>
+${items}
+</manifest>
+<spine toc="ncx">
+${spine}
+</spine>
+</package>
+`;
+}
+
+/** Builds the handbook; chapters follow `groupGuidesByFolder` order and links between guides are kept. */
+export async function buildEpubHandbook(opts: {
+  guidesDir: string;
+  guides: SiteGuide[];
+  title: string;
+  /** Stable id for the book, e.g. the run id. */
+  identifier: string;
+  lang?: string;
+}) {
+  const lang = opts.lang || "en";
+  const ordered = groupGuidesByFolder(opts.guides.filter((g) => g.status === "ok")).flatMap((g) => g.guides);
+  const files = new Map(ordered.map((g, i) => [g.outputFile, `guide-${String(i + 1).padStart(3, "0")}.xhtml`]));
+
+  const chapters: Chapter[] = [];
+  for (const g of ordered) {
+    const html = await fs.readFile(safeJoin(opts.guidesDir, g.outputFile), "utf8");
+    const root = parseGuideFragment(html);
+    retargetGuideLinks(root, (file) => files.get(file) ?? null);
+    const file = files.get(g.outputFile)!;
+    const body = `<section epub:type="chapter">\n${Array.from(root.childNodes).map(toXhtml).join("")}\n</section>`;
+    const xhtml = xhtmlPage({ title: g.title, lang, body, epubType: "bodymatter" });
+    chapters.push({ guide: g, file, id: file.replace(/\.xhtml$/, ""), title: g.title, xhtml });
+  }
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed.
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+  zip.file(
+    "META-INF/container.xml",
+    `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>
+`
+  );
+  zip.file("OEBPS/content.opf", contentOpf({ identifier: opts.identifier, title: opts.title, lang, chapters }));
+  zip.file("OEBPS/nav.xhtml", navXhtml(opts.title, lang, chapters));
+  zip.file("OEBPS/toc.ncx", tocNcx(opts.identifier, opts.title, chapters));
+  zip.file("OEBPS/styles.css", EPUB_CSS);
+  for (const c of chapters) zip.file(`OEBPS/${c.file}`, c.xhtml);
+  return await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE", mimeType: "application/epub+zip" });
+}
@@ -0,0 +1,38 @@
+/**
+ * Download bundles a run can produce. The HTML site is always built (the preview and editor work on
+ * its guides); the others are opt-in per run and derived from the same guide fragments.
+ */
+
+export type OutputFormat = "html" | "markdown" | "docx" | "epub";
+
+export type OutputFormatInfo = {
+  label: string;
+  /** File name under the run's output folder. */
+  fileName: string;
+  contentType: string;
+};
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  html: { label: "HTML site", fileName: "guides.zip", contentType: "application/zip" },
+  markdown: { label: "Markdown", fileName: "guides-markdown.zip", contentType: "application/zip" },
+  docx: { label: "Word (.docx)", fileName: "guides-docx.zip", contentType: "application/zip" },
+  epub: { label: "EPUB handbook", fileName: "handbook.epub", contentType: "application/epub+zip" },
+};
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return typeof value === "string" && Object.hasOwn(OUTPUT_FORMATS, value);
+}
+
+/** Formats from an untrusted request body: known ids only, deduplicated, HTML always first. */
+export function parseOutputFormats(raw: unknown): OutputFormat[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const extra = raw.filter(isOutputFormat).filter((f) => f !== "html");
+  return ["html", ...new Set(extra)];
+}
+
+/** Attachment name for a bundle, e.g. `guides-markdown-<runId>.zip`. */
+export function downloadFileName(format: OutputFormat, runId: string) {
+  const { fileName } = OUTPUT_FORMATS[format];
+  const dot = fileName.lastIndexOf(".");
+  return `${fileName.slice(0, dot)}-${runId}${fileName.slice(dot)}`;
+}
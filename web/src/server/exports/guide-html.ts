@@ -0,0 +1,46 @@
+import { parseHTML } from "linkedom";
+
+/**
+ * Helpers shared by the export formats, which all start from the guide fragments in `guides/`.
+ */
+
+/** Parses a guide fragment; the returned element's children are the fragment's top-level nodes. */
+export function parseGuideFragment(html: string): Element {
+  const { document } = parseHTML(`<!doctype html><html><head></head><body>${html}</body></html>`);
+  return document.body as unknown as Element;
+}
+
+/**
+ * Points links between guides (e.g. an email's attachment list) at the exported file names.
+ * `rename` gets the linked guide's output file and returns its new name, or null to leave the link.
+ */
+export function retargetGuideLinks(root: Element, rename: (outputFile: string) => string | null) {
+  for (const a of Array.from(root.querySelectorAll("a[href]"))) {
+    const href = a.getAttribute("href") || "";
+    if (/^[a-z][a-z0-9+.-]*:|^\/\/|^#/i.test(href)) continue;
+    let target: string;
+    try {
+      target = decodeURI(href.split("#")[0]);
+    } catch {
+      continue;
+    }
+    const renamed = rename(target);
+    if (renamed) a.setAttribute("href", encodeURI(renamed));
+  }
+}
+
+/** Escapes text for XML content and attribute values, dropping characters XML 1.0 cannot carry. */
+export function escapeXml(text: string) {
+  return text
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+}
+
+/** `guide.html` -> `guide.md` etc. */
+export function withExtension(outputFile: string, ext: string) {
+  return outputFile.replace(/\.html?$/i, "") + ext;
+}
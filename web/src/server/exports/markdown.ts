@@ -0,0 +1,43 @@
+import fs from "node:fs/promises";
+import { ensureDir, safeJoin } from "@/server/storage";
+import { htmlToMarkdown } from "@/server/converters/html-to-markdown";
+import { summarizeGuideHtml, type SiteGuide } from "@/server/guide-site";
+import { parseGuideFragment, retargetGuideLinks, withExtension } from "@/server/exports/guide-html";
+
+/** YAML front matter; strings are written as JSON, which is valid double-quoted YAML. */
+function frontMatter(fields: Record<string, string | number | string[] | undefined>) {
+  const lines = Object.entries(fields)
+    .filter(([, v]) => v !== undefined && v !== "" && !(Array.isArray(v) && !v.length))
+    .map(([k, v]) => `${k}: ${typeof v === "number" ? v : JSON.stringify(v)}`);
+  return `---\n${lines.join("\n")}\n---\n`;
+}
+
+/** Cleaned Markdown for one guide, with its title, source and section recorded in front matter. */
+export function guideToMarkdown(guide: SiteGuide, html: string, linkedGuides: Set<string>) {
+  const root = parseGuideFragment(html);
+  retargetGuideLinks(root, (file) => (linkedGuides.has(file) ? withExtension(file, ".md") : null));
+  const summary = summarizeGuideHtml(html);
+  const meta = frontMatter({
+    title: guide.title,
+    description: guide.description || summary.description,
+    tags: guide.tags,
+    source: guide.sourcePath,
+    parent: guide.parentSourcePath,
+    section: guide.section?.heading,
+    sectionIndex: guide.section?.index,
+    sectionCount: guide.section?.count,
+    status: guide.status,
+    error: guide.error,
+  });
+  return `${meta}\n${htmlToMarkdown(root.innerHTML)}\n`;
+}
+
+/** Writes `<guide>.md` for every guide into `dir`. */
+export async function writeMarkdownExport(opts: { guidesDir: string; dir: string; guides: SiteGuide[] }) {
+  await ensureDir(opts.dir);
+  const linked = new Set(opts.guides.map((g) => g.outputFile));
+  for (const g of opts.guides) {
+    const html = await fs.readFile(safeJoin(opts.guidesDir, g.outputFile), "utf8");
+    await fs.writeFile(safeJoin(opts.dir, withExtension(g.outputFile, ".md")), guideToMarkdown(g, html, linked), "utf8");
+  }
+}
@@ -0,0 +1,110 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkSourceFidelity } from "@/server/fidelity";
+
+const source = `# Returning a parcel
+
+Call **ShipTrack** support on +44 20 7946 0958 or write to returns@example.com.
+See https://example.com/returns for the full policy.
+
+## Before you start
+
+1. Print the return label from your account
+2. Pack the items in their original box
+
+## Fees
+
+| Parcel size | Fee |
+| --- | --- |
+| Small | 4.50 EUR |
+| Large | 12.90 EUR |
+
+\`\`\`sh
+# not a heading
+| not | a row |
+\`\`\`
+`;
+
+const faithful = `<h1>How to return a parcel</h1>
+<p>Contact <strong>ShipTrack</strong> support by phone (+44 20 7946 0958) or by email at
+<a href="mailto:returns@example.com">returns@example.com</a>. The
+<a href="https://example.com/returns">returns policy</a> has the details.</p>
+<h2>Before you start</h2>
+<ol><li>Print your return label from the account page.</li><li>Pack the items in the original box.</li></ol>
+<h2>Fees</h2>
+<table><tr><th>Parcel size</th><th>Fee</th></tr><tr><td>Small</td><td>4.50 EUR</td></tr>
+<tr><td>Large</td><td>12.90 EUR</td></tr></table>`;
+
+function check(html: string, opts?: { context?: string; translated?: boolean }) {
+  return checkSourceFidelity(source, html, opts);
+}
+
+test("does not flag a faithful rewrite", () => {
+  const report = check(faithful);
+  assert.deepEqual(report.warnings, []);
+  assert.equal(report.score, 100);
+  assert.deepEqual(report.coverage, {
+    numbers: { found: 3, total: 3 },
+    urls: { found: 2, total: 2 },
+    terms: { found: 2, total: 2 },
+    listItems: { found: 2, total: 2 },
+    headings: { found: 3, total: 3 },
+    tableRows: { found: 3, total: 3 },
+  });
+});
+
+test("flags dropped headings", () => {
+  const report = check(faithful.replace("<h2>Before you start</h2>", ""));
+  assert.deepEqual(report.warnings, [`Missing headings: "Before you start"`]);
+  assert.deepEqual(report.coverage.headings, { found: 2, total: 3 });
+  assert.ok(report.score < 100);
+});
+
+test("flags dropped table rows", () => {
+  const report = check(faithful.replace(/<tr><td>Large<\/td>.*?<\/tr>/, ""));
+  assert.deepEqual(report.warnings, [`Missing numbers: "12.90"`, `Missing table rows: "Large | 12.90 EUR"`]);
+  assert.deepEqual(report.coverage.tableRows, { found: 2, total: 3 });
+});
+
+test("flags a dropped table", () => {
+  const report = check(faithful.replace(/<h2>Fees<\/h2>[\s\S]*<\/table>/, "<p>Prices vary.</p>"));
+  assert.deepEqual(report.coverage.tableRows, { found: 0, total: 3 });
+  assert.ok(report.warnings.includes(`Missing table rows: "Parcel size | Fee", "Small | 4.50 EUR", "Large | 12.90 EUR"`));
+});
+
+test("flags dropped and invented numbers", () => {
+  const report = check(faithful.replace("+44 20 7946 0958", "+44 20 7946 0000"));
+  assert.deepEqual(report.warnings, [
+    `Numbers not in the source: "44 20 7946 0000"`,
+    `Missing numbers: "44 20 7946 0958"`,
+  ]);
+  assert.deepEqual(report.coverage.numbers, { found: 2, total: 3 });
+  assert.ok(report.score < 90);
+});
+
+test("flags dropped and invented links", () => {
+  const report = check(
+    faithful.replace(`<a href="https://example.com/returns">returns policy</a>`, `<a href="https://evil.example/">policy</a>`)
+  );
+  assert.deepEqual(report.warnings, [
+    `Links or email addresses not in the source: "https://evil.example"`,
+    `Missing links or email addresses: "https://example.com/returns"`,
+  ]);
+});
+
+test("numbers and links from the context are not additions", () => {
+  const html = `${faithful}<p>Reference 2024-117, see https://example.com/help</p>`;
+  assert.deepEqual(check(html).warnings, [
+    `Numbers not in the source: "2024-117"`,
+    `Links or email addresses not in the source: "https://example.com/help"`,
+  ]);
+  assert.deepEqual(check(html, { context: "Returns 2024-117 https://example.com/help" }).warnings, []);
+});
+
+test("checks only numbers and addresses of translations", () => {
+  const translated = `<h1>Paket zurücksenden</h1><p>Telefon +44 20 7946 0958, returns@example.com,
+<a href="https://example.com/returns">Richtlinie</a>. Klein: 4.50 EUR, groß: 12.90 EUR.</p>`;
+  const report = check(translated, { translated: true });
+  assert.deepEqual(report.warnings, []);
+  assert.deepEqual(Object.keys(report.coverage).sort(), ["numbers", "urls"]);
+});
@@ -0,0 +1,241 @@
+import { parseHTML } from "linkedom";
+
+/**
+ * Source-fidelity check for a rewritten guide. The rewrite is free to reword, so this doesn't diff
+ * text; it checks that what a reader acts on survived — numbers (phone numbers, amounts, dates),
+ * URLs and email addresses, key terms, list items (usually procedure steps), headings and table rows —
+ * and flags numbers and addresses in the guide that the source never mentions.
+ */
+
+export type FidelityCategory = "numbers" | "urls" | "terms" | "listItems" | "headings" | "tableRows";
+
+export type FidelityReport = {
+  /** 0-100: weighted share of the source's checkable items found in the guide, less a penalty for additions. */
+  score: number;
+  /** Found / total per category; categories the source has nothing of are left out. */
+  coverage: Partial<Record<FidelityCategory, { found: number; total: number }>>;
+  /** Human-readable findings, most important first. */
+  warnings: string[];
+};
+
+const CATEGORY_WEIGHTS: Record<FidelityCategory, number> = {
+  numbers: 3,
+  urls: 3,
+  listItems: 2,
+  tableRows: 2,
+  headings: 1,
+  terms: 1,
+};
+const MISSING_LABELS: Record<FidelityCategory, string> = {
+  numbers: "Missing numbers",
+  urls: "Missing links or email addresses",
+  terms: "Missing terms",
+  listItems: "Missing list items",
+  headings: "Missing headings",
+  tableRows: "Missing table rows",
+};
+
+// Points taken off per number or address that appears in the guide but not in the source.
+const ADDITION_PENALTY = 5;
+const MAX_ADDITION_PENALTY = 30;
+// A list item or heading counts as kept when this share of its significant words appear in the guide,
+// and a table row when this share of its cells do.
+const LIST_ITEM_MIN_OVERLAP = 0.5;
+// Examples listed per warning before "and N more".
+const MAX_EXAMPLES = 5;
+
+// Digits with the separators used in phone numbers, amounts, dates and times; single digits are too
+// common (step numbers, "2 days") to check.
+const NUMBER_RE = /\d[\d.,:/()\- \u00a0]*\d/g;
+const URL_RE = /\bhttps?:\/\/[^\s<>"'`)\]]+/gi;
+const EMAIL_RE = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g;
+const ACRONYM_RE = /\b[A-Z][A-Z0-9]{1,}s?\b/g;
+const CAMEL_CASE_RE = /\b[a-z]*[A-Z][a-z0-9]+[A-Z][A-Za-z0-9]*\b/g;
+const MD_CODE_RE = /`([^`\n]{2,80})`/g;
+const MD_STRONG_RE = /(\*\*|__)([^*_\n]{2,80})\1/g;
+const MD_LIST_ITEM_RE = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+)$/gm;
+const MD_HEADING_RE = /^ {0,3}#{1,6}[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/gm;
+const MD_TABLE_ROW_RE = /^ {0,3}\|(.*)$/gm;
+const MD_TABLE_SEPARATOR_CELL_RE = /^:?-+:?$/;
+// Fenced code can hold lines that look like headings ("# comment") or table rows.
+const MD_FENCE_RE = /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?^ {0,3}\1[ \t]*$/gm;
+const WORD_RE = /[\p{L}\p{N}][\p{L}\p{N}'-]*/gu;
+
+function digitGroups(value: string) {
+  return value.match(/\d+/g) || [];
+}
+
+function significantNumbers(text: string) {
+  const out = new Map<string, string>();
+  for (const m of text.matchAll(NUMBER_RE)) {
+    const raw = m[0].replace(/[\s(),.:/-]+$/, "").trim();
+    const digits = digitGroups(raw).join("");
+    if (digits.length >= 3 && !out.has(digits)) out.set(digits, raw);
+  }
+  return out;
+}
+
+/** A number is found when its digits appear as one number on the other side, or every digit group does. */
+function numberFound(digits: string, raw: string, other: { numbers: Map<string, string>; groups: Set<string> }) {
+  return other.numbers.has(digits) || digitGroups(raw).every((g) => other.groups.has(g));
+}
+
+function normalizeAddress(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/^mailto:/, "")
+    .replace(/[.,;:!?]+$/, "")
+    .replace(/\/$/, "");
+}
+
+function addresses(text: string, extra: string[] = []) {
+  const found = [...(text.match(URL_RE) || []), ...(text.match(EMAIL_RE) || []), ...extra];
+  return new Set(found.map(normalizeAddress).filter(Boolean));
+}
+
+function words(text: string) {
+  return (text.toLowerCase().match(WORD_RE) || []).filter((w) => w.length >= 4);
+}
+
+function keyTerms(markdown: string) {
+  const terms = new Set<string>();
+  const add = (t: string) => {
+    const term = t.replace(/\s+/g, " ").trim();
+    if (term.length >= 2 && !/^\d+$/.test(term)) terms.add(term);
+  };
+  for (const m of markdown.matchAll(MD_CODE_RE)) add(m[1]);
+  for (const m of markdown.matchAll(MD_STRONG_RE)) add(m[2]);
+  const prose = markdown.replace(MD_CODE_RE, " ").replace(URL_RE, " ").replace(EMAIL_RE, " ");
+  for (const m of prose.matchAll(ACRONYM_RE)) add(m[0]);
+  for (const m of prose.matchAll(CAMEL_CASE_RE)) add(m[0]);
+  return [...terms];
+}
+
+function stripInlineMarkdown(text: string) {
+  return text.replace(/[*_`~]|\[([^\]]*)\]\([^)]*\)/g, "$1").trim();
+}
+
+function listItems(markdown: string) {
+  return [...markdown.matchAll(MD_LIST_ITEM_RE)]
+    .map((m) => stripInlineMarkdown(m[1]))
+    .filter((item) => new Set(words(item)).size >= 2);
+}
+
+function headings(markdown: string) {
+  return [...markdown.replace(MD_FENCE_RE, "").matchAll(MD_HEADING_RE)]
+    .map((m) => stripInlineMarkdown(m[1]))
+    .filter((heading) => words(heading).length > 0);
+}
+
+/** Rows of pipe tables (header rows included), as their non-empty cells. */
+function tableRows(markdown: string) {
+  return [...markdown.replace(MD_FENCE_RE, "").matchAll(MD_TABLE_ROW_RE)]
+    .map((m) =>
+      m[1]
+        .replace(/\|\s*$/, "")
+        .split(/(?<!\\)\|/)
+        .map((cell) => stripInlineMarkdown(cell.replaceAll("\\|", "|")).replace(/\s+/g, " "))
+        .filter(Boolean)
+    )
+    .filter((cells) => cells.length && !cells.every((c) => MD_TABLE_SEPARATOR_CELL_RE.test(c)));
+}
+
+/** Share of `items` for which `found` holds. */
+function overlap(items: string[], found: (item: string) => boolean) {
+  return items.filter(found).length / items.length;
+}
+
+/** Text of every text node, space-separated so adjacent blocks don't run together. */
+export function textOf(node: Node): string {
+  if (node.nodeType === 3) return node.textContent || "";
+  return Array.from(node.childNodes).map(textOf).join(" ");
+}
+
+function examples(items: string[]) {
+  const shown = items.slice(0, MAX_EXAMPLES).map((i) => `"${i.length > 80 ? `${i.slice(0, 79)}…` : i}"`);
+  const more = items.length - shown.length;
+  return shown.join(", ") + (more > 0 ? ` and ${more} more` : "");
+}
+
+/**
+ * Compares a guide's HTML with the Markdown it was rewritten from. `context` is other text the model
+ * was given (e.g. the title); numbers and addresses from it are not reported as additions. Translated
+ * guides are only checked for numbers and addresses, since their wording can't match the source.
+ */
+export function checkSourceFidelity(
+  markdown: string,
+  html: string,
+  opts: { context?: string; translated?: boolean } = {}
+): FidelityReport {
+  const context = opts.context || "";
+  const { document } = parseHTML(`<!doctype html><html><head></head><body>${html}</body></html>`);
+  const body = document.body as unknown as Element;
+  const hrefs = Array.from(body.querySelectorAll("a[href]")).map((a) => a.getAttribute("href") || "");
+  const text = textOf(body).replace(/\s+/g, " ");
+  const lowerText = text.toLowerCase();
+
+  // Digits inside addresses are checked with the address, not as numbers.
+  const withoutAddresses = (s: string) => s.replace(URL_RE, " ").replace(EMAIL_RE, " ");
+  const sourceProse = withoutAddresses(markdown);
+  const known = withoutAddresses(`${context}\n${markdown}`);
+  const source = { numbers: significantNumbers(sourceProse), groups: new Set(digitGroups(known)) };
+  const guideProse = withoutAddresses(text);
+  const guide = { numbers: significantNumbers(guideProse), groups: new Set(digitGroups(guideProse)) };
+  const knownNumbers = { numbers: significantNumbers(known), groups: source.groups };
+  const sourceAddresses = addresses(markdown);
+  const guideAddresses = addresses(text, hrefs.filter((h) => /^(?:https?|mailto):/i.test(h)));
+  const guideWords = new Set(words(text));
+
+  const missing: Record<FidelityCategory, string[]> = {
+    numbers: [],
+    urls: [],
+    terms: [],
+    listItems: [],
+    headings: [],
+    tableRows: [],
+  };
+  const coverage: FidelityReport["coverage"] = {};
+  const tally = (category: FidelityCategory, items: string[], found: (item: string) => boolean) => {
+    if (!items.length) return;
+    for (const item of items) if (!found(item)) missing[category].push(item);
+    coverage[category] = { found: items.length - missing[category].length, total: items.length };
+  };
+  tally("numbers", [...source.numbers.keys()], (digits) => numberFound(digits, source.numbers.get(digits)!, guide));
+  tally("urls", [...sourceAddresses], (a) => guideAddresses.has(a) || lowerText.includes(a));
+  tally("terms", opts.translated ? [] : keyTerms(markdown), (t) => lowerText.includes(t.toLowerCase()));
+  const wordsKept = (item: string) =>
+    overlap([...new Set(words(item))], (w) => guideWords.has(w)) >= LIST_ITEM_MIN_OVERLAP;
+  tally("listItems", opts.translated ? [] : listItems(markdown), wordsKept);
+  tally("headings", opts.translated ? [] : headings(markdown), wordsKept);
+  // Rows are tallied by their text; the cells are recovered to check them one by one.
+  const rows = opts.translated ? [] : tableRows(markdown);
+  const rowCells = new Map(rows.map((cells) => [cells.join(" | "), cells]));
+  tally("tableRows", [...rowCells.keys()], (row) => {
+    const cells = rowCells.get(row)!;
+    return overlap(cells, (cell) => lowerText.includes(cell.toLowerCase())) >= LIST_ITEM_MIN_OVERLAP;
+  });
+
+  const addedNumbers = [...guide.numbers.entries()]
+    .filter(([digits, raw]) => !numberFound(digits, raw, knownNumbers))
+    .map(([, raw]) => raw);
+  const knownText = `${context}\n${markdown}`.toLowerCase();
+  const addedAddresses = [...guideAddresses].filter((a) => !sourceAddresses.has(a) && !knownText.includes(a));
+
+  const warnings: string[] = [];
+  if (addedNumbers.length) warnings.push(`Numbers not in the source: ${examples(addedNumbers)}`);
+  if (addedAddresses.length) warnings.push(`Links or email addresses not in the source: ${examples(addedAddresses)}`);
+  for (const category of ["numbers", "urls", "listItems", "tableRows", "headings", "terms"] as const) {
+    const items = category === "numbers" ? missing.numbers.map((d) => source.numbers.get(d)!) : missing[category];
+    if (items.length) warnings.push(`${MISSING_LABELS[category]}: ${examples(items)}`);
+  }
+
+  let weighted = 0;
+  let weights = 0;
+  for (const [category, c] of Object.entries(coverage) as Array<[FidelityCategory, { found: number; total: number }]>) {
+    weighted += (c.found / c.total) * CATEGORY_WEIGHTS[category];
+    weights += CATEGORY_WEIGHTS[category];
+  }
+  const penalty = Math.min(MAX_ADDITION_PENALTY, (addedNumbers.length + addedAddresses.length) * ADDITION_PENALTY);
+  const score = Math.max(0, Math.round((weights ? (weighted / weights) * 100 : 100) - penalty));
+  return { score, coverage, warnings };
+}
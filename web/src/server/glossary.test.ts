@@ -0,0 +1,126 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import { mkdtempSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  checkGlossary,
+  getGlossaryPath,
+  glossaryInstructions,
+  parseGlossaryFile,
+  readGlossary,
+  writeGlossary,
+  type Glossary,
+} from "@/server/glossary";
+import { parseWorkspaceId } from "@/server/storage";
+
+const dataDir = mkdtempSync(path.join(os.tmpdir(), "glossary-test-"));
+process.env.DATA_DIR = dataDir;
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+const shipTrack: Glossary = {
+  entries: [
+    {
+      term: "ShipTrack",
+      misspellings: ["Ship Track", "Shiptrak"],
+      bannedSynonyms: ["the tracking tool"],
+      note: "Parcel tracking system",
+    },
+    { term: "Ledgerly" },
+  ],
+};
+
+test("accepts slug workspace ids only", () => {
+  assert.equal(parseWorkspaceId("Acme-EU_2"), "acme-eu_2");
+  for (const raw of ["", "../acme", "acme/eu", ".hidden", "a".repeat(65), 42, undefined]) {
+    assert.equal(parseWorkspaceId(raw), null, String(raw));
+  }
+});
+
+test("reads an empty glossary for a workspace that has none", async () => {
+  assert.deepEqual(await readGlossary("empty"), { entries: [] });
+});
+
+test("saves and loads each workspace's glossary separately", async () => {
+  const saved = await writeGlossary("acme", [
+    { term: " ShipTrack ", misspellings: ["Ship Track", " Shiptrak "] },
+    { term: "ShipTrack", bannedSynonyms: ["the tracking tool", "ShipTrack"] },
+    { term: "" },
+  ]);
+  assert.deepEqual(saved.entries, [
+    { term: "ShipTrack", misspellings: ["Ship Track", "Shiptrak"], bannedSynonyms: ["the tracking tool"] },
+  ]);
+  assert.equal(getGlossaryPath("acme"), path.join(dataDir, "workspaces", "acme", "glossary.json"));
+
+  await writeGlossary("globex", [{ term: "Ledgerly" }]);
+  assert.deepEqual((await readGlossary("acme")).entries, saved.entries);
+  assert.deepEqual((await readGlossary("globex")).entries, [{ term: "Ledgerly" }]);
+  assert.deepEqual((await readGlossary()).entries, []);
+
+  await writeGlossary("acme", []);
+  assert.deepEqual((await readGlossary("acme")).entries, []);
+  assert.deepEqual((await readGlossary("globex")).entries, [{ term: "Ledgerly" }]);
+});
+
+test("the default workspace reads the glossary stored before workspaces until it is replaced", async () => {
+  await fs.writeFile(path.join(dataDir, "glossary.json"), JSON.stringify({ entries: [{ term: "Ledgerly" }] }));
+  assert.deepEqual((await readGlossary()).entries, [{ term: "Ledgerly" }]);
+  assert.deepEqual((await readGlossary("acme")).entries, []);
+
+  await writeGlossary("default", [{ term: "ShipTrack" }]);
+  assert.deepEqual((await readGlossary()).entries, [{ term: "ShipTrack" }]);
+});
+
+test("parses uploaded glossary files by column name", () => {
+  const csv = "Term,Variants,Avoid,Notes,Owner\nShipTrack,Ship Track;Shiptrak,the tracking tool,Parcel tracking,ops\n";
+  assert.deepEqual(parseGlossaryFile("terms.csv", Buffer.from(csv)), [
+    {
+      term: "ShipTrack",
+      misspellings: ["Ship Track", "Shiptrak"],
+      bannedSynonyms: ["the tracking tool"],
+      note: "Parcel tracking",
+    },
+  ]);
+  assert.deepEqual(parseGlossaryFile("terms.json", Buffer.from('{"entries":[{"term":"Ledgerly"}]}')), [
+    { term: "Ledgerly" },
+  ]);
+  assert.throws(() => parseGlossaryFile("terms.csv", Buffer.from("Owner\nx\n")), /"term" column/);
+  assert.throws(() => parseGlossaryFile("terms.txt", Buffer.from("x")), /must be a/);
+});
+
+test("adds only the entries a text mentions to the prompt", () => {
+  assert.equal(glossaryInstructions(shipTrack, "Nothing relevant here."), "");
+  const prompt = glossaryInstructions(shipTrack, "Open ship track and check the parcel.");
+  assert.match(prompt, /- ShipTrack \(never "Ship Track", "Shiptrak", "the tracking tool"\): Parcel tracking system/);
+  assert.doesNotMatch(prompt, /Ledgerly/);
+  assert.match(glossaryInstructions(shipTrack, "ShipTrack", { translated: true }), /\n- ShipTrack: Parcel tracking system$/);
+});
+
+test("reports misspelled, miscased, replaced and dropped terms", () => {
+  const source = "Open ShipTrack, then export the totals to Ledgerly.";
+  const check = (html: string) => checkGlossary(shipTrack, source, html).violations;
+
+  assert.deepEqual(check("<p>Open Ship Track, then export to Ledgerly.</p>"), [
+    { term: "ShipTrack", kind: "misspelled", found: "Ship Track" },
+  ]);
+  assert.deepEqual(check("<p>Open Shiptrack, then export to Ledgerly.</p>"), [
+    { term: "ShipTrack", kind: "misspelled", found: "Shiptrack" },
+  ]);
+  assert.deepEqual(check("<p>Open the tracking tool, then export to Ledgerly.</p>"), [
+    { term: "ShipTrack", kind: "synonym", found: "the tracking tool" },
+  ]);
+  assert.deepEqual(check("<p>Open ShipTrack, then export the totals.</p>"), [{ term: "Ledgerly", kind: "missing" }]);
+});
+
+test("passes a result that keeps every term", () => {
+  const report = checkGlossary(
+    shipTrack,
+    "Open ShipTrack, then export the totals to Ledgerly.",
+    "<h2>Export totals</h2><ol><li>Open <strong>ShipTrack</strong>.</li><li>Send the totals to Ledgerly.</li></ol>"
+  );
+  assert.deepEqual(report, { checked: 2, violations: [] });
+});
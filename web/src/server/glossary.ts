@@ -0,0 +1,216 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseHTML } from "linkedom";
+import * as XLSX from "xlsx";
+import { DEFAULT_WORKSPACE, getDataDir, getWorkspaceDir, writeJsonAtomic } from "@/server/storage";
+import { parseDelimited } from "@/server/converters/spreadsheet";
+import { textOf } from "@/server/fidelity";
+import type { GlossaryReport, GlossaryViolation } from "@/lib/glossary";
+
+/**
+ * Workspace terminology glossary: product and system names the models must keep exactly as written,
+ * with their known misspellings and the generic phrases they tend to be "simplified" into. Relevant
+ * entries are added to the rewrite, translation and HTML-edit prompts, and every result is checked
+ * against them afterwards.
+ *
+ * Each workspace has its own glossary, stored as `<DATA_DIR>/workspaces/<id>/glossary.json`; runs and
+ * AI edits use their workspace's. It is uploaded as a CSV/TSV, spreadsheet or JSON file with the
+ * columns `term`, `misspellings`, `bannedSynonyms` and `note` (list cells separated by ";").
+ */
+
+export type GlossaryEntry = {
+  /** The term exactly as it must appear, e.g. "ShipTrack". */
+  term: string;
+  /** Wrong spellings that should be written as `term`, e.g. "Ship Track". */
+  misspellings?: string[];
+  /** Generic phrases that must not replace the term, e.g. "the tracking tool". */
+  bannedSynonyms?: string[];
+  /** What the term refers to, passed to the model as context. */
+  note?: string;
+};
+
+export type Glossary = { entries: GlossaryEntry[]; updatedAt?: string };
+
+const MAX_ENTRIES = 500;
+const MAX_TERM_CHARS = 100;
+const MAX_NOTE_CHARS = 300;
+const MAX_VARIANTS = 20;
+
+const COLUMN_ALIASES: Record<string, keyof GlossaryEntry> = {
+  term: "term",
+  preferred: "term",
+  name: "term",
+  misspellings: "misspellings",
+  spellings: "misspellings",
+  variants: "misspellings",
+  bannedsynonyms: "bannedSynonyms",
+  banned: "bannedSynonyms",
+  synonyms: "bannedSynonyms",
+  avoid: "bannedSynonyms",
+  note: "note",
+  notes: "note",
+  description: "note",
+};
+
+export function getGlossaryPath(workspace = DEFAULT_WORKSPACE) {
+  return path.join(getWorkspaceDir(workspace), "glossary.json");
+}
+
+// Where the single glossary lived before workspaces; still read for the default workspace until it is replaced.
+function getLegacyGlossaryPath() {
+  return path.join(getDataDir(), "glossary.json");
+}
+
+function cleanString(value: unknown, max: number) {
+  if (typeof value !== "string" && typeof value !== "number") return "";
+  return String(value).replace(/\s+/g, " ").trim().slice(0, max);
+}
+
+function cleanList(value: unknown, term: string) {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[;|\n]/) : [];
+  const cleaned = items.map((v) => cleanString(v, MAX_TERM_CHARS)).filter((v) => v && v !== term);
+  return [...new Set(cleaned)].slice(0, MAX_VARIANTS);
+}
+
+/** Keeps well-formed entries from untrusted input, merging entries for the same term. */
+export function cleanGlossaryEntries(raw: unknown): GlossaryEntry[] {
+  const byTerm = new Map<string, GlossaryEntry>();
+  for (const item of Array.isArray(raw) ? raw : []) {
+    if (!item || typeof item !== "object") continue;
+    const o = item as Record<string, unknown>;
+    const term = cleanString(o.term, MAX_TERM_CHARS);
+    if (!term) continue;
+    const prev = byTerm.get(term);
+    const misspellings = cleanList([...(prev?.misspellings || []), ...cleanList(o.misspellings, term)], term);
+    const bannedSynonyms = cleanList([...(prev?.bannedSynonyms || []), ...cleanList(o.bannedSynonyms, term)], term);
+    const note = prev?.note || cleanString(o.note, MAX_NOTE_CHARS);
+    byTerm.set(term, {
+      term,
+      ...(misspellings.length ? { misspellings } : null),
+      ...(bannedSynonyms.length ? { bannedSynonyms } : null),
+      ...(note ? { note } : null),
+    });
+    if (byTerm.size >= MAX_ENTRIES) break;
+  }
+  return [...byTerm.values()];
+}
+
+/** Rows with a header row, as objects keyed by entry field (unknown columns are dropped). */
+function rowsToEntries(rows: string[][]) {
+  const [header = [], ...body] = rows;
+  const fields = header.map((h) => COLUMN_ALIASES[String(h).toLowerCase().replace(/[^a-z]/g, "")]);
+  if (!fields.includes("term")) throw new Error('Glossary needs a "term" column');
+  return cleanGlossaryEntries(
+    body.map((row) => Object.fromEntries(fields.flatMap((f, i) => (f ? [[f, row[i]]] : []))))
+  );
+}
+
+/** Reads an uploaded glossary file (.csv, .tsv, .xlsx, .xls, .ods or .json). */
+export function parseGlossaryFile(fileName: string, buf: Buffer) {
+  const ext = path.extname(fileName).toLowerCase();
+  if (ext === ".json") {
+    let json: unknown;
+    try {
+      json = JSON.parse(buf.toString("utf8"));
+    } catch {
+      throw new Error("Glossary file is not readable JSON");
+    }
+    const entries = Array.isArray(json) ? json : (json as { entries?: unknown } | null)?.entries;
+    return cleanGlossaryEntries(entries);
+  }
+  if (ext === ".csv" || ext === ".tsv") {
+    return rowsToEntries(parseDelimited(buf.toString("utf8"), ext === ".tsv" ? "\t" : ","));
+  }
+  if (ext === ".xlsx" || ext === ".xls" || ext === ".ods") {
+    const wb = XLSX.read(buf, { type: "buffer" });
+    const sheet = wb.Sheets[wb.SheetNames[0]];
+    if (!sheet) return [];
+    return rowsToEntries(XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: "" }));
+  }
+  throw new Error("Glossary must be a .csv, .tsv, .xlsx, .ods or .json file");
+}
+
+async function readGlossaryFile(filePath: string): Promise<Glossary | null> {
+  try {
+    const raw = JSON.parse(await fs.readFile(filePath, "utf8")) as Partial<Glossary>;
+    return { entries: cleanGlossaryEntries(raw.entries), updatedAt: raw.updatedAt };
+  } catch {
+    return null;
+  }
+}
+
+export async function readGlossary(workspace = DEFAULT_WORKSPACE): Promise<Glossary> {
+  const glossary =
+    (await readGlossaryFile(getGlossaryPath(workspace))) ??
+    (workspace === DEFAULT_WORKSPACE ? await readGlossaryFile(getLegacyGlossaryPath()) : null);
+  return glossary ?? { entries: [] };
+}
+
+export async function writeGlossary(workspace: string, entries: GlossaryEntry[]): Promise<Glossary> {
+  const glossary = { entries: cleanGlossaryEntries(entries), updatedAt: new Date().toISOString() };
+  await writeJsonAtomic(getGlossaryPath(workspace), glossary);
+  return glossary;
+}
+
+function phraseRe(phrase: string, flags: string) {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, `${flags}u`);
+}
+
+function mentions(text: string, entry: GlossaryEntry) {
+  return [entry.term, ...(entry.misspellings || []), ...(entry.bannedSynonyms || [])].some((p) =>
+    phraseRe(p, "i").test(text)
+  );
+}
+
+/**
+ * Prompt instructions for the entries relevant to `text`; empty when none are, so prompts (and cache
+ * entries) for documents the glossary doesn't touch stay unchanged. `translated` leaves out the
+ * misspellings and synonyms, which are in the glossary's own language.
+ */
+export function glossaryInstructions(glossary: Glossary, text: string, opts: { translated?: boolean } = {}) {
+  const entries = glossary.entries.filter((e) => mentions(text, e));
+  if (!entries.length) return "";
+  const lines = entries.map((e) => {
+    const avoid = opts.translated ? [] : [...(e.misspellings || []), ...(e.bannedSynonyms || [])];
+    return (
+      `- ${e.term}` +
+      (avoid.length ? ` (never ${avoid.map((a) => `"${a}"`).join(", ")})` : "") +
+      (e.note ? `: ${e.note}` : "")
+    );
+  });
+  return (
+    "Glossary: write these terms exactly as shown, keep them wherever the source uses them (or one of " +
+    "the forms to avoid), and never replace them with a description, a generic phrase or a translation:\n" +
+    lines.join("\n")
+  );
+}
+
+/**
+ * Checks a result against the glossary: terms the source mentions must appear exactly, and no
+ * misspelling, wrong capitalization or banned synonym may. `source` is the Markdown or HTML the result
+ * was made from.
+ */
+export function checkGlossary(glossary: Glossary, source: string, html: string): GlossaryReport {
+  const { document } = parseHTML(`<!doctype html><html><head></head><body>${html}</body></html>`);
+  const text = textOf(document.body as unknown as Element).replace(/\s+/g, " ");
+  const entries = glossary.entries.filter((e) => mentions(source, e) || mentions(text, e));
+  const violations: GlossaryViolation[] = [];
+  for (const entry of entries) {
+    const before = violations.length;
+    const exact = phraseRe(entry.term, "g");
+    const withoutTerm = text.replace(exact, " ");
+    const miscased = withoutTerm.match(phraseRe(entry.term, "i"))?.[0];
+    const misspelled = miscased ?? (entry.misspellings || []).find((m) => phraseRe(m, "").test(withoutTerm));
+    if (misspelled) violations.push({ term: entry.term, kind: "misspelled", found: misspelled });
+    for (const synonym of entry.bannedSynonyms || []) {
+      const found = withoutTerm.match(phraseRe(synonym, "i"))?.[0];
+      if (found) violations.push({ term: entry.term, kind: "synonym", found });
+    }
+    // A term written wrongly is already reported; "missing" means it was dropped altogether.
+    if (violations.length === before && mentions(source, entry) && !phraseRe(entry.term, "").test(text)) {
+      violations.push({ term: entry.term, kind: "missing" });
+    }
+  }
+  return { checked: entries.length, violations };
+}
@@ -0,0 +1,72 @@
+import { z } from "zod";
+import type { Guide } from "@/lib/types";
+
+/**
+ * Schema for the rewrite step's structured output. Models answer with a JSON object that is checked
+ * here before anything is written, so the manifest always gets a human title, a plain-text
+ * description and normalized tags alongside the HTML.
+ */
+
+const MAX_TITLE_CHARS = 120;
+const MAX_DESCRIPTION_CHARS = 600;
+const MAX_TAGS = 8;
+const MAX_TAG_CHARS = 40;
+
+/** Field instructions for a whole guide (or the first part of a chunked one). */
+export const GUIDE_OUTPUT_FIELDS =
+  'Respond with one JSON object with exactly these fields: "title" (a short, human-readable guide title, ' +
+  'not a file name), "description" (one plain-text paragraph of 1-3 sentences saying what the guide covers ' +
+  'and who it is for), "tags" (3-6 short lowercase topic tags) and "content" (the guide as an HTML fragment).';
+
+/** Field instructions for later parts of a chunked guide, which only contribute HTML. */
+export const GUIDE_PART_OUTPUT_FIELDS = 'Respond with one JSON object with exactly one field: "content" (the HTML fragment).';
+
+const plainText = (max: number) =>
+  z.string().transform((s) => s.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim().slice(0, max));
+
+function normalizeTags(tags: string[]) {
+  const out = new Set<string>();
+  for (const tag of tags) {
+    const t = tag.replace(/^#+/, "").replace(/\s+/g, " ").trim().toLowerCase().slice(0, MAX_TAG_CHARS);
+    if (t) out.add(t);
+  }
+  return [...out].slice(0, MAX_TAGS);
+}
+
+const contentSchema = z.string().refine((s) => s.trim().length > 0, "content is empty");
+
+export const guideSchema = z.object({
+  title: plainText(MAX_TITLE_CHARS).refine(Boolean, "title is empty"),
+  description: plainText(MAX_DESCRIPTION_CHARS),
+  tags: z.array(z.string()).transform(normalizeTags),
+  content: contentSchema,
+});
+
+export const guidePartSchema = z.object({ content: contentSchema });
+
+/** Everything but the HTML, as recorded in the manifest. */
+export type GuideMetadata = Omit<Guide, "content">;
+
+/** Pulls the JSON object out of a model answer, tolerating code fences and stray text around it. */
+function extractJsonObject(text: string): unknown {
+  const unfenced = text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/gi, "");
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  if (start < 0 || end <= start) throw new Error("Model output is not a JSON object");
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1));
+  } catch {
+    throw new Error("Model output is not parseable JSON");
+  }
+}
+
+/**
+ * Parses and validates a structured answer. Errors name only the failing fields (no model text), and
+ * avoid wording the provider layer treats as non-retryable, so a bad answer is retried.
+ */
+export function parseStructuredOutput<S extends z.ZodType>(text: string, schema: S): z.output<S> {
+  const parsed = schema.safeParse(extractJsonObject(text));
+  if (parsed.success) return parsed.data;
+  const fields = [...new Set(parsed.error.issues.map((i) => i.path.join(".") || "(root)"))];
+  throw new Error(`Structured output did not match the guide schema at: ${fields.join(", ")}`);
+}
@@ -0,0 +1,253 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { ensureDir, safeJoin } from "@/server/storage";
+import { renderThemedDocument, type GuideBranding, type GuideTheme } from "@/server/themes";
+import { languageName } from "@/server/rewrite-options";
+import { parseGuideFragment, retargetGuideLinks } from "@/server/exports/guide-html";
+
+/**
+ * Turns a run's guide fragments into a small static site for the download: an `index.html` listing
+ * every guide grouped by source folder, and themed, standalone copies of the guides with
+ * prev/next/index navigation. Translated guides get the same pages under `<lang>/`, with a language
+ * switcher on every page. The fragments in `guides/` stay untouched because the preview and editor
+ * work on them directly.
+ */
+
+export type SiteGuide = {
+  sourcePath: string;
+  outputFile: string;
+  title: string;
+  /** From the rewrite's structured output; derived from the HTML when missing. */
+  description?: string;
+  tags?: string[];
+  status: "ok" | "error";
+  error?: string;
+  /** Attachments are listed next to the file they came from. */
+  parentSourcePath?: string;
+  /** Set when the guide is one top-level section of its source (split mode); `index` is 1-based. */
+  section?: { index: number; count: number; heading: string };
+  /** Translated variants by language tag; `outputFile` is relative to `guides/` (e.g. `de/Guide.html`). */
+  translations?: Record<
+    string,
+    { outputFile: string; status: "ok" | "error"; title?: string; description?: string }
+  >;
+};
+
+type IndexedGuide = SiteGuide & { heading: string; description: string };
+
+export const SITE_INDEX_FILE = "index.html";
+
+const DESCRIPTION_MAX_CHARS = 160;
+
+function escapeHtml(text: string) {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function htmlToText(html: string) {
+  return html
+    // Inline tags join their text; everything else separates words.
+    .replace(/<\/?(?:a|abbr|b|code|em|i|kbd|mark|s|small|span|strong|sub|sup|u)\b[^>]*>/gi, "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&#(\d+);/g, (_m, n: string) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_m, n: string) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&amp;/gi, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function truncateAtWord(text: string, max: number) {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > max * 0.6 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:]+$/, "")}…`;
+}
+
+/** Display title (first heading) and a one-line description (first substantial paragraph) of a guide. */
+export function summarizeGuideHtml(html: string) {
+  const heading = html.match(/<h[1-3]\b[^>]*>([\s\S]*?)<\/h[1-3]>/i);
+  let description = "";
+  for (const m of html.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi)) {
+    const text = htmlToText(m[1]);
+    if (text.length >= 20) {
+      description = truncateAtWord(text, DESCRIPTION_MAX_CHARS);
+      break;
+    }
+  }
+  return { title: heading ? htmlToText(heading[1]) : "", description };
+}
+
+function folderOf(guide: SiteGuide) {
+  const dir = path.posix.dirname(guide.parentSourcePath ?? guide.sourcePath);
+  return dir === "." ? "" : dir;
+}
+
+function navHtml(prev: IndexedGuide | null, next: IndexedGuide | null) {
+  const link = (g: IndexedGuide, rel: "prev" | "next") =>
+    `<a rel="${rel}" href="${encodeURIComponent(g.outputFile)}">${
+      rel === "prev" ? `&larr; ${escapeHtml(g.heading)}` : `${escapeHtml(g.heading)} &rarr;`
+    }</a>`;
+  return `<nav data-role="guide-nav" aria-label="Guide navigation">
+<a href="${SITE_INDEX_FILE}">All guides</a>
+${prev ? link(prev, "prev") : ""}
+${next ? link(next, "next") : ""}
+</nav>`;
+}
+
+/** Links to the same page in the other languages; `hrefFor` returns null where there is no such page. */
+function languageSwitcherHtml(
+  languages: Array<{ lang: string | null; label: string }>,
+  current: string | null,
+  hrefFor: (lang: string | null) => string | null
+) {
+  const items = languages
+    .map(({ lang, label }) => {
+      if (lang === current) return `<strong aria-current="page">${escapeHtml(label)}</strong>`;
+      const href = hrefFor(lang);
+      return href ? `<a href="${href}"${lang ? ` hreflang="${escapeHtml(lang)}"` : ""}>${escapeHtml(label)}</a>` : "";
+    })
+    .filter(Boolean);
+  if (items.length < 2) return "";
+  return `<nav data-role="language-switcher" aria-label="Language">\n${items.join("\n")}\n</nav>\n`;
+}
+
+function indexBodyHtml(groups: Array<{ folder: string; guides: IndexedGuide[] }>, total: number) {
+  const sections = groups
+    .map(({ folder, guides }) => {
+      const items = guides
+        .map((g) => {
+          const failed = g.status === "error" ? ` <em>(conversion failed)</em>` : "";
+          const description = g.description ? `<br><small>${escapeHtml(g.description)}</small>` : "";
+          return `<li><a href="${encodeURIComponent(g.outputFile)}">${escapeHtml(g.heading)}</a>${failed}${description}</li>`;
+        })
+        .join("\n");
+      const heading = folder ? `<h2>${escapeHtml(folder)}</h2>\n` : "";
+      return `<section>\n${heading}<ul>\n${items}\n</ul>\n</section>`;
+    })
+    .join("\n");
+  return `<h1>Guides</h1>
+<p>${total} guide${total === 1 ? "" : "s"}</p>
+${sections}`;
+}
+
+/**
+ * Guides grouped by folder (top level first, then alphabetically), keeping the given order within a
+ * folder. The index page, prev/next links and bundled exports all follow this order.
+ */
+export function groupGuidesByFolder<T extends SiteGuide>(guides: T[]) {
+  const folders = [...new Set(guides.map(folderOf))].sort((a, b) =>
+    a === "" ? -1 : b === "" ? 1 : a.localeCompare(b)
+  );
+  return folders.map((folder) => ({ folder, guides: guides.filter((g) => folderOf(g) === folder) }));
+}
+
+/**
+ * Writes `index.html` and navigable copies of the guides into `siteDir`, in `groupGuidesByFolder`
+ * order, plus the same for every language in `translations` under `siteDir/<lang>/`.
+ */
+export async function buildGuideSite(opts: {
+  guidesDir: string;
+  siteDir: string;
+  guides: SiteGuide[];
+  theme: GuideTheme;
+  branding?: GuideBranding;
+  /** Language of the guides, for the pages' `lang` attribute. */
+  lang?: string;
+  /** Languages guides were translated into, in switcher order. */
+  translations?: string[];
+}) {
+  const page = (title: string, bodyHtml: string, lang = opts.lang) =>
+    renderThemedDocument({ theme: opts.theme, branding: opts.branding, title, bodyHtml, lang });
+  await ensureDir(opts.siteDir);
+
+  const indexed: IndexedGuide[] = [];
+  const bodies = new Map<string, string>();
+  for (const g of opts.guides) {
+    const html = await fs.readFile(safeJoin(opts.guidesDir, g.outputFile), "utf8");
+    bodies.set(g.outputFile, html);
+    const description = g.description || summarizeGuideHtml(html).description;
+    indexed.push({
+      ...g,
+      heading: g.title,
+      description: g.status === "error" ? g.error || "" : truncateAtWord(description, DESCRIPTION_MAX_CHARS),
+    });
+  }
+
+  const groups = groupGuidesByFolder(indexed);
+  const ordered = groups.flatMap((g) => g.guides);
+  const translated = (g: SiteGuide, lang: string) => g.translations?.[lang]?.status === "ok";
+  const languages = [
+    { lang: null, label: opts.lang ? languageName(opts.lang, opts.lang) : "Original" },
+    ...(opts.translations ?? [])
+      .filter((lang) => opts.guides.some((g) => translated(g, lang)))
+      .map((lang) => ({ lang, label: languageName(lang, lang) })),
+  ];
+
+  for (const [i, g] of ordered.entries()) {
+    const nav = navHtml(ordered[i - 1] ?? null, ordered[i + 1] ?? null);
+    const switcher = languageSwitcherHtml(languages, null, (lang) =>
+      lang && translated(g, lang) ? `${lang}/${encodeURIComponent(g.outputFile)}` : null
+    );
+    const html = page(g.heading, `${switcher}${nav}\n${bodies.get(g.outputFile) ?? ""}\n${nav}`);
+    await fs.writeFile(safeJoin(opts.siteDir, g.outputFile), html, "utf8");
+  }
+  const indexSwitcher = languageSwitcherHtml(languages, null, (lang) => `${lang}/${SITE_INDEX_FILE}`);
+  const index = page("Guides", `${indexSwitcher}${indexBodyHtml(groups, ordered.length)}`);
+  await fs.writeFile(path.join(opts.siteDir, SITE_INDEX_FILE), index, "utf8");
+
+  // Each language folder mirrors the root with the guides that were translated; links to a guide
+  // without a translation go to the original one level up.
+  for (const { lang } of languages) {
+    if (!lang) continue;
+    const langDir = path.join(opts.siteDir, lang);
+    await ensureDir(langDir);
+    const langGroups = groups
+      .map(({ folder, guides }) => ({
+        folder,
+        guides: guides
+          .filter((g) => translated(g, lang))
+          .map((g) => ({
+            ...g,
+            heading: g.translations![lang].title || g.heading,
+            description: truncateAtWord(g.translations![lang].description || "", DESCRIPTION_MAX_CHARS),
+          })),
+      }))
+      .filter((group) => group.guides.length);
+    const langOrdered = langGroups.flatMap((group) => group.guides);
+    const hrefFor = (g: SiteGuide) => (other: string | null) =>
+      other === null
+        ? `../${encodeURIComponent(g.outputFile)}`
+        : translated(g, other)
+          ? `../${other}/${encodeURIComponent(g.outputFile)}`
+          : null;
+
+    for (const [i, g] of langOrdered.entries()) {
+      const root = parseGuideFragment(
+        await fs.readFile(safeJoin(opts.guidesDir, g.translations![lang].outputFile), "utf8")
+      );
+      retargetGuideLinks(root, (file) => {
+        const target = opts.guides.find((x) => x.outputFile === file);
+        return target && !translated(target, lang) ? `../${file}` : null;
+      });
+      const nav = navHtml(langOrdered[i - 1] ?? null, langOrdered[i + 1] ?? null);
+      const switcher = languageSwitcherHtml(languages, lang, hrefFor(g));
+      const html = page(g.heading, `${switcher}${nav}\n${root.innerHTML}\n${nav}`, lang);
+      await fs.writeFile(safeJoin(langDir, g.outputFile), html, "utf8");
+    }
+    const langSwitcher = languageSwitcherHtml(languages, lang, (other) =>
+      other === null ? `../${SITE_INDEX_FILE}` : `../${other}/${SITE_INDEX_FILE}`
+    );
+    const langIndex = page("Guides", `${langSwitcher}${indexBodyHtml(langGroups, langOrdered.length)}`, lang);
+    await fs.writeFile(path.join(langDir, SITE_INDEX_FILE), langIndex, "utf8");
+  }
+  return { indexFile: SITE_INDEX_FILE, pages: ordered.map((g) => g.outputFile) };
+}
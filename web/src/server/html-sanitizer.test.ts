@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isSanitizeReportEmpty, sanitizeHtmlFragment } from "@/server/html-sanitizer";
+
+function sanitize(html: string) {
+  return sanitizeHtmlFragment(html).html;
+}
+
+test("removes scripts with their content and event handlers", () => {
+  const { html, report } = sanitizeHtmlFragment(
+    `<p onclick="steal()">Hi<script>alert(1)</script></p><img src="a.png" onerror="steal()" OnLoad="x()">`
+  );
+  assert.equal(html, `<p>Hi</p><img src="a.png">`);
+  assert.deepEqual(report.removedElements, { script: 1 });
+  assert.deepEqual(report.removedAttributes, { "p[onclick]": 1, "img[onerror]": 1, "img[onload]": 1 });
+});
+
+test("blocks script URLs, including entity- and whitespace-obfuscated schemes", () => {
+  for (const href of [
+    "javascript:alert(1)",
+    "JavaScript:alert(1)",
+    "vbscript:msgbox(1)",
+    "&#106;avascript:alert(1)",
+    "&#x6A;&#x61;vascript:alert(1)",
+    "java\tscript:alert(1)",
+    "java&#10;script:alert(1)",
+    " \u0001javascript:alert(1)",
+  ]) {
+    const { html, report } = sanitizeHtmlFragment(`<a href="${href}">x</a>`);
+    assert.equal(html, "<a>x</a>", href);
+    assert.equal(Object.keys(report.blockedUrls).length, 1, href);
+  }
+});
+
+test("keeps data: URLs only for base64 images in img src", () => {
+  const png = "data:image/png;base64,iVBORw0KGgo=";
+  assert.equal(sanitize(`<img src="${png}" alt="dot">`), `<img src="${png}" alt="dot">`);
+  for (const html of [
+    `<img src="data:image/svg+xml;base64,PHN2Zz4=">`,
+    `<img src="data:text/html,<script>alert(1)</script>">`,
+    `<a href="data:text/html;base64,PHNjcmlwdD4=">x</a>`,
+    `<a href="${png}">x</a>`,
+  ]) {
+    const { html: out, report } = sanitizeHtmlFragment(html);
+    assert.doesNotMatch(out, /data:/, html);
+    assert.deepEqual(report.blockedUrls, { "data:": 1 }, html);
+  }
+});
+
+test("removes frames, plugins, styles and srcdoc", () => {
+  const { html, report } = sanitizeHtmlFragment(
+    `<iframe src="https://example.com"></iframe><object data="x.swf"><embed src="x.swf"></object>` +
+      `<style>body{display:none}</style><p>Kept</p><iframe srcdoc="<script>alert(1)</script>"></iframe>`
+  );
+  assert.equal(html, "<p>Kept</p>");
+  assert.deepEqual(report.removedElements, { iframe: 2, object: 1, style: 1 });
+});
+
+test("removes srcdoc and inline styles even from allowed tags", () => {
+  const { html, report } = sanitizeHtmlFragment(`<div srcdoc="<b>x</b>" style="color:red">Text</div>`);
+  assert.equal(html, "<div>Text</div>");
+  assert.deepEqual(report.removedAttributes, { "div[srcdoc]": 1, "div[style]": 1 });
+});
+
+test("unwraps unknown elements but keeps their text", () => {
+  const { html, report } = sanitizeHtmlFragment(`<p><font color="red">Warning</font> text</p>`);
+  assert.equal(html, "<p>Warning text</p>");
+  assert.deepEqual(report.unwrappedElements, { font: 1 });
+});
+
+test("leaves allowed markup unchanged", () => {
+  const html = [
+    `<article data-generator="local-fallback"><h1 id="intro">Guide</h1>`,
+    `<p class="lead">Read <a href="https://example.com/docs?a=1&b=2" title="Docs">the docs</a> or `,
+    `<a href="mailto:help@example.com">mail us</a>.</p>`,
+    `<ol start="3"><li><strong>Open</strong> the <code>settings</code></li></ol>`,
+    `<table><thead><tr><th scope="col">A</th></tr></thead><tbody><tr><td colspan="2">1</td></tr></tbody></table>`,
+    `<details open><summary>More</summary><p aria-label="note">Hidden</p></details>`,
+    `<img src="images/step-1.png" alt="Step 1"><a href="#intro">Top</a><a href="other.html">Next</a></article>`,
+  ].join("");
+  const { html: out, report } = sanitizeHtmlFragment(html);
+  assert.equal(out, html);
+  assert.ok(isSanitizeReportEmpty(report));
+});
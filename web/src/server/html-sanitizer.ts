@@ -0,0 +1,158 @@
+import { parseHTML } from "linkedom";
+
+/**
+ * Allowlist sanitizer for HTML that comes back from a model. Guides are rendered with
+ * `dangerouslySetInnerHTML` and in the preview iframe, so a prompt-injected document must not be able
+ * to get scripts, event handlers, `javascript:` links or embedded frames through the rewrite.
+ *
+ * Tags and attributes can be replaced with `HTML_ALLOWED_TAGS` / `HTML_ALLOWED_ATTRIBUTES`
+ * (comma-separated; attributes as `attr` for every tag or `tag:attr`, with `prefix-*` wildcards).
+ * Scripts, frames, plugins, `on*` handlers and unsafe URLs are removed even if listed there.
+ */
+
+export type HtmlAllowlist = {
+  tags: Set<string>;
+  /** Allowed attributes per tag; "*" applies to every tag. Entries ending in "*" match by prefix. */
+  attributes: Map<string, string[]>;
+};
+
+/** What was removed from one fragment; every map is keyed by name with a count. */
+export type SanitizeReport = {
+  /** Elements removed together with their content, e.g. `script`. */
+  removedElements: Record<string, number>;
+  /** Elements not on the allowlist that were dropped but whose content was kept, e.g. `font`. */
+  unwrappedElements: Record<string, number>;
+  /** Attributes removed, as `tag[attr]`, e.g. `a[onclick]`. */
+  removedAttributes: Record<string, number>;
+  /** `href`/`src` values removed for an unsafe scheme, by scheme, e.g. `javascript:`. */
+  blockedUrls: Record<string, number>;
+};
+
+const DEFAULT_TAGS = [
+  "article", "section", "header", "footer", "aside", "nav", "div", "span", "p", "br", "hr",
+  "h1", "h2", "h3", "h4", "h5", "h6", "strong", "b", "em", "i", "u", "s", "del", "ins", "mark", "small",
+  "sub", "sup", "code", "pre", "kbd", "samp", "var", "blockquote", "q", "cite", "abbr", "time",
+  "ul", "ol", "li", "dl", "dt", "dd", "table", "caption", "colgroup", "col", "thead", "tbody", "tfoot",
+  "tr", "th", "td", "figure", "figcaption", "img", "a", "details", "summary",
+];
+
+const DEFAULT_ATTRIBUTES = [
+  "class", "id", "title", "lang", "dir", "role", "aria-*", "data-*",
+  "a:href", "a:name", "img:src", "img:alt", "img:width", "img:height",
+  "th:colspan", "th:rowspan", "th:scope", "td:colspan", "td:rowspan", "col:span", "colgroup:span",
+  "ol:start", "ol:type", "ol:reversed", "li:value", "time:datetime", "blockquote:cite", "q:cite",
+  "details:open",
+];
+
+// Never kept, whatever the allowlist says; removed together with their content.
+const FORBIDDEN_TAGS = new Set([
+  "script", "style", "iframe", "frame", "frameset", "object", "embed", "applet", "base", "link", "meta",
+]);
+
+// Not on the allowlist and their content is not readable text either, so it goes too.
+const DROP_CONTENT_TAGS = new Set([
+  ...FORBIDDEN_TAGS, "template", "noscript", "textarea", "select", "option", "title", "head", "svg", "math",
+]);
+
+const FORBIDDEN_ATTRIBUTES = new Set(["srcdoc", "formaction", "action", "xlink:href"]);
+const URL_ATTRIBUTES = new Set(["href", "src", "cite", "poster", "background", "longdesc"]);
+const SAFE_URL_SCHEMES = new Set(["http:", "https:", "mailto:", "tel:"]);
+const SAFE_DATA_IMAGE_RE = /^data:image\/(?:png|gif|jpe?g|webp);base64,[a-z0-9+/=\s]*$/i;
+
+function parseList(raw: string | undefined, fallback: string[]) {
+  const items = (raw || "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  return items.length ? items : fallback;
+}
+
+/** Builds an allowlist from tag names and `attr` / `tag:attr` entries. */
+export function createHtmlAllowlist(tags: string[], attributes: string[]): HtmlAllowlist {
+  const byTag = new Map<string, string[]>();
+  for (const entry of attributes) {
+    const sep = entry.indexOf(":");
+    const tag = sep > 0 ? entry.slice(0, sep) : "*";
+    const attr = sep > 0 ? entry.slice(sep + 1) : entry;
+    byTag.set(tag, [...(byTag.get(tag) || []), attr]);
+  }
+  return { tags: new Set(tags.filter((t) => !FORBIDDEN_TAGS.has(t))), attributes: byTag };
+}
+
+export const HTML_ALLOWLIST = createHtmlAllowlist(
+  parseList(process.env.HTML_ALLOWED_TAGS, DEFAULT_TAGS),
+  parseList(process.env.HTML_ALLOWED_ATTRIBUTES, DEFAULT_ATTRIBUTES)
+);
+
+function attributeAllowed(allowlist: HtmlAllowlist, tag: string, attr: string) {
+  if (/^on/i.test(attr) || FORBIDDEN_ATTRIBUTES.has(attr)) return false;
+  const patterns = [...(allowlist.attributes.get("*") || []), ...(allowlist.attributes.get(tag) || [])];
+  return patterns.some((p) => (p.endsWith("*") ? attr.startsWith(p.slice(0, -1)) : attr === p));
+}
+
+/** The scheme that makes a URL unsafe (e.g. "javascript:"), or null when it may be kept. */
+function blockedScheme(tag: string, attr: string, value: string) {
+  // Browsers ignore control characters and whitespace inside a scheme ("java\tscript:").
+  const compact = value.replace(/[\u0000- \u007f-\u009f]/g, "");
+  const scheme = compact.match(/^([a-z][a-z0-9+.-]*:)/i)?.[1].toLowerCase();
+  if (!scheme || SAFE_URL_SCHEMES.has(scheme)) return null;
+  if (scheme === "data:" && tag === "img" && attr === "src" && SAFE_DATA_IMAGE_RE.test(value.trim())) return null;
+  return scheme;
+}
+
+export function isSanitizeReportEmpty(report: SanitizeReport) {
+  return Object.values(report).every((counts) => !Object.keys(counts).length);
+}
+
+/** Removes everything not on the allowlist from a fragment and reports what was removed. */
+export function sanitizeHtmlFragment(html: string, allowlist: HtmlAllowlist = HTML_ALLOWLIST) {
+  const report: SanitizeReport = {
+    removedElements: {},
+    unwrappedElements: {},
+    removedAttributes: {},
+    blockedUrls: {},
+  };
+  const count = (map: Record<string, number>, name: string) => (map[name] = (map[name] || 0) + 1);
+  const { document } = parseHTML(`<!doctype html><html><head></head><body>${html}</body></html>`);
+  const root = document.body as unknown as Element;
+
+  const visit = (parent: Node) => {
+    for (const node of Array.from(parent.childNodes)) {
+      if (node.nodeType === 3) continue;
+      if (node.nodeType !== 1) {
+        // Comments (including IE conditional comments) and other non-element nodes.
+        node.parentNode?.removeChild(node);
+        continue;
+      }
+      const el = node as Element;
+      const tag = el.tagName.toLowerCase();
+      if (DROP_CONTENT_TAGS.has(tag) && !allowlist.tags.has(tag)) {
+        count(report.removedElements, tag);
+        el.remove();
+        continue;
+      }
+      visit(el);
+      if (!allowlist.tags.has(tag)) {
+        count(report.unwrappedElements, tag);
+        while (el.firstChild) parent.insertBefore(el.firstChild, el);
+        el.remove();
+        continue;
+      }
+      for (const { name, value } of Array.from(el.attributes)) {
+        const attr = name.toLowerCase();
+        if (!attributeAllowed(allowlist, tag, attr)) {
+          count(report.removedAttributes, `${tag}[${attr}]`);
+          el.removeAttribute(name);
+          continue;
+        }
+        const scheme = URL_ATTRIBUTES.has(attr) ? blockedScheme(tag, attr, value) : null;
+        if (scheme) {
+          count(report.blockedUrls, scheme);
+          el.removeAttribute(name);
+        }
+      }
+    }
+  };
+  visit(root);
+  return { html: root.innerHTML.trim(), report };
+}
@@ -0,0 +1,312 @@
+import { errorToObject, maskSecret, type Logger } from "@/server/logger";
+import {
+  isLikelyAuthOrBadRequest,
+  sleep,
+  withRetries,
+  type LlmGenerateRequest,
+  type LlmModelInfo,
+  type LlmProvider,
+} from "@/server/llm/provider";
+
+type GeminiVersion = "v1" | "v1beta";
+
+type GeminiModel = {
+  name?: string;
+  supportedGenerationMethods?: string[];
+  displayName?: string;
+};
+
+type ResolvedModel = { model: string; version: GeminiVersion; source: "env" | "autodetect" | "request" };
+
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com";
+const GEMINI_MIN_DELAY_MS = Number(process.env.GEMINI_MIN_DELAY_MS || 1200);
+
+function geminiEnv() {
+  const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
+  const keySource = process.env.GEMINI_API_KEY ? "GEMINI_API_KEY" : process.env.GOOGLE_API_KEY ? "GOOGLE_API_KEY" : null;
+  return {
+    apiKey,
+    keySource,
+    configuredModel: process.env.GEMINI_MODEL || null,
+    configuredVersion: (process.env.GEMINI_API_VERSION as GeminiVersion | undefined) || null,
+  };
+}
+
+function isGeminiQuotaOrBillingError(e: unknown) {
+  const msg = e instanceof Error ? e.message : String(e);
+  // Generative Language API often returns 429 for "quota/billing" as well as "rate limit".
+  // We treat this as "try a different model if available" (some models are free-tier eligible).
+  return /\b429\b/.test(msg) && /quota|billing|plan/i.test(msg);
+}
+
+// Gemini free-tier protection: ensure requests are serialized + spaced out.
+let geminiQueue: Promise<void> = Promise.resolve();
+let geminiLastStartedAt = 0;
+async function scheduleGeminiRequest<T>(fn: () => Promise<T>): Promise<T> {
+  let out: T | undefined;
+  let err: unknown = null;
+
+  geminiQueue = geminiQueue.then(async () => {
+    const waitMs = Math.max(0, geminiLastStartedAt + GEMINI_MIN_DELAY_MS - Date.now());
+    if (waitMs > 0) await sleep(waitMs);
+    geminiLastStartedAt = Date.now();
+    try {
+      out = await fn();
+    } catch (e) {
+      err = e;
+    }
+  });
+
+  await geminiQueue;
+  if (err) throw err;
+  if (typeof out === "undefined") throw new Error("Gemini request scheduling failed");
+  return out;
+}
+
+async function listGeminiModels(apiKey: string, version: GeminiVersion) {
+  const url = new URL(`/${version}/models`, GEMINI_BASE_URL);
+  url.searchParams.set("key", apiKey);
+  const res = await fetch(url.toString(), { method: "GET" });
+  const txt = await res.text().catch(() => "");
+  if (!res.ok) throw new Error(`Gemini ListModels ${version} failed ${res.status}: ${txt.slice(0, 300)}`);
+  const json: unknown = JSON.parse(txt);
+  return ((json as { models?: GeminiModel[] })?.models || []).filter(Boolean);
+}
+
+function pickBestModel(models: GeminiModel[]) {
+  const supports = (m: GeminiModel, method: string) => (m.supportedGenerationMethods || []).includes(method);
+  const name = (m: GeminiModel) => m.name || "";
+  const eligible = models.filter((m) => supports(m, "generateContent"));
+  const byPref = (prefs: RegExp[]) => eligible.find((m) => prefs.every((re) => re.test(name(m)))) || null;
+  return (
+    // Prefer 2.5 Flash-Lite first (we've observed some keys get 429 on 2.0 flash-lite while 2.5 works)
+    byPref([/gemini/i, /2\.5/i, /flash/i, /lite/i]) ||
+    // Then 2.5 Flash
+    byPref([/gemini/i, /2\.5/i, /flash/i]) ||
+    // Then other Flash-Lite variants
+    byPref([/gemini/i, /flash/i, /lite/i]) ||
+    // Then prefer newer flash models
+    byPref([/gemini/i, /2\./i, /flash/i]) ||
+    byPref([/gemini/i, /1\./i, /flash/i]) ||
+    eligible[0] ||
+    null
+  );
+}
+
+/** Picks the best generateContent model, preferring v1 and falling back to v1beta if v1 ListModels fails. */
+async function autodetectModel(apiKey: string, preferredVersion: GeminiVersion) {
+  let version = preferredVersion;
+  let models: GeminiModel[];
+  try {
+    models = await listGeminiModels(apiKey, version);
+  } catch {
+    version = "v1beta";
+    models = await listGeminiModels(apiKey, version);
+  }
+  const model = pickBestModel(models)?.name?.replace(/^models\//, "") || null;
+  return model ? { model, version } : null;
+}
+
+function requestBody(req: LlmGenerateRequest) {
+  return JSON.stringify({
+    contents: [
+      {
+        role: "user",
+        parts: [{ text: req.system ? `${req.system}\n\n${req.prompt}` : req.prompt }],
+      },
+    ],
+    generationConfig: {
+      temperature: req.temperature ?? 0.2,
+      ...(req.json ? { responseMimeType: "application/json" } : null),
+    },
+  });
+}
+
+function candidateText(json: unknown) {
+  const candidates =
+    (json as { candidates?: Array<{ content?: { parts?: Array<{ text?: unknown }> } }> })?.candidates || [];
+  return candidates
+    .flatMap((c) => c.content?.parts || [])
+    .map((p) => (typeof p.text === "string" ? p.text : ""))
+    .join("");
+}
+
+async function* sseTextChunks(body: ReadableStream<Uint8Array>) {
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffered += decoder.decode(chunk, { stream: true });
+    let idx: number;
+    while ((idx = buffered.indexOf("\n")) >= 0) {
+      const line = buffered.slice(0, idx).trim();
+      buffered = buffered.slice(idx + 1);
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice(5).trim();
+      if (!payload || payload === "[DONE]") continue;
+      const text = candidateText(JSON.parse(payload));
+      if (text) yield text;
+    }
+  }
+}
+
+export function createGeminiProvider(): LlmProvider {
+  // ListModels on every call adds latency and counts against free-tier limits; cache per process.
+  let autodetected: { model: string; version: GeminiVersion } | null = null;
+
+  const resolveModel = async (apiKey: string, override?: string): Promise<ResolvedModel> => {
+    const { configuredModel, configuredVersion } = geminiEnv();
+    const version: GeminiVersion = configuredVersion || "v1";
+    if (override) return { model: override, version, source: "request" };
+    if (configuredModel) return { model: configuredModel, version, source: "env" };
+    autodetected ??= await autodetectModel(apiKey, version);
+    if (!autodetected) throw new Error("No Gemini model found that supports generateContent");
+    return { ...autodetected, source: "autodetect" };
+  };
+
+  const callWith = async (apiKey: string, resolved: ResolvedModel, req: LlmGenerateRequest, log?: Logger) => {
+    const { model, version, source } = resolved;
+    const { keySource, configuredModel, configuredVersion } = geminiEnv();
+    const url = new URL(`/${version}/models/${encodeURIComponent(model)}:generateContent`, GEMINI_BASE_URL);
+    url.searchParams.set("key", apiKey);
+    const purpose = req.purpose || "generate";
+    // Free tier is extremely sensitive to burst traffic; keep retries low.
+    const maxAttempts = req.maxAttempts ?? 2;
+
+    return await withRetries({
+      provider: "gemini",
+      purpose,
+      maxAttempts,
+      log,
+      onAttempt: async (attempt) => {
+        const startedAt = Date.now();
+        console.log(`[API Call] Gemini ${purpose} - Attempt ${attempt}/${maxAttempts} - Model: ${model}`);
+        log?.info("llm: attempt start", {
+          provider: "gemini",
+          purpose,
+          api: "Google Generative Language API",
+          url: url.toString(),
+          attempt,
+          maxAttempts,
+          model,
+          version,
+          modelSource: source,
+          configuredModel,
+          configuredVersion,
+          keySource,
+          apiKey: maskSecret(apiKey),
+          promptChars: req.prompt.length,
+        });
+
+        const res = await scheduleGeminiRequest(() =>
+          fetch(url.toString(), {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: requestBody(req),
+          })
+        );
+        if (!res.ok) {
+          const txt = await res.text().catch(() => "");
+          throw new Error(`Gemini error ${res.status}: ${txt.slice(0, 300)}`);
+        }
+
+        const json: unknown = await res.json().catch(() => null);
+        const text = candidateText(json).trim();
+        if (!text) throw new Error("Empty Gemini output");
+        req.validate?.(text);
+        log?.info("llm: attempt success", {
+          provider: "gemini",
+          purpose,
+          attempt,
+          model,
+          durationMs: Date.now() - startedAt,
+          outputChars: text.length,
+        });
+        return { text, provider: "gemini", model };
+      },
+    });
+  };
+
+  const requireKey = () => {
+    const { apiKey } = geminiEnv();
+    if (!apiKey) throw new Error("Gemini API key missing (set GEMINI_API_KEY or GOOGLE_API_KEY)");
+    return apiKey;
+  };
+
+  return {
+    id: "gemini",
+    label: "Gemini",
+    external: true,
+    isConfigured: () => !!geminiEnv().apiKey,
+    modelSpec: () => {
+      const { configuredModel, configuredVersion } = geminiEnv();
+      return `${configuredVersion || "v1"}|${configuredModel || "auto"}`;
+    },
+    describe: () => {
+      const { apiKey, keySource, configuredModel, configuredVersion } = geminiEnv();
+      return {
+        keySource,
+        apiKey: maskSecret(apiKey),
+        model: configuredModel || autodetected?.model || "autodetect",
+        version: configuredVersion || autodetected?.version || "v1",
+      };
+    },
+    generate: async (req) => {
+      const apiKey = requireKey();
+      const resolved = await resolveModel(apiKey, req.model);
+      try {
+        return await callWith(apiKey, resolved, req, req.log);
+      } catch (e) {
+        // If the model was forced via env and appears quota-blocked, try a different eligible model.
+        if (resolved.source !== "env" || !(isGeminiQuotaOrBillingError(e) || isLikelyAuthOrBadRequest(e))) throw e;
+        req.log?.warn("llm: gemini configured model failed; trying autodetect alternative", {
+          configuredModel: resolved.model,
+          error: errorToObject(e),
+        });
+        try {
+          const alt = await autodetectModel(apiKey, resolved.version);
+          if (alt && alt.model !== resolved.model) {
+            req.log?.info("llm: gemini switching models", { from: resolved.model, to: alt.model, version: alt.version });
+            return await callWith(apiKey, { ...alt, source: "autodetect" }, req, req.log);
+          }
+        } catch (e2) {
+          req.log?.warn("llm: gemini alternative model attempt failed", { error: errorToObject(e2) });
+        }
+        throw e;
+      }
+    },
+    stream: async (req) => {
+      const apiKey = requireKey();
+      const { model, version } = await resolveModel(apiKey, req.model);
+      const url = new URL(`/${version}/models/${encodeURIComponent(model)}:streamGenerateContent`, GEMINI_BASE_URL);
+      url.searchParams.set("alt", "sse");
+      url.searchParams.set("key", apiKey);
+      req.log?.info("llm: stream start", { provider: "gemini", purpose: req.purpose || "stream", model, version });
+      const res = await scheduleGeminiRequest(() =>
+        fetch(url.toString(), { method: "POST", headers: { "content-type": "application/json" }, body: requestBody(req) })
+      );
+      if (!res.ok || !res.body) {
+        const txt = await res.text().catch(() => "");
+        throw new Error(`Gemini error ${res.status}: ${txt.slice(0, 300)}`);
+      }
+      return { provider: "gemini", model, textStream: sseTextChunks(res.body) };
+    },
+    listModels: async (): Promise<LlmModelInfo[]> => {
+      const apiKey = requireKey();
+      const { configuredVersion } = geminiEnv();
+      const versions: GeminiVersion[] = configuredVersion ? [configuredVersion] : ["v1", "v1beta"];
+      const seen = new Map<string, LlmModelInfo>();
+      for (const v of versions) {
+        try {
+          for (const m of await listGeminiModels(apiKey, v)) {
+            if (!(m.supportedGenerationMethods || []).includes("generateContent")) continue;
+            const id = (m.name || "").replace(/^models\//, "");
+            if (id && !seen.has(id)) seen.set(id, { id, displayName: m.displayName });
+          }
+        } catch {
+          // ignore version failures
+        }
+      }
+      return Array.from(seen.values());
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { generateText, Output, streamText } from "ai";
+import { maskSecret } from "@/server/logger";
+import { withRetries, type LlmGenerateRequest, type LlmModelInfo, type LlmProvider } from "@/server/llm/provider";
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// Schema-less JSON mode for `json` requests: the SDK sends `response_format: { type: "json_object" }`
+// (Chat Completions) or `text.format` (Responses) and hands back the raw text for `validate`.
+const JSON_OUTPUT = { ...Output.text(), responseFormat: { type: "json" as const } };
+
+type OpenAiProviderConfig = {
+  id: string;
+  label: string;
+  external: boolean;
+  /** Env is read per request so config changes don't need a restart of long-lived workers. */
+  env: () => { apiKey?: string; baseURL?: string; model?: string };
+  /** A base URL alone is enough for servers that don't check keys (llama.cpp, Ollama). */
+  requiresApiKey: boolean;
+  /**
+   * OpenAI itself is called through the Responses API; OpenAI-compatible servers generally only
+   * implement Chat Completions.
+   */
+  api: "responses" | "chat";
+  defaultModel?: string;
+  defaultMaxAttempts: number;
+};
+
+/**
+ * Builds a provider for OpenAI or any server exposing the OpenAI HTTP API (vLLM, llama.cpp server,
+ * Ollama, LM Studio, Azure-style proxies, ...).
+ */
+export function createOpenAiProvider(config: OpenAiProviderConfig): LlmProvider {
+  let autodetectedModel: string | null = null;
+
+  const client = () => {
+    const { apiKey, baseURL } = config.env();
+    // The SDK insists on a key; local servers accept any placeholder.
+    return createOpenAI({ apiKey: apiKey || "not-needed", baseURL: baseURL || undefined });
+  };
+
+  const listModels = async (): Promise<LlmModelInfo[]> => {
+    const { apiKey, baseURL } = config.env();
+    const url = `${(baseURL || OPENAI_BASE_URL).replace(/\/+$/, "")}/models`;
+    const res = await fetch(url, { headers: apiKey ? { authorization: `Bearer ${apiKey}` } : {} });
+    const txt = await res.text().catch(() => "");
+    if (!res.ok) throw new Error(`${config.label} ListModels failed ${res.status}: ${txt.slice(0, 300)}`);
+    const json: unknown = JSON.parse(txt);
+    return ((json as { data?: Array<{ id?: unknown }> })?.data || [])
+      .map((m) => (typeof m.id === "string" ? { id: m.id } : null))
+      .filter((m): m is LlmModelInfo => !!m);
+  };
+
+  const resolveModel = async (override?: string) => {
+    if (override) return override;
+    const configured = config.env().model || config.defaultModel;
+    if (configured) return configured;
+    // Local servers usually serve a single model; use whatever they report first.
+    if (!autodetectedModel) autodetectedModel = (await listModels())[0]?.id || null;
+    if (!autodetectedModel) throw new Error(`${config.label}: no model configured and none reported by the server`);
+    return autodetectedModel;
+  };
+
+  const languageModel = (modelId: string) => {
+    const c = client();
+    return config.api === "chat" ? c.chat(modelId) : c(modelId);
+  };
+
+  const assertConfigured = () => {
+    if (!provider.isConfigured()) throw new Error(`${config.label} is not configured`);
+  };
+
+  const provider: LlmProvider = {
+    id: config.id,
+    label: config.label,
+    external: config.external,
+    isConfigured: () => {
+      const { apiKey, baseURL } = config.env();
+      return config.requiresApiKey ? !!apiKey : !!baseURL;
+    },
+    modelSpec: () => {
+      const { baseURL, model } = config.env();
+      return `${baseURL || OPENAI_BASE_URL}|${model || config.defaultModel || "auto"}`;
+    },
+    describe: () => {
+      const { apiKey, baseURL, model } = config.env();
+      return {
+        baseURL: baseURL || OPENAI_BASE_URL,
+        model: model || config.defaultModel || autodetectedModel || "autodetect",
+        apiKey: maskSecret(apiKey),
+        api: config.api,
+      };
+    },
+    generate: async (req: LlmGenerateRequest) => {
+      assertConfigured();
+      const model = await resolveModel(req.model);
+      const purpose = req.purpose || "generate";
+      const maxAttempts = req.maxAttempts ?? config.defaultMaxAttempts;
+      return await withRetries({
+        provider: config.id,
+        purpose,
+        maxAttempts,
+        log: req.log,
+        onAttempt: async (attempt) => {
+          const startedAt = Date.now();
+          console.log(`[API Call] ${config.label} ${purpose} - Attempt ${attempt}/${maxAttempts} - Model: ${model}`);
+          req.log?.info("llm: attempt start", {
+            provider: config.id,
+            purpose,
+            attempt,
+            maxAttempts,
+            model,
+            baseURL: config.env().baseURL || OPENAI_BASE_URL,
+            promptChars: req.prompt.length,
+          });
+          const result = await generateText({
+            model: languageModel(model),
+            system: req.system,
+            prompt: req.prompt,
+            temperature: req.temperature,
+            ...(req.json ? { experimental_output: JSON_OUTPUT } : null),
+          });
+          const text = (result.text || "").trim();
+          if (!text) throw new Error("Empty model output");
+          req.validate?.(text);
+          req.log?.info("llm: attempt success", {
+            provider: config.id,
+            purpose,
+            attempt,
+            model,
+            durationMs: Date.now() - startedAt,
+            outputChars: text.length,
+          });
+          return { text, provider: config.id, model };
+        },
+      });
+    },
+    stream: async (req: LlmGenerateRequest) => {
+      assertConfigured();
+      const model = await resolveModel(req.model);
+      req.log?.info("llm: stream start", { provider: config.id, purpose: req.purpose || "stream", model });
+      const result = streamText({
+        model: languageModel(model),
+        system: req.system,
+        prompt: req.prompt,
+        temperature: req.temperature,
+        ...(req.json ? { experimental_output: JSON_OUTPUT } : null),
+      });
+      return { provider: config.id, model, textStream: result.textStream };
+    },
+    listModels,
+  };
+  return provider;
+}
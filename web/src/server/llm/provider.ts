@@ -0,0 +1,100 @@
+import { errorToObject, type Logger } from "@/server/logger";
+
+export type LlmGenerateRequest = {
+  system?: string;
+  prompt: string;
+  temperature?: number;
+  /** Overrides the provider's configured (or autodetected) model for this request. */
+  model?: string;
+  /** Attempts for transient failures. Rate-limit and auth/config errors are never retried. */
+  maxAttempts?: number;
+  /** Short label for logs, e.g. "rewrite" or "html-edit". */
+  purpose?: string;
+  /** Ask for a JSON answer. Providers with a native JSON mode use it; the prompt must still describe the shape. */
+  json?: boolean;
+  /**
+   * Throws to reject an answer (e.g. JSON that doesn't match a schema). A rejected answer counts as a
+   * failed attempt, so it is retried and then handed to the next provider.
+   */
+  validate?: (text: string) => void;
+  log?: Logger;
+};
+
+export type LlmGenerateResult = { text: string; provider: string; model: string };
+
+export type LlmStreamResult = { provider: string; model: string; textStream: AsyncIterable<string> };
+
+export type LlmModelInfo = { id: string; displayName?: string };
+
+/**
+ * Common surface for every LLM backend. Providers own their key handling, model selection and
+ * retries so callers only pick a provider (or let `generateWithFallback` walk the configured ones).
+ */
+export type LlmProvider = {
+  /** Stable id used in env config, API requests and logs, e.g. "openai", "gemini", "local". */
+  id: string;
+  label: string;
+  /** True when requests leave our infrastructure for a third-party API. */
+  external: boolean;
+  isConfigured: () => boolean;
+  /**
+   * Stable identity of the model that will answer (endpoint + configured model, or "auto"), used in
+   * cache keys so switching models doesn't serve output from the old one.
+   */
+  modelSpec: () => string;
+  /** Non-secret configuration details for diagnostics (keys masked). */
+  describe: () => Record<string, unknown>;
+  generate: (req: LlmGenerateRequest) => Promise<LlmGenerateResult>;
+  stream: (req: LlmGenerateRequest) => Promise<LlmStreamResult>;
+  listModels: () => Promise<LlmModelInfo[]>;
+};
+
+export function isLikelyRateLimitError(e: unknown) {
+  const msg = e instanceof Error ? e.message : String(e);
+  return /\b429\b/.test(msg) || /rate\s*limit/i.test(msg) || /quota/i.test(msg) || /too\s+many\s+requests/i.test(msg);
+}
+
+export function isLikelyAuthOrBadRequest(e: unknown) {
+  const msg = e instanceof Error ? e.message : String(e);
+  // Generally not worth retrying (will never succeed until config changes).
+  return /\b(400|401|403|404)\b/.test(msg) || /invalid/i.test(msg) || /not\s+found/i.test(msg);
+}
+
+export async function sleep(ms: number) {
+  await new Promise<void>((r) => setTimeout(r, ms));
+}
+
+/**
+ * Runs `onAttempt` up to `maxAttempts` times with linear backoff. Rate limits and auth/config errors
+ * are rethrown immediately: retrying them only burns quota before the caller can fall back.
+ */
+export async function withRetries<T>(opts: {
+  provider: string;
+  purpose: string;
+  maxAttempts: number;
+  log?: Logger;
+  onAttempt: (attempt: number) => Promise<T>;
+}): Promise<T> {
+  let lastErr: unknown = null;
+  for (let attempt = 1; attempt <= opts.maxAttempts; attempt++) {
+    try {
+      return await opts.onAttempt(attempt);
+    } catch (e) {
+      lastErr = e;
+      if (isLikelyRateLimitError(e) || isLikelyAuthOrBadRequest(e)) throw e;
+      console.log(
+        `[API Call] ${opts.provider.toUpperCase()} ${opts.purpose} - Attempt ${attempt}/${opts.maxAttempts} failed, retrying...`
+      );
+      opts.log?.warn("llm: attempt failed", {
+        provider: opts.provider,
+        purpose: opts.purpose,
+        attempt,
+        maxAttempts: opts.maxAttempts,
+        error: errorToObject(e),
+      });
+      if (attempt < opts.maxAttempts) await sleep(400 * attempt);
+    }
+  }
+  console.error(`[API Call] ${opts.provider.toUpperCase()} ${opts.purpose} - ❌ FAILED after ${opts.maxAttempts} attempts`);
+  throw lastErr instanceof Error ? lastErr : new Error(`${opts.provider} ${opts.purpose} failed`);
+}
@@ -0,0 +1,126 @@
+import { errorToObject } from "@/server/logger";
+import type { Redactor } from "@/server/redaction";
+import { createGeminiProvider } from "@/server/llm/gemini";
+import { createOpenAiProvider } from "@/server/llm/openai";
+import type { LlmGenerateRequest, LlmGenerateResult, LlmProvider } from "@/server/llm/provider";
+
+const openAiProvider = createOpenAiProvider({
+  id: "openai",
+  label: "OpenAI",
+  external: true,
+  env: () => ({ apiKey: process.env.OPENAI_API_KEY, model: process.env.OPENAI_MODEL }),
+  requiresApiKey: true,
+  api: "responses",
+  defaultModel: "gpt-5.1-mini",
+  defaultMaxAttempts: 3,
+});
+
+// Any OpenAI-compatible server, typically on-prem (llama.cpp, Ollama, vLLM, LM Studio).
+const localProvider = createOpenAiProvider({
+  id: "local",
+  label: "OpenAI-compatible",
+  external: false,
+  env: () => ({
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+    baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    model: process.env.OPENAI_COMPATIBLE_MODEL,
+  }),
+  requiresApiKey: false,
+  api: "chat",
+  defaultMaxAttempts: 2,
+});
+
+// A configured on-prem endpoint is an explicit choice, so it goes first by default.
+const builtinProviders: LlmProvider[] = [localProvider, openAiProvider, createGeminiProvider()];
+const registered: LlmProvider[] = [];
+
+/** Adds a provider (or replaces a built-in with the same id). */
+export function registerLlmProvider(provider: LlmProvider) {
+  const idx = registered.findIndex((p) => p.id === provider.id);
+  if (idx >= 0) registered.splice(idx, 1);
+  registered.push(provider);
+}
+
+export function listLlmProviders(): LlmProvider[] {
+  const ids = new Set(registered.map((p) => p.id));
+  return [...builtinProviders.filter((p) => !ids.has(p.id)), ...registered];
+}
+
+export function getLlmProvider(id: string) {
+  return listLlmProviders().find((p) => p.id === id) ?? null;
+}
+
+/**
+ * Configured providers in preference order. `LLM_PROVIDERS` (comma-separated ids) restricts and
+ * orders them, e.g. `LLM_PROVIDERS=local` keeps every document on-prem even when cloud keys exist.
+ */
+export function configuredLlmProviders(): LlmProvider[] {
+  const all = listLlmProviders().filter((p) => p.isConfigured());
+  const allowed = (process.env.LLM_PROVIDERS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (!allowed.length) return all;
+  return allowed.map((id) => all.find((p) => p.id === id)).filter((p): p is LlmProvider => !!p);
+}
+
+/**
+ * Generates with the preferred provider, falling back through the other configured providers in
+ * order. Each provider retries transient failures itself; `onProviderFailure` fires once per provider
+ * that gave up, so callers can make a fallback sticky.
+ */
+export async function generateWithFallback(
+  req: LlmGenerateRequest & {
+    preferred?: string;
+    /** Only use this provider (no fallback). */
+    only?: string;
+    onProviderFailure?: (info: { provider: string; error: unknown }) => void;
+    /**
+     * Masks personal data and secrets in the prompts sent to external providers; their answers keep
+     * the placeholders for the caller to restore.
+     */
+    redactor?: Redactor;
+  }
+): Promise<LlmGenerateResult> {
+  const configured = configuredLlmProviders();
+  let ordered = configured;
+  if (req.only) {
+    const only = configured.find((p) => p.id === req.only);
+    if (!only) throw new Error(`LLM provider "${req.only}" is not configured`);
+    ordered = [only];
+  } else if (req.preferred) {
+    const preferred = configured.find((p) => p.id === req.preferred);
+    if (preferred) ordered = [preferred, ...configured.filter((p) => p !== preferred)];
+  }
+  if (!ordered.length) throw new Error("No LLM provider configured");
+
+  let lastErr: unknown = null;
+  for (const [i, provider] of ordered.entries()) {
+    const role = i === 0 ? "primary" : "fallback";
+    console.log(`[API Call] ${(req.purpose || "generate").toUpperCase()} - ${role} provider: ${provider.id}`);
+    req.log?.info("llm: calling provider", { provider: provider.id, role, purpose: req.purpose });
+    try {
+      if (provider.external && req.redactor) {
+        req.redactor.markSent(provider.id);
+        const { redactor } = req;
+        return await provider.generate({
+          ...req,
+          system: req.system && redactor.redact(req.system),
+          prompt: redactor.redact(req.prompt),
+        });
+      }
+      return await provider.generate(req);
+    } catch (e) {
+      lastErr = e;
+      req.onProviderFailure?.({ provider: provider.id, error: e });
+      req.log?.warn("llm: provider failed", {
+        provider: provider.id,
+        role,
+        purpose: req.purpose,
+        remaining: ordered.slice(i + 1).map((p) => p.id),
+        error: errorToObject(e),
+      });
+    }
+  }
+  throw lastErr instanceof Error ? lastErr : new Error("All LLM providers failed");
+}
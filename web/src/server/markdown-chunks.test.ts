@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { estimateTokens, splitMarkdownIntoChunks, splitMarkdownSections } from "@/server/markdown-chunks";
+
+function paragraph(n: number, words = 30) {
+  return Array.from({ length: words }, (_, i) => `p${n}w${i}`).join(" ");
+}
+
+const codeBlock = ["```sh", "# install", "npm install", "", "# run the checks", "npm test", "```"].join("\n");
+const table = ["| Step | Owner |", "| --- | --- |", "| Prepare | Ops |", "| Review | QA |", "| Ship | Ops |"].join("\n");
+
+// Many sections and one long section holding a code block and a table between paragraphs.
+const handbook = [
+  "# Handbook",
+  paragraph(0),
+  "## Setup",
+  paragraph(1),
+  paragraph(2),
+  codeBlock,
+  paragraph(3),
+  table,
+  paragraph(4),
+  paragraph(5),
+  "## Release",
+  paragraph(6),
+  "### Checklist",
+  paragraph(7),
+  "## Support",
+  paragraph(8),
+].join("\n\n");
+
+test("returns the document as one chunk when it fits", () => {
+  assert.deepEqual(splitMarkdownIntoChunks(handbook, estimateTokens(handbook)), [
+    { markdown: handbook, headingPath: [] },
+  ]);
+});
+
+test("keeps every chunk within the budget", () => {
+  for (const max of [120, 200, 400]) {
+    const chunks = splitMarkdownIntoChunks(handbook, max);
+    assert.ok(chunks.length > 1, `max ${max}`);
+    for (const chunk of chunks) assert.ok(estimateTokens(chunk.markdown) <= max, `max ${max}`);
+  }
+});
+
+test("never splits fenced code or tables", () => {
+  for (const max of [120, 200, 400]) {
+    const chunks = splitMarkdownIntoChunks(handbook, max).map((c) => c.markdown);
+    assert.equal(chunks.filter((c) => c.includes(codeBlock)).length, 1, `max ${max}`);
+    assert.equal(chunks.filter((c) => c.includes(table)).length, 1, `max ${max}`);
+    // The fence's "# comments" are not headings to split at.
+    assert.ok(!chunks.some((c) => c.startsWith("# install") || c.startsWith("# run")), `max ${max}`);
+  }
+});
+
+test("joining the chunks gives back the document", () => {
+  for (const max of [120, 200, 400]) {
+    const chunks = splitMarkdownIntoChunks(handbook, max);
+    assert.equal(chunks.map((c) => c.markdown).join("\n\n"), handbook, `max ${max}`);
+  }
+});
+
+test("records the headings around each chunk", () => {
+  const chunks = splitMarkdownIntoChunks(handbook, 120);
+  const checklist = chunks.find((c) => c.markdown.startsWith("### Checklist"));
+  assert.deepEqual(checklist?.headingPath, [
+    { level: 1, text: "Handbook" },
+    { level: 2, text: "Release" },
+  ]);
+  // Continuations of the long Setup section sit inside it.
+  const continuation = chunks.find((c) => c.markdown.startsWith(paragraph(3)) || c.markdown.startsWith(codeBlock));
+  assert.deepEqual(continuation?.headingPath, [
+    { level: 1, text: "Handbook" },
+    { level: 2, text: "Setup" },
+  ]);
+});
+
+test("cuts a single block over budget instead of dropping it", () => {
+  const longLine = paragraph(9, 400);
+  const longCode = ["```", ...Array.from({ length: 80 }, (_, i) => `line ${i} ${paragraph(i, 4)}`), "```"].join("\n");
+  const cjk = "字".repeat(600);
+  for (const markdown of [`# Notes\n\n${longLine}`, `# Code\n\n${longCode}`, cjk]) {
+    const chunks = splitMarkdownIntoChunks(markdown, 100);
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) assert.ok(estimateTokens(chunk.markdown) <= 100);
+    // Hard cuts add line breaks but lose no text.
+    const strip = (s: string) => s.replace(/\s+/g, "");
+    assert.equal(strip(chunks.map((c) => c.markdown).join("")), strip(markdown));
+  }
+});
+
+test("splits top-level sections below a single title heading", () => {
+  const sections = splitMarkdownSections(handbook);
+  assert.deepEqual(sections.map((s) => s.heading), ["Setup", "Release", "Support"]);
+  assert.ok(sections[0].markdown.startsWith(paragraph(0)));
+  assert.ok(sections[0].markdown.includes(codeBlock));
+  assert.ok(sections[1].markdown.includes("### Checklist"));
+  assert.equal(sections[0].startLine, 1);
+  assert.equal(sections[2].endLine, handbook.split("\n").length);
+});
@@ -0,0 +1,235 @@
+/**
+ * Splits long Markdown into prompt-sized chunks along heading boundaries and helps stitch the
+ * per-chunk HTML back together, so handbooks larger than a model's context can still be rewritten.
+ * Also finds a document's top-level sections for emitting one guide per section.
+ */
+
+export type MarkdownHeading = { level: number; text: string };
+
+export type MarkdownChunk = {
+  markdown: string;
+  /** Headings enclosing the start of the chunk (outermost first), excluding its own first heading. */
+  headingPath: MarkdownHeading[];
+};
+
+export type MarkdownSection = {
+  heading: string;
+  markdown: string;
+  /** 1-based, inclusive line range of the section in the source Markdown. */
+  startLine: number;
+  endLine: number;
+};
+
+type Unit = { text: string; heading: MarkdownHeading | null; path: MarkdownHeading[] };
+
+const HEADING_RE = /^ {0,3}(#{1,6})[ \t]+(.+?)[ \t#]*$/;
+const FENCE_RE = /^ {0,3}(```|~~~)/;
+
+/**
+ * Rough token count for budgeting: ~4 characters per token for Latin text, ~1 per CJK character.
+ * Deliberately errs high; an overfull prompt costs more than an extra chunk.
+ */
+export function estimateTokens(text: string) {
+  let wide = 0;
+  for (const ch of text) {
+    if (ch.codePointAt(0)! >= 0x3000) wide++;
+  }
+  return Math.ceil((text.length - wide) / 4) + wide;
+}
+
+/** ATX headings outside fenced code blocks, in document order. */
+export function markdownHeadings(markdown: string): MarkdownHeading[] {
+  const out: MarkdownHeading[] = [];
+  let inFence = false;
+  for (const line of markdown.split("\n")) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    if (inFence) continue;
+    const m = line.match(HEADING_RE);
+    if (m) out.push({ level: m[1].length, text: m[2].trim() });
+  }
+  return out;
+}
+
+/**
+ * Level treated as the document's top-level sections. A single leading heading at the shallowest
+ * level is the document title (e.g. `# Handbook` followed by `##` sections), so sections start one
+ * level below it.
+ */
+export function sectionBaseLevel(headings: MarkdownHeading[]) {
+  if (!headings.length) return 1;
+  const min = Math.min(...headings.map((h) => h.level));
+  const atMin = headings.filter((h) => h.level === min);
+  const deeper = headings.some((h) => h.level > min);
+  return atMin.length === 1 && headings[0].level === min && deeper ? min + 1 : min;
+}
+
+/** Indented heading list for prompts, truncated to keep the shared context small. */
+export function markdownOutline(headings: MarkdownHeading[], maxChars = 2000) {
+  if (!headings.length) return "";
+  const base = Math.min(...headings.map((h) => h.level));
+  const lines: string[] = [];
+  let used = 0;
+  for (const h of headings) {
+    const line = `${"  ".repeat(h.level - base)}- ${h.text}`;
+    if (used + line.length + 1 > maxChars) {
+      lines.push("  ...");
+      break;
+    }
+    lines.push(line);
+    used += line.length + 1;
+  }
+  return lines.join("\n");
+}
+
+/** Cuts Markdown into units that each start at a heading (plus a leading preamble), tracking ancestors. */
+function headingUnits(markdown: string): Unit[] {
+  const units: Unit[] = [];
+  const stack: MarkdownHeading[] = [];
+  let current: Unit = { text: "", heading: null, path: [] };
+  let inFence = false;
+  for (const line of markdown.split("\n")) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    const m = inFence ? null : line.match(HEADING_RE);
+    if (m) {
+      if (current.text.trim()) units.push(current);
+      const heading = { level: m[1].length, text: m[2].trim() };
+      while (stack.length && stack[stack.length - 1].level >= heading.level) stack.pop();
+      current = { text: `${line}\n`, heading, path: [...stack] };
+      stack.push(heading);
+    } else {
+      current.text += `${line}\n`;
+    }
+  }
+  if (current.text.trim()) units.push(current);
+  return units;
+}
+
+/** Splits text at blank lines outside code fences, then hard-wraps anything still over budget. */
+function splitOversized(text: string, maxTokens: number): string[] {
+  const blocks: string[] = [];
+  let block = "";
+  let inFence = false;
+  for (const line of text.split("\n")) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    block += `${line}\n`;
+    if (!inFence && !line.trim() && block.trim()) {
+      blocks.push(block);
+      block = "";
+    }
+  }
+  if (block.trim()) blocks.push(block);
+
+  // Characters per token can be as low as 1 (CJK), so hard cuts assume the worst case.
+  const maxChars = maxTokens;
+  const pieces: string[] = [];
+  let piece = "";
+  for (const b of blocks) {
+    if (piece && estimateTokens(piece + b) > maxTokens) {
+      pieces.push(piece);
+      piece = "";
+    }
+    if (estimateTokens(b) <= maxTokens) {
+      piece += b;
+      continue;
+    }
+    // A single paragraph or code block over budget: cut on line breaks, then characters.
+    for (const line of b.split("\n")) {
+      for (let i = 0; i < line.length || i === 0; i += maxChars) {
+        const part = `${line.slice(i, i + maxChars)}\n`;
+        if (piece && estimateTokens(piece + part) > maxTokens) {
+          pieces.push(piece);
+          piece = "";
+        }
+        piece += part;
+      }
+    }
+  }
+  if (piece.trim()) pieces.push(piece);
+  return pieces;
+}
+
+/**
+ * Packs heading sections into chunks of at most `maxTokens` (estimated). Sections are never split
+ * unless one alone exceeds the budget, in which case it is cut at paragraph boundaries. Returns a
+ * single chunk when the whole document fits.
+ */
+export function splitMarkdownIntoChunks(markdown: string, maxTokens: number): MarkdownChunk[] {
+  if (estimateTokens(markdown) <= maxTokens) return [{ markdown, headingPath: [] }];
+
+  const pieces: Unit[] = [];
+  for (const unit of headingUnits(markdown)) {
+    if (estimateTokens(unit.text) <= maxTokens) {
+      pieces.push(unit);
+      continue;
+    }
+    splitOversized(unit.text, maxTokens).forEach((text, i) => {
+      // Continuations sit inside the unit's own section.
+      const path = i > 0 && unit.heading ? [...unit.path, unit.heading] : unit.path;
+      pieces.push({ text, heading: i === 0 ? unit.heading : null, path });
+    });
+  }
+
+  const chunks: MarkdownChunk[] = [];
+  let current: MarkdownChunk | null = null;
+  for (const piece of pieces) {
+    if (current && estimateTokens(current.markdown + piece.text) > maxTokens) {
+      chunks.push({ ...current, markdown: current.markdown.trim() });
+      current = null;
+    }
+    current ??= { markdown: "", headingPath: piece.path };
+    current.markdown += piece.text;
+  }
+  if (current) chunks.push({ ...current, markdown: current.markdown.trim() });
+  return chunks;
+}
+
+/**
+ * Top-level sections (headings at `sectionBaseLevel`). Text before the first section goes into the
+ * first one, minus the document title heading, which each section guide replaces with its own.
+ * Returns fewer than two sections when the document has no real sections to split on.
+ */
+export function splitMarkdownSections(markdown: string): MarkdownSection[] {
+  const lines = markdown.split("\n");
+  const headings = markdownHeadings(markdown);
+  const base = sectionBaseLevel(headings);
+  const starts: Array<{ line: number; heading: string }> = [];
+  let inFence = false;
+  lines.forEach((line, i) => {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    const m = inFence ? null : line.match(HEADING_RE);
+    if (m && m[1].length === base) starts.push({ line: i, heading: m[2].trim() });
+  });
+  if (starts.length < 2) return [];
+
+  return starts.map((start, i) => {
+    const from = i === 0 ? 0 : start.line;
+    const to = i + 1 < starts.length ? starts[i + 1].line : lines.length;
+    let body = lines.slice(from, to);
+    if (i === 0) {
+      body = body.filter((line, j) => {
+        const m = j < start.line ? line.match(HEADING_RE) : null;
+        return !(m && m[1].length < base);
+      });
+    }
+    return { heading: start.heading, markdown: body.join("\n").trim(), startLine: from + 1, endLine: to };
+  });
+}
+
+/** Shallowest `<hN>` level in an HTML fragment, or null when it has no headings. */
+export function minHtmlHeadingLevel(html: string) {
+  let min: number | null = null;
+  for (const m of html.matchAll(/<h([1-6])\b/gi)) {
+    const level = Number(m[1]);
+    if (min === null || level < min) min = level;
+  }
+  return min;
+}
+
+/** Moves every `<hN>` by `delta` levels, clamped to `minLevel`..6. */
+export function shiftHtmlHeadings(html: string, delta: number, minLevel = 1) {
+  if (!delta && minLevel <= 1) return html;
+  return html.replace(/<(\/?)h([1-6])\b/gi, (_m, slash: string, level: string) => {
+    const next = Math.max(minLevel, Math.min(6, Number(level) + delta));
+    return `<${slash}h${next}`;
+  });
+}
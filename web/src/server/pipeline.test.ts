@@ -0,0 +1,137 @@
+import { before, after, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import { mkdtempSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Offline: no rewrite providers or ingestion service, so guides come from the local fallback.
+const dataDir = mkdtempSync(path.join(os.tmpdir(), "pipeline-test-"));
+process.env.DATA_DIR = dataDir;
+process.env.RUN_LOGS_TO_FILE = "0";
+for (const key of [
+  "OPENAI_API_KEY",
+  "GEMINI_API_KEY",
+  "GOOGLE_API_KEY",
+  "OPENAI_COMPATIBLE_BASE_URL",
+  "LLM_PROVIDERS",
+  "DATA_INGESTION_API_URL",
+  "DATA_INGESTION_API_TOKEN",
+  "GUIDE_TRANSLATIONS",
+  "PIPELINE_CACHE",
+]) {
+  delete process.env[key];
+}
+
+type Pipeline = typeof import("@/server/pipeline");
+type GlossaryModule = typeof import("@/server/glossary");
+type RunOptions = import("@/server/run-store").RunOptions;
+type ManifestGuide = {
+  sourcePath: string;
+  outputFile: string;
+  status: string;
+  section?: { index: number };
+  glossary?: import("@/lib/glossary").GlossaryReport;
+};
+
+let runPipeline: Pipeline["runPipeline"];
+let writeGlossary: GlossaryModule["writeGlossary"];
+
+before(async () => {
+  // The pipeline logs every step; keep the test output readable.
+  for (const level of ["log", "info", "debug", "warn", "error"] as const) mock.method(console, level, () => {});
+  ({ runPipeline } = await import("@/server/pipeline"));
+  ({ writeGlossary } = await import("@/server/glossary"));
+});
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+let runCount = 0;
+
+/** Uploads `files` and runs the pipeline over them; returns the run's output folder. */
+async function runOn(
+  files: Record<string, string>,
+  options?: RunOptions,
+  onProgress: (message: string) => void = () => {}
+) {
+  const n = ++runCount;
+  const uploadId = `upload-${n}`;
+  const runId = `run-${n}`;
+  const inputDir = path.join(dataDir, "uploads", uploadId, "input");
+  await fs.mkdir(inputDir, { recursive: true });
+  for (const [name, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(inputDir, name), content, "utf8");
+  }
+  const now = new Date().toISOString();
+  await runPipeline(
+    { runId, uploadId, options, status: "running", progress: 0, createdAt: now, updatedAt: now },
+    async (u) => onProgress(u.message ?? "")
+  );
+  return path.join(dataDir, "uploads", uploadId, "output", runId);
+}
+
+async function readManifest(outDir: string): Promise<ManifestGuide[]> {
+  return JSON.parse(await fs.readFile(path.join(outDir, "manifest.json"), "utf8")).guides;
+}
+
+function readGuide(outDir: string, outputFile: string) {
+  return fs.readFile(path.join(outDir, "guides", outputFile), "utf8");
+}
+
+test("cached Markdown is not reused for the same bytes under another name or extension", async () => {
+  const table = "Name\tRole\nAda\tEngineer\n";
+
+  const first = await runOn({ "alpha.tsv": table });
+  assert.match(await readGuide(first, "alpha.html"), /alpha/);
+
+  const renamed = await runOn({ "beta.tsv": table });
+  const renamedHtml = await readGuide(renamed, "beta.html");
+  assert.match(renamedHtml, /beta/);
+  assert.doesNotMatch(renamedHtml, /alpha/);
+
+  // As .csv the tabs are not delimiters, so the table has a single column.
+  const recast = await runOn({ "alpha.csv": table });
+  const recastHtml = await readGuide(recast, "alpha.html");
+  const tsvHtml = await readGuide(first, "alpha.html");
+  assert.notEqual(recastHtml, tsvHtml);
+  assert.match(tsvHtml, /<td>Ada<\/td>/);
+  assert.doesNotMatch(recastHtml, /<td>Ada<\/td>/);
+});
+
+test("a failed section gets its own error guide and the other sections are kept", async () => {
+  const doc = "# One\n\nFirst.\n\n# Two\n\nSecond.\n\n# Three\n\nThird.\n";
+  const outDir = await runOn({ "doc.md": doc }, { splitSections: true }, (message) => {
+    if (message.endsWith("(2/3)")) throw new Error("Section two broke");
+  });
+
+  const guides = await readManifest(outDir);
+  assert.deepEqual(
+    guides.map((g) => [g.outputFile, g.status, g.section?.index]),
+    [
+      ["doc - One.html", "ok", 1],
+      ["doc - Two.html", "error", 2],
+      ["doc - Three.html", "ok", 3],
+    ]
+  );
+  assert.match(await readGuide(outDir, "doc - Two.html"), /Section two broke/);
+  assert.match(await readGuide(outDir, "doc - Three.html"), /Third\./);
+  await assert.rejects(readGuide(outDir, "doc.html"));
+});
+
+test("runs are checked against their own workspace's glossary", async () => {
+  await writeGlossary("acme", [{ term: "ShipTrack", misspellings: ["Ship Track"] }]);
+  const doc = "# Tracking\n\nOpen Ship Track to follow a parcel.\n";
+
+  const acme = await runOn({ "tracking.md": doc }, { workspace: "acme" });
+  const [acmeGuide] = await readManifest(acme);
+  assert.deepEqual(acmeGuide.glossary, {
+    checked: 1,
+    violations: [{ term: "ShipTrack", kind: "misspelled", found: "Ship Track" }],
+  });
+
+  const other = await runOn({ "tracking.md": doc }, { workspace: "globex" });
+  const [otherGuide] = await readManifest(other);
+  assert.equal(otherGuide.glossary, undefined);
+});
@@ -2,14 +2,57 @@ import fs from "node:fs/promises";
 import fssync from "node:fs";
 import path from "node:path";
 import archiver from "archiver";
-import { generateText } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { marked } from "marked";
-import mammoth from "mammoth";
-import pdfParse from "pdf-parse";
 import { ensureDir, getUploadsDir, safeJoin } from "@/server/storage";
 import type { RunState } from "@/server/run-store";
 import { createLogger, errorToObject, maskSecret, type Logger } from "@/server/logger";
+import type { OcrReport } from "@/server/converters/ocr";
+import type { DetectedEncoding } from "@/server/converters/text-encoding";
+import { isBinaryContentType } from "@/server/converters/sniff";
+import { decodeText } from "@/server/converters/text-encoding";
+import { selectConverter, type ConverterSelection, type MarkdownResult } from "@/server/converters/registry";
+import { configuredLlmProviders, generateWithFallback } from "@/server/llm/registry";
+import type { LlmProvider } from "@/server/llm/provider";
+import { hashKey, readCache, writeCache } from "@/server/cache";
+import { buildGuideSite, SITE_INDEX_FILE, summarizeGuideHtml } from "@/server/guide-site";
+import { getGuideTheme } from "@/server/themes";
+import { isSanitizeReportEmpty, sanitizeHtmlFragment, type SanitizeReport } from "@/server/html-sanitizer";
+import { checkSourceFidelity, type FidelityReport } from "@/server/fidelity";
+import { checkGlossary, glossaryInstructions, readGlossary, type Glossary } from "@/server/glossary";
+import { describeGlossaryViolation, type GlossaryReport } from "@/lib/glossary";
+import { createRedactor, REDACT_EVERY_RUN, type RedactionReport, type Redactor } from "@/server/redaction";
+import {
+  languageName,
+  parseLanguageList,
+  rewriteStyleInstructions,
+  type RewriteOptions,
+} from "@/server/rewrite-options";
+import { translateGuide } from "@/server/translate";
+import {
+  GUIDE_OUTPUT_FIELDS,
+  GUIDE_PART_OUTPUT_FIELDS,
+  guidePartSchema,
+  guideSchema,
+  parseStructuredOutput,
+  type GuideMetadata,
+} from "@/server/guide-schema";
+import { OUTPUT_FORMATS, type OutputFormat } from "@/server/exports/formats";
+import { writeMarkdownExport } from "@/server/exports/markdown";
+import { writeDocxExport } from "@/server/exports/docx";
+import { buildEpubHandbook } from "@/server/exports/epub";
+import {
+  estimateTokens,
+  markdownHeadings,
+  markdownOutline,
+  minHtmlHeadingLevel,
+  sectionBaseLevel,
+  shiftHtmlHeadings,
+  splitMarkdownIntoChunks,
+  splitMarkdownSections,
+  type MarkdownChunk,
+} from "@/server/markdown-chunks";
+
+export type { MarkdownResult } from "@/server/converters/registry";
 
 export type PipelineProgressUpdate = {
   progress: number;
@@ -20,10 +63,101 @@ export type PipelineProgressUpdate = {
   stage?: "reading" | "converting" | "writing" | "zipping";
 };
 
+// Attachments of attachments (e.g. a forwarded .eml inside an .eml) are followed this many levels.
+const MAX_ATTACHMENT_DEPTH = 3;
+
+// Files extracted and rewritten at once. Gemini requests are still serialized and spaced by its own
+// scheduler; raise this for on-prem or paid-tier endpoints, lower it if OCR-heavy runs use too much memory.
+const PIPELINE_CONCURRENCY = Number(process.env.PIPELINE_CONCURRENCY || 3);
+
+// Estimated Markdown tokens per rewrite prompt. The HTML that comes back is usually longer than its
+// input, so this is bounded by the model's output limit as much as by its context window.
+const REWRITE_CHUNK_TOKENS = Math.max(500, Number(process.env.REWRITE_CHUNK_TOKENS || 4000));
+
+// Generated names (e.g. from section headings) are cut to this many characters before ".html".
+const MAX_OUTPUT_NAME_CHARS = 100;
+
+// Languages every guide is translated into when a run doesn't choose (comma-separated BCP 47 tags).
+const DEFAULT_TRANSLATIONS = parseLanguageList(process.env.GUIDE_TRANSLATIONS);
+
+// Bump to invalidate cached entries when their shape or how they are produced changes.
+const MARKDOWN_CACHE_VERSION = "1";
+const REWRITE_CACHE_VERSION = "2";
+
+/** One language variant of a guide, written to `guides/<lang>/`. */
+type TranslationEntry = {
+  /** Relative to `guides/`, e.g. `de/Guide.html`; only written when the translation succeeded. */
+  outputFile: string;
+  status: "ok" | "error";
+  title?: string;
+  description?: string;
+  tags?: string[];
+  error?: string;
+  cached?: boolean;
+  sanitized?: SanitizeReport;
+  fidelity?: FidelityReport;
+  glossary?: GlossaryReport;
+  /** Translated variants by language tag (see `RewriteOptions.translations`). */
+  translations?: Record<string, TranslationEntry>;
+};
+
+type ManifestEntry = {
+  sourcePath: string;
+  outputFile: string;
+  /** Human title from the rewrite; the file (or section) name when conversion failed. */
+  title: string;
+  description?: string;
+  tags?: string[];
+  status: "ok" | "error";
+  error?: string;
+  ocr?: OcrReport;
+  encoding?: DetectedEncoding;
+  /** Converter that produced the Markdown ("ingestion" when the Trelent API did). */
+  converter?: string;
+  /** Set on guides generated from a file embedded in another source (e.g. an email attachment). */
+  parentSourcePath?: string;
+  /** Output files of this source's attachments. */
+  attachments?: string[];
+  /** Which stages were served from the content-hash cache instead of recomputed. */
+  cache?: { markdown: boolean; html: boolean };
+  /** Set when the guide is one top-level section of `sourcePath` (split mode); lines are 1-based in its Markdown. */
+  section?: { index: number; count: number; heading: string; startLine: number; endLine: number };
+  /** What the HTML sanitizer removed from the rewritten guide (empty maps when nothing was). */
+  sanitized?: SanitizeReport;
+  /** How well the guide kept the source's numbers, links, terms and list items (see `fidelity.ts`). */
+  fidelity?: FidelityReport;
+  /** Glossary terms the guide misspelled, replaced or dropped; set when the workspace has a glossary. */
+  glossary?: GlossaryReport;
+  /** Personal data and secrets masked in the source file before external calls (redacted runs only). */
+  redaction?: RedactionReport;
+};
+
+type CachedRewrite = { html: string; guide: GuideMetadata; provider: string; model: string };
+
+/** Markdown cache entries store attachment bytes as base64 so they survive JSON. */
+type CachedMarkdown = Omit<MarkdownResult, "attachments" | "cached"> & {
+  attachments?: Array<{ fileName: string; content: string }>;
+};
+
 function extLower(p: string) {
   return path.extname(p).toLowerCase();
 }
 
+/** Puts masked values back into a model result, for the rules `REDACT_RESTORE` allows. */
+function restoreRedacted<T extends { html: string; guide: GuideMetadata }>(result: T, redactor?: Redactor): T {
+  if (!redactor) return result;
+  return {
+    ...result,
+    html: redactor.restore(result.html, { html: true }),
+    guide: {
+      ...result.guide,
+      title: redactor.restore(result.guide.title),
+      description: redactor.restore(result.guide.description),
+      tags: result.guide.tags.map((t) => redactor.restore(t)),
+    },
+  };
+}
+
 function escapeHtml(text: string) {
   return text
     .replaceAll("&", "&amp;")
@@ -50,48 +184,16 @@ function normalizeHtmlFragment(input: string) {
 
 const SUPPORT_MESSAGE = "Something went wrong please contact support or retry";
 const EXPOSE_PROVIDER_ERRORS = process.env.DEBUG_EXPOSE_PROVIDER_ERRORS === "1";
-const GEMINI_MIN_DELAY_MS = Number(process.env.GEMINI_MIN_DELAY_MS || 1200);
 
-function isLikelyRateLimitError(e: unknown) {
-  const msg = e instanceof Error ? e.message : String(e);
-  return /\b429\b/.test(msg) || /rate\s*limit/i.test(msg) || /quota/i.test(msg) || /too\s+many\s+requests/i.test(msg);
+/** All providers failed after retries: the run fails rather than producing error pages (message may be wrapped). */
+function isSupportFailure(e: unknown) {
+  return e instanceof Error && e.message.includes(SUPPORT_MESSAGE);
 }
 
-function isLikelyAuthOrBadRequest(e: unknown) {
-  const msg = e instanceof Error ? e.message : String(e);
-  // Generally not worth retrying (will never succeed until config changes).
-  return /\b(400|401|403|404)\b/.test(msg) || /invalid/i.test(msg) || /not\s+found/i.test(msg);
-}
-
-function isGeminiQuotaOrBillingError(e: unknown) {
-  const msg = e instanceof Error ? e.message : String(e);
-  // Generative Language API often returns 429 for "quota/billing" as well as "rate limit".
-  // We treat this as "try a different model if available" (some models are free-tier eligible).
-  return /\b429\b/.test(msg) && /quota|billing|plan/i.test(msg);
-}
-
-// Gemini free-tier protection: ensure requests are serialized + spaced out.
-let geminiQueue: Promise<void> = Promise.resolve();
-let geminiLastStartedAt = 0;
-async function scheduleGeminiRequest<T>(fn: () => Promise<T>): Promise<T> {
-  let out: T | undefined;
-  let err: unknown = null;
-
-  geminiQueue = geminiQueue.then(async () => {
-    const waitMs = Math.max(0, geminiLastStartedAt + GEMINI_MIN_DELAY_MS - Date.now());
-    if (waitMs > 0) await sleep(waitMs);
-    geminiLastStartedAt = Date.now();
-    try {
-      out = await fn();
-    } catch (e) {
-      err = e;
-    }
-  });
-
-  await geminiQueue;
-  if (err) throw err;
-  if (typeof out === "undefined") throw new Error("Gemini request scheduling failed");
-  return out;
+function conversionErrorHtml(sourcePath: string, message: string, section?: string) {
+  return `<h2>Conversion failed</h2>
+<p><strong>File:</strong> ${escapeHtml(sourcePath)}</p>
+${section ? `<p><strong>Section:</strong> ${escapeHtml(section)}</p>\n` : ""}<p><strong>Error:</strong> ${escapeHtml(message)}</p>`;
 }
 
 async function sleep(ms: number) {
@@ -298,507 +400,446 @@ async function trelentIngestionToMarkdown(filePath: string, log?: Logger): Promi
   throw new Error(EXPOSE_PROVIDER_ERRORS ? "Ingestion API: no endpoints worked" : SUPPORT_MESSAGE);
 }
 
-function stripHtmlToText(html: string) {
-  // Lightweight HTML -> text fallback (good enough for "keep the run working").
-  return (
-    html
-      .replace(/<script[\s\S]*?<\/script>/gi, "")
-      .replace(/<style[\s\S]*?<\/style>/gi, "")
-      .replace(/<(br|hr)\s*\/?>/gi, "\n")
-      .replace(/<\/(p|div|li|h1|h2|h3|h4|h5|h6|tr)>/gi, "\n")
-      .replace(/<[^>]+>/g, "")
-      .replaceAll("&nbsp;", " ")
-      .replaceAll("&amp;", "&")
-      .replaceAll("&lt;", "<")
-      .replaceAll("&gt;", ">")
-      .replaceAll("&quot;", '"')
-      .replaceAll("&#39;", "'")
-      .replace(/\r\n/g, "\n")
-      .replace(/\n{3,}/g, "\n\n")
-      .trim()
-  );
-}
-
-async function localToMarkdown(filePath: string, log?: Logger): Promise<string> {
+async function localToMarkdown(
+  filePath: string,
+  buf: Buffer,
+  { converter, contentType }: ConverterSelection,
+  log?: Logger
+): Promise<MarkdownResult> {
   const ext = extLower(filePath);
   const fileName = path.basename(filePath);
-  const buf = await fs.readFile(filePath);
 
   try {
-    if (ext === ".md" || ext === ".markdown") return buf.toString("utf8");
-    if (ext === ".txt" || ext === ".log" || ext === ".csv" || ext === ".tsv") return buf.toString("utf8");
-
-    if (ext === ".json") {
-      const raw = buf.toString("utf8");
-      try {
-        return "```json\n" + JSON.stringify(JSON.parse(raw), null, 2) + "\n```";
-      } catch {
-        return raw;
-      }
+    // Known binary content with no converter for it (e.g. a legacy .doc renamed to .txt) would only
+    // send junk to the LLM.
+    if (!converter.binary && isBinaryContentType(contentType)) {
+      throw new Error(`unsupported content type ${contentType}`);
     }
-
-    if (ext === ".pdf") {
-      const parsed = await pdfParse(buf);
-      const text = (parsed.text || "").trim();
-      if (text) return text;
-      throw new Error("pdf-parse returned empty text");
-    }
-
-    if (ext === ".docx") {
-      const result = await mammoth.extractRawText({ buffer: buf });
-      const text = (result?.value || "").trim();
-      if (text) return text;
-      throw new Error("mammoth returned empty text");
-    }
-
-    if (ext === ".html" || ext === ".htm") {
-      const html = buf.toString("utf8");
-      const text = stripHtmlToText(html);
-      return text || html;
-    }
-
-    // Best effort: decode as UTF-8.
-    return buf.toString("utf8");
+    const result = await converter.convert({ buf, fileName, ext, contentType, log });
+    return { ...result, converter: converter.name };
   } catch (e) {
-    log?.warn("localToMarkdown: failed; falling back to utf8 decode", {
+    if (converter.binary || isBinaryContentType(contentType)) {
+      // Decoding a binary container as text only sends junk to the LLM; fail this file instead.
+      log?.warn("localToMarkdown: failed for binary format", {
+        fileName,
+        ext,
+        converter: converter.name,
+        contentType,
+        error: errorToObject(e),
+      });
+      throw new Error(`Could not extract text from ${fileName}`);
+    }
+    log?.warn("localToMarkdown: failed; falling back to plain text decode", {
       fileName,
       ext,
+      converter: converter.name,
       error: errorToObject(e),
     });
-    return buf.toString("utf8");
+    const { text, encoding } = decodeText(buf);
+    return { markdown: text, encoding, converter: "text" };
   }
 }
 
-async function toMarkdown(filePath: string, log?: Logger) {
+async function toMarkdown(filePath: string, log?: Logger, opts: { redact?: boolean } = {}): Promise<MarkdownResult> {
+  const buf = await fs.readFile(filePath);
+  const selection = selectConverter(path.basename(filePath), buf);
+  log?.info("toMarkdown: selected converter", {
+    converter: selection.converter.name,
+    matchedBy: selection.matchedBy,
+    contentType: selection.contentType,
+    ext: extLower(filePath),
+  });
+  if (selection.matchedBy === "content") {
+    log?.warn("toMarkdown: file content does not match its extension", {
+      ext: extLower(filePath),
+      contentType: selection.contentType,
+    });
+  }
+
   // Prefer ingestion API when configured, but always allow local fallback so runs succeed
   // even when offline or misconfigured.
-  const hasIngestion = !!(process.env.DATA_INGESTION_API_URL && process.env.DATA_INGESTION_API_TOKEN);
+  const ingestionConfigured = !!(process.env.DATA_INGESTION_API_URL && process.env.DATA_INGESTION_API_TOKEN);
+  // Raw file bytes can't be masked, so redacted runs never upload them.
+  const hasIngestion = ingestionConfigured && !opts.redact;
+  if (ingestionConfigured && opts.redact) {
+    log?.info("toMarkdown: redaction is on; converting locally instead of uploading to ingestion");
+  }
+  const useIngestion = hasIngestion && !selection.converter.localOnly;
+  // Only results from the intended producer are cached: a local fallback after an ingestion outage
+  // should not stick once the API is back.
+  const producer = useIngestion
+    ? `ingestion:${process.env.DATA_INGESTION_API_URL}`
+    : `${selection.converter.name}@${selection.converter.version ?? 1}`;
+  // The extension can change how bytes are read (.csv vs .tsv); the name only matters to producers that
+  // use it, e.g. as a heading.
+  const keyName = useIngestion || selection.converter.usesFileName ? path.basename(filePath) : "";
+  const cacheKey = hashKey(MARKDOWN_CACHE_VERSION, producer, extLower(filePath), keyName, buf);
+  // Cached Markdown is the unmasked document, so redacted runs neither store nor reuse it.
+  const useCache = !opts.redact;
+  const cached = useCache ? await readCache<CachedMarkdown>("markdown", cacheKey) : null;
+  if (cached) {
+    log?.info("toMarkdown: cache hit", { producer, entry: cacheKey });
+    return {
+      ...cached,
+      attachments: cached.attachments?.map((a) => ({ fileName: a.fileName, content: Buffer.from(a.content, "base64") })),
+      cached: true,
+    };
+  }
+
+  const result = await convertToMarkdown(filePath, buf, selection, hasIngestion, log);
+  if (useCache && result.converter === (useIngestion ? "ingestion" : selection.converter.name)) {
+    const entry: CachedMarkdown = {
+      ...result,
+      attachments: result.attachments?.map((a) => ({ fileName: a.fileName, content: a.content.toString("base64") })),
+    };
+    await writeCache("markdown", cacheKey, entry).catch((e) =>
+      log?.warn("toMarkdown: could not write cache entry", { error: errorToObject(e) })
+    );
+  }
+  return result;
+}
+
+async function convertToMarkdown(
+  filePath: string,
+  buf: Buffer,
+  selection: ConverterSelection,
+  hasIngestion: boolean,
+  log?: Logger
+): Promise<MarkdownResult> {
+  if (hasIngestion && selection.converter.localOnly) {
+    log?.info("toMarkdown: format is converted locally", { converter: selection.converter.name });
+    return await localToMarkdown(filePath, buf, selection, log);
+  }
   if (!hasIngestion) {
     log?.info("toMarkdown: ingestion not configured; using local conversion", {
       hasDATA_INGESTION_API_URL: !!process.env.DATA_INGESTION_API_URL,
       hasDATA_INGESTION_API_TOKEN: !!process.env.DATA_INGESTION_API_TOKEN,
     });
-    return await localToMarkdown(filePath, log);
+    return await localToMarkdown(filePath, buf, selection, log);
   }
 
   try {
-    return await trelentIngestionToMarkdown(filePath, log);
+    return { markdown: await trelentIngestionToMarkdown(filePath, log), converter: "ingestion" };
   } catch (e) {
     log?.warn("toMarkdown: ingestion failed; using local conversion fallback", {
       error: errorToObject(e),
     });
-    return await localToMarkdown(filePath, log);
+    return await localToMarkdown(filePath, buf, selection, log);
   }
 }
 
+type RewriteChunkPrompt = { prompt: string; headingLevel: number };
+
+/**
+ * One prompt per chunk. Every prompt carries the title and the whole outline so the parts read as one
+ * guide, and pins Markdown heading levels to HTML levels so the stitched parts nest consistently.
+ */
+function chunkedRewritePrompts(title: string, markdown: string, chunks: MarkdownChunk[]): RewriteChunkPrompt[] {
+  const headings = markdownHeadings(markdown);
+  const base = sectionBaseLevel(headings);
+  const htmlLevel = (mdLevel: number) => Math.min(6, Math.max(2, mdLevel - base + 2));
+  const outline = markdownOutline(headings);
+  const levels = [...new Set(headings.map((h) => h.level).filter((l) => l >= base))].sort((a, b) => a - b);
+  const mapping = levels.map((l) => `"${"#".repeat(l)}" -> <h${htmlLevel(l)}>`).join(", ");
+
+  return chunks.map((chunk, i) => {
+    const own = markdownHeadings(chunk.markdown).filter((h) => h.level >= base);
+    const parent = chunk.headingPath.filter((h) => h.level >= base).at(-1);
+    const headingLevel = own.length
+      ? htmlLevel(Math.min(...own.map((h) => h.level)))
+      : parent
+        ? Math.min(6, htmlLevel(parent.level) + 1)
+        : 2;
+    const prompt = [
+      `Title: ${title}`,
+      `This is part ${i + 1} of ${chunks.length} of one long guide. Each part is converted separately and the ` +
+        "results are joined in order, so keep one consistent style and do not summarize, repeat or introduce other parts.",
+      outline ? `Outline of the whole guide:\n${outline}` : "",
+      chunk.headingPath.length ? `This part continues inside: ${chunk.headingPath.map((h) => h.text).join(" > ")}` : "",
+      i === 0
+        ? "Start with an <h1> guide title."
+        : "Do not add a guide title, introduction or closing summary; continue where the previous part ended.",
+      mapping
+        ? `Map Markdown headings to HTML headings exactly: ${mapping}. Use <h1> only for the guide title.`
+        : "Use <h1> only for the guide title.",
+      `Content:\n${chunk.markdown}`,
+      i === 0
+        ? `${GUIDE_OUTPUT_FIELDS} Title, description and tags describe the whole guide (see the outline); content covers this part only.`
+        : GUIDE_PART_OUTPUT_FIELDS,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    return { prompt, headingLevel };
+  });
+}
+
+/** Strips one outer <article> wrapper so stitched parts don't nest articles. */
+function unwrapArticle(html: string) {
+  const m = html.match(/^<article\b[^>]*>([\s\S]*)<\/article>$/i);
+  return m ? m[1].trim() : html;
+}
+
+/**
+ * Shifts a chunk's headings so its shallowest one lands on `level`, whatever levels the model picked.
+ * A leading <h1> in the first chunk is the guide title and is left alone.
+ */
+function alignChunkHeadings(fragment: string, level: number, isFirst: boolean) {
+  const titleHtml = (isFirst && fragment.match(/^\s*<h1\b[^>]*>[\s\S]*?<\/h1>/i)?.[0]) || "";
+  const rest = fragment.slice(titleHtml.length);
+  // Further <h1>s in the first part are usually the document's own title restated; they get clamped
+  // to <h2> rather than dragging every section down a level.
+  const min = minHtmlHeadingLevel(isFirst ? rest.replace(/<h1\b[\s\S]*?<\/h1>/gi, "") : rest);
+  return titleHtml + (min === null ? rest : shiftHtmlHeadings(rest, level - min, 2));
+}
+
 async function rewriteToHtmlFragment(
   title: string,
   markdown: string,
   log?: Logger,
   opts?: {
-    preferredPrimary?: "openai" | "gemini";
+    preferredProvider?: string;
     /**
-     * Called once the primary provider fails (after its internal retries),
+     * Called once per provider that fails (after its internal retries),
      * so the caller can make fallback "sticky" for the remainder of a run.
      */
-    onPrimaryFailure?: (info: { provider: "openai" | "gemini"; error: unknown }) => void;
+    onProviderFailure?: (info: { provider: string; error: unknown }) => void;
+    /** The run's audience, tone, reading level, language and house style. */
+    rewrite?: RewriteOptions;
+    /** Workspace glossary; entries the document mentions are added to the prompt. */
+    glossary?: Glossary;
+    /** Masks personal data and secrets for external providers; the result keeps their placeholders. */
+    redactor?: Redactor;
   }
 ) {
+  // Without a model, the title comes from the document's first heading and the description from its
+  // first paragraph; there are no tags.
+  const localGuide = (body: string): GuideMetadata => ({
+    title: markdownHeadings(markdown)[0]?.text.replace(/[*_`]/g, "") || title,
+    description: summarizeGuideHtml(body).description,
+    tags: [],
+  });
   const localMarkdownToHtml = () => {
     const body = String(marked.parse(markdown || "")) || "";
-    return normalizeHtmlFragment(
-      `<article data-generator="local-fallback">
+    return {
+      html: normalizeHtmlFragment(
+        `<article data-generator="local-fallback">
 <h1>${escapeHtml(title)}</h1>
 ${body}
 </article>`
-    );
+      ),
+      guide: localGuide(body),
+      cached: false,
+    };
   };
 
+  const style = [
+    rewriteStyleInstructions(opts?.rewrite),
+    opts?.glossary ? glossaryInstructions(opts.glossary, `${title}\n${markdown}`) : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
   const system =
-    "You rewrite internal guides into clean, modern HTML for non-technical users. " +
-    "Output only an HTML fragment (no <html>, no <head>, no <body>). " +
-    "Use short sections, clear headings, and simple lists. " +
-    "Do not include code fences. Do not include markdown.";
+    `You rewrite internal guides into clean, modern HTML for ${opts?.rewrite?.audience || "non-technical users"}. ` +
+    "Answer with a single JSON object and nothing else. " +
+    "HTML content is a fragment only (no <html>, no <head>, no <body>) with short sections, clear headings " +
+    "and simple lists. Do not include code fences. Do not include markdown." +
+    (style ? `\n\n${style}` : "");
 
   const prompt =
     `Title: ${title}\n\n` +
-    "Convert the content below into polished HTML that follows a consistent guide template.\n\n" +
+    "Convert the content below into polished HTML that follows a consistent guide template, starting with " +
+    "an <h1> guide title.\n\n" +
     "Content:\n" +
-    markdown;
-
-  const retrying = async (opts: {
-    provider: "openai" | "gemini";
-    maxAttempts: number;
-    apiType: "primary" | "fallback";
-    onAttempt: (attempt: number) => Promise<string>;
-  }) => {
-    let attempt = 0;
-    let lastErr: unknown = null;
-    while (attempt < opts.maxAttempts) {
-      attempt++;
-      try {
-        return await opts.onAttempt(attempt);
-      } catch (e) {
-        lastErr = e;
-        // Don't amplify 429s (free-tier quotas) or auth/config errors with retries.
-        // For OpenAI 429, we want to fail fast and switch to Gemini fallback.
-        if (isLikelyRateLimitError(e) || isLikelyAuthOrBadRequest(e)) {
-          throw e;
-        }
-        console.log(`[API Call] ${opts.provider.toUpperCase()} ${opts.apiType.toUpperCase()} - Attempt ${attempt}/${opts.maxAttempts} failed, retrying...`);
-        log?.warn("rewrite: attempt failed", {
-          provider: opts.provider,
-          apiType: opts.apiType,
-          attempt,
-          maxAttempts: opts.maxAttempts,
-          error: errorToObject(e),
-        });
-        if (attempt < opts.maxAttempts) {
-          await sleep(400 * attempt);
-        }
-      }
-    }
-    console.error(`[API Call] ${opts.provider.toUpperCase()} ${opts.apiType.toUpperCase()} - ❌ FAILED after ${opts.maxAttempts} attempts`);
-    throw lastErr instanceof Error ? lastErr : new Error(`${opts.provider} ${opts.apiType} rewrite failed`);
-  };
+    markdown +
+    `\n\n${GUIDE_OUTPUT_FIELDS}`;
 
-  const tryOpenAi = async (apiType: "primary" | "fallback"): Promise<string> => {
-    if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY missing");
+  const providers = configuredLlmProviders();
+  log?.info("rewrite: selecting engine", {
+    providers: providers.map((p) => p.id),
+    preferredProvider: opts?.preferredProvider || null,
+  });
+  if (!providers.length) {
+    log?.warn("rewrite: no LLM provider configured; using local markdown->HTML fallback");
+    return localMarkdownToHtml();
+  }
 
-    return await retrying({
-      provider: "openai",
-      apiType,
-      maxAttempts: 3,
-      onAttempt: async (attempt) => {
-        const startedAt = Date.now();
-        console.log(`[API Call] OpenAI ${apiType} - Attempt ${attempt}/3 - Model: gpt-5.1-mini`);
-        log?.info("rewrite: attempt start", {
-          provider: "openai",
-          apiType,
-          api: "openai (via Vercel AI SDK)",
-          attempt,
-          maxAttempts: 3,
-          model: "gpt-5.1-mini",
-          title,
-          markdownChars: markdown.length,
-        });
-        try {
-          const result = await generateText({
-            model: openai("gpt-5.1-mini"),
-            system,
-            prompt: `${prompt}\n\nReturn only an HTML fragment.`,
-          });
-          const html = normalizeHtmlFragment(result.text || "");
-          if (!html) throw new Error("Empty model output");
-          console.log(`[API Call] OpenAI ${apiType.toUpperCase()} - ✅ SUCCESS - Attempt ${attempt}/3`);
-          log?.info("rewrite: attempt success", {
-            provider: "openai",
-            apiType,
-            attempt,
-            durationMs: Date.now() - startedAt,
-            htmlChars: html.length,
-          });
-          return html;
-        } catch (e) {
-          console.error(`[API Call] OpenAI ${apiType.toUpperCase()} - ❌ FAILED - Attempt ${attempt}/3 - Error: ${e instanceof Error ? e.message : String(e)}`);
-          throw e;
-        }
-      },
+  // Long documents are rewritten in heading-aligned chunks that share the title and outline, then
+  // stitched; short ones keep the single-prompt path (and their existing cache entries).
+  const chunks = splitMarkdownIntoChunks(markdown, REWRITE_CHUNK_TOKENS);
+  const chunked = chunks.length > 1 ? chunkedRewritePrompts(title, markdown, chunks) : null;
+  const prompts = chunked ? chunked.map((c) => c.prompt) : [prompt];
+  if (chunked) {
+    log?.info("rewrite: splitting into chunks", {
+      chunks: chunks.length,
+      maxChunkTokens: REWRITE_CHUNK_TOKENS,
+      estimatedTokens: estimateTokens(markdown),
     });
-  };
-
-  const tryGemini = async (apiType: "primary" | "fallback"): Promise<string> => {
-    const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
-    const keySource = process.env.GEMINI_API_KEY
-      ? "GEMINI_API_KEY"
-      : process.env.GOOGLE_API_KEY
-        ? "GOOGLE_API_KEY"
-        : null;
-    if (!apiKey) throw new Error("GEMINI_API_KEY missing");
-
-    type GeminiModel = {
-      name?: string;
-      supportedGenerationMethods?: string[];
-      displayName?: string;
-    };
-
-    const configuredModel = process.env.GEMINI_MODEL || null;
-    const configuredVersion = (process.env.GEMINI_API_VERSION as "v1" | "v1beta" | undefined) || null;
-
-    const listModels = async (version: "v1" | "v1beta") => {
-      const url = new URL(`/${version}/models`, "https://generativelanguage.googleapis.com");
-      url.searchParams.set("key", apiKey);
-      const res = await fetch(url.toString(), { method: "GET" });
-      const txt = await res.text().catch(() => "");
-      if (!res.ok) throw new Error(`ListModels ${version} failed ${res.status}: ${txt.slice(0, 300)}`);
-      const json: unknown = JSON.parse(txt);
-      return ((json as { models?: GeminiModel[] })?.models || []).filter(Boolean);
-    };
-
-    const pickBestModel = (models: GeminiModel[]) => {
-      const supports = (m: GeminiModel, method: string) => (m.supportedGenerationMethods || []).includes(method);
-      const name = (m: GeminiModel) => m.name || "";
-      const eligible = models.filter((m) => supports(m, "generateContent"));
-      const byPref = (prefs: RegExp[]) => eligible.find((m) => prefs.every((re) => re.test(name(m)))) || null;
-      return (
-        // Prefer 2.5 Flash-Lite first (we've observed some keys get 429 on 2.0 flash-lite while 2.5 works)
-        byPref([/gemini/i, /2\.5/i, /flash/i, /lite/i]) ||
-        // Then 2.5 Flash
-        byPref([/gemini/i, /2\.5/i, /flash/i]) ||
-        // Then other Flash-Lite variants
-        byPref([/gemini/i, /flash/i, /lite/i]) ||
-        // Then prefer newer flash models
-        // Then prefer newer flash models
-        byPref([/gemini/i, /2\./i, /flash/i]) ||
-        byPref([/gemini/i, /1\./i, /flash/i]) ||
-        eligible[0] ||
-        null
-      );
-    };
-
-    let version: "v1" | "v1beta" = configuredVersion || "v1";
-    let model = configuredModel;
-    let modelSource: "env" | "autodetect" = configuredModel ? "env" : "autodetect";
+  }
 
-    if (!model) {
-      try {
-        const models = await listModels(version);
-        const best = pickBestModel(models);
-        model = best?.name?.replace(/^models\//, "") || null;
-      } catch {
-        version = "v1beta";
-        const models = await listModels(version);
-        const best = pickBestModel(models);
-        model = best?.name?.replace(/^models\//, "") || null;
-      }
+  // Keyed per provider and model: output from one model is not reused once another is configured.
+  // The local fallback is never cached so a later run with a working LLM still rewrites the file.
+  // Redacted requests are keyed by what was actually sent, so a cached answer's placeholders always
+  // match the values of the file being restored.
+  const sent = (p: LlmProvider, text: string) => (p.external && opts?.redactor ? opts.redactor.redact(text) : text);
+  const cacheKeyFor = (p: LlmProvider) =>
+    hashKey(REWRITE_CACHE_VERSION, sent(p, system), ...prompts.map((t) => sent(p, t)), p.id, p.modelSpec());
+  const preferred = providers.find((p) => p.id === opts?.preferredProvider);
+  for (const p of preferred ? [preferred, ...providers.filter((x) => x !== preferred)] : providers) {
+    const hit = await readCache<CachedRewrite>("html", cacheKeyFor(p));
+    if (hit?.html && hit.guide) {
+      log?.info("rewrite: cache hit", { provider: hit.provider, model: hit.model });
+      return { html: hit.html, guide: hit.guide, provider: hit.provider, cached: true };
     }
+  }
 
-    if (!model) throw new Error("No Gemini model found that supports generateContent");
-
-    const callWith = async (m: string, v: "v1" | "v1beta", src: "env" | "autodetect") => {
-      const url = new URL(`/${v}/models/${encodeURIComponent(m)}:generateContent`, "https://generativelanguage.googleapis.com");
-      url.searchParams.set("key", apiKey);
-      const maxAttempts = 2;
-      return await retrying({
-        provider: "gemini",
-        apiType,
-        // Free tier is extremely sensitive to burst traffic; keep retries low.
-        maxAttempts,
-        onAttempt: async (attempt) => {
-        const startedAt = Date.now();
-        console.log(`[API Call] Gemini ${apiType.toUpperCase()} - Attempt ${attempt}/${maxAttempts} - Model: ${m}`);
-        log?.info("rewrite: attempt start", {
-          provider: "gemini",
-          apiType,
-          api: "Google Generative Language API",
-          url: url.toString(),
-          attempt,
-          maxAttempts,
-          model: m,
-          version: v,
-          modelSource: src,
-          configuredModel,
-          configuredVersion,
-          keySource,
-          apiKey: maskSecret(apiKey),
-          title,
-          markdownChars: markdown.length,
-        });
-
-        try {
-          const res = await scheduleGeminiRequest(() =>
-            fetch(url.toString(), {
-              method: "POST",
-              headers: { "content-type": "application/json" },
-              body: JSON.stringify({
-                contents: [
-                  {
-                    role: "user",
-                    parts: [
-                      {
-                        text:
-                          `${system}\n\n` +
-                          `${prompt}\n\n` +
-                          "Return only an HTML fragment. No markdown. No code fences.",
-                      },
-                    ],
-                  },
-                ],
-                generationConfig: { temperature: 0.2 },
-              }),
-            })
-          );
-
-          if (!res.ok) {
-            const txt = await res.text().catch(() => "");
-            console.error(`[API Call] Gemini ${apiType} - FAILED - Attempt ${attempt}/${maxAttempts} - Status: ${res.status}`);
-            throw new Error(`Gemini error ${res.status}: ${txt.slice(0, 300)}`);
-          }
-
-          const json: unknown = await res.json().catch(() => null);
-          const candidates =
-            (json as { candidates?: Array<{ content?: { parts?: Array<{ text?: unknown }> } }> })
-              ?.candidates || [];
-          const text = candidates
-            .flatMap((c) => c.content?.parts || [])
-            .map((p) => (typeof p.text === "string" ? p.text : ""))
-            .join("\n")
-            .trim();
-
-          const html = normalizeHtmlFragment(text);
-          if (!html) {
-            console.error(
-              `[API Call] Gemini ${apiType.toUpperCase()} - ❌ FAILED - Attempt ${attempt}/${maxAttempts} - Empty output`
-            );
-            throw new Error("Empty Gemini output");
-          }
-          console.log(`[API Call] Gemini ${apiType} - SUCCESS - Attempt ${attempt}/${maxAttempts}`);
-          log?.info("rewrite: attempt success", {
-            provider: "gemini",
-            apiType,
-            attempt,
-            durationMs: Date.now() - startedAt,
-            htmlChars: html.length,
-          });
-          return html;
-        } catch (e) {
-          console.error(`[API Call] Gemini ${apiType.toUpperCase()} - ❌ FAILED - Attempt ${attempt}/${maxAttempts} - Error: ${e instanceof Error ? e.message : String(e)}`);
-          throw e;
-        }
-        },
-      });
-    };
+  const storeInCache = async (html: string, guide: GuideMetadata, provider: string, model: string) => {
+    const answered = providers.find((p) => p.id === provider);
+    if (!answered) return;
+    const entry: CachedRewrite = { html, guide, provider, model };
+    await writeCache("html", cacheKeyFor(answered), entry).catch((e) =>
+      log?.warn("rewrite: could not write cache entry", { error: errorToObject(e) })
+    );
+  };
 
-    // First try the chosen model (env or autodetected).
-    try {
-      return await callWith(model, version, modelSource);
-    } catch (e) {
-      // If the model was forced via env and appears quota-blocked, try a different eligible model.
-      if (modelSource === "env" && (isGeminiQuotaOrBillingError(e) || isLikelyAuthOrBadRequest(e))) {
-        log?.warn("rewrite: gemini configured model failed; trying autodetect alternative", {
-          configuredModel,
-          configuredVersion,
-          error: errorToObject(e),
+  if (chunked) {
+    // Chunks run in order; each starts with the provider that answered the previous one so a failing
+    // primary isn't retried for every chunk.
+    let preferredId = opts?.preferredProvider;
+    // Title, description and tags come from the first part, which is asked about the whole outline.
+    let guide: GuideMetadata | null = null;
+    const fragments: string[] = [];
+    const answeredBy = new Set<string>();
+    let model = "";
+    let localChunks = 0;
+    for (const [i, part] of chunked.entries()) {
+      let fragment = "";
+      try {
+        const result = await generateWithFallback({
+          system,
+          prompt: part.prompt,
+          purpose: `rewrite chunk ${i + 1}/${chunked.length}`,
+          json: true,
+          validate: (text) => void parseStructuredOutput(text, i === 0 ? guideSchema : guidePartSchema),
+          preferred: preferredId,
+          onProviderFailure: opts?.onProviderFailure,
+          redactor: opts?.redactor,
+          log,
         });
-        try {
-          let v: "v1" | "v1beta" = configuredVersion || "v1";
-          let alt: string | null = null;
-          try {
-            const models = await listModels(v);
-            const best = pickBestModel(models);
-            alt = best?.name?.replace(/^models\//, "") || null;
-          } catch {
-            v = "v1beta";
-            const models = await listModels(v);
-            const best = pickBestModel(models);
-            alt = best?.name?.replace(/^models\//, "") || null;
-          }
-          if (alt && alt !== configuredModel) {
-            log?.info("rewrite: gemini switching models", {
-              from: configuredModel,
-              to: alt,
-              version: v,
-            });
-            return await callWith(alt, v, "autodetect");
-          }
-        } catch (e2) {
-          log?.warn("rewrite: gemini alternative model attempt failed", { error: errorToObject(e2) });
+        let content: string;
+        if (i === 0) {
+          const { content: firstContent, ...metadata } = parseStructuredOutput(result.text, guideSchema);
+          guide = metadata;
+          content = firstContent;
+        } else {
+          content = parseStructuredOutput(result.text, guidePartSchema).content;
         }
+        fragment = unwrapArticle(normalizeHtmlFragment(content));
+        preferredId = result.provider;
+        answeredBy.add(result.provider);
+        model = result.model;
+      } catch (e) {
+        log?.warn("rewrite: chunk failed on all LLMs", { chunk: i + 1, error: errorToObject(e) });
       }
-      throw e;
+      if (!fragment) {
+        // Keep the rest of the guide polished; only this part falls back to the local renderer.
+        localChunks++;
+        fragment = String(marked.parse(chunks[i].markdown)) || "";
+      }
+      fragments.push(alignChunkHeadings(fragment, part.headingLevel, i === 0));
     }
-  };
-
-  log?.info("rewrite: selecting engine", {
-    hasOpenAi: !!process.env.OPENAI_API_KEY,
-    hasGemini: !!(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY),
-  });
-
-  const hasOpenAi = !!process.env.OPENAI_API_KEY;
-  const hasGemini = !!(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY);
-  if (!hasOpenAi && !hasGemini) {
-    log?.warn("rewrite: no LLM API configured; using local markdown->HTML fallback", {
-      hasOpenAi,
-      hasGemini,
+    const titleHtml = /^\s*<h1\b/i.test(fragments[0]) ? "" : `<h1>${escapeHtml(title)}</h1>\n`;
+    const html = `<article data-chunks="${chunked.length}">
+${titleHtml}${fragments.join("\n")}
+</article>`;
+    if (localChunks === chunked.length) {
+      log?.warn("rewrite: every chunk failed; using local markdown->HTML fallback");
+      return localMarkdownToHtml();
+    }
+    const provider = answeredBy.size === 1 ? [...answeredBy][0] : undefined;
+    log?.info("rewrite: done", {
+      chunks: chunked.length,
+      localChunks,
+      providers: [...answeredBy],
+      htmlChars: html.length,
     });
-    return localMarkdownToHtml();
+    guide ??= localGuide(html);
+    if (!localChunks && provider) await storeInCache(html, guide, provider, model);
+    return { html, guide, provider, cached: false };
   }
 
-  // Prefer OpenAI as primary when configured, with Gemini as fallback (or vice versa).
-  // Optionally allow the caller to make the preference "sticky" for a run.
-  const defaultPrimary: "openai" | "gemini" = hasOpenAi ? "openai" : "gemini";
-  const preferred = opts?.preferredPrimary;
-  const primary: "openai" | "gemini" =
-    preferred && ((preferred === "openai" && hasOpenAi) || (preferred === "gemini" && hasGemini))
-      ? preferred
-      : defaultPrimary;
-  const fallback: "openai" | "gemini" = primary === "openai" ? "gemini" : "openai";
-
-  const callProvider = async (provider: "openai" | "gemini", apiType: "primary" | "fallback") => {
-    if (provider === "openai") return await tryOpenAi(apiType);
-    return await tryGemini(apiType);
-  };
-
-  let primaryErr: unknown = null;
   try {
-    console.log(`\n[API Call] ========================================`);
-    console.log(`[API Call] PRIMARY API: ${primary.toUpperCase()}`);
-    console.log(`[API Call] Starting rewrite with PRIMARY API: ${primary}`);
-    console.log(`[API Call] ========================================\n`);
-    log?.info("rewrite: calling primary api", { provider: primary });
-    return await callProvider(primary, "primary");
+    const result = await generateWithFallback({
+      system,
+      prompt,
+      purpose: "rewrite",
+      json: true,
+      validate: (text) => void parseStructuredOutput(text, guideSchema),
+      preferred: opts?.preferredProvider,
+      onProviderFailure: opts?.onProviderFailure,
+      redactor: opts?.redactor,
+      log,
+    });
+    const { content, ...guide } = parseStructuredOutput(result.text, guideSchema);
+    const html = normalizeHtmlFragment(content);
+    if (html) {
+      log?.info("rewrite: done", {
+        provider: result.provider,
+        model: result.model,
+        htmlChars: html.length,
+        title: guide.title,
+        tags: guide.tags,
+      });
+      await storeInCache(html, guide, result.provider, result.model);
+      return { html, guide, provider: result.provider, cached: false };
+    }
+    log?.warn("rewrite: model returned no HTML; using local markdown->HTML fallback", { provider: result.provider });
   } catch (e) {
-    primaryErr = e;
-    opts?.onPrimaryFailure?.({ provider: primary, error: e });
-    console.error(`\n[API Call] ========================================`);
-    console.error(`[API Call] PRIMARY API (${primary.toUpperCase()}) FAILED after 3 attempts`);
-    console.error(`[API Call] Switching to FALLBACK API: ${fallback.toUpperCase()}`);
-    console.error(`[API Call] ========================================\n`);
-    log?.warn("rewrite: primary api failed; switching to fallback api", {
-      provider: primary,
+    console.error(`[API Call] ALL LLM providers failed (${providers.map((p) => p.id).join(", ")})`);
+    log?.warn("rewrite: all LLMs failed; using local markdown->HTML fallback", {
+      providers: providers.map((p) => p.id),
       error: errorToObject(e),
     });
   }
+  return localMarkdownToHtml();
+}
 
-  try {
-    console.log(`\n[API Call] ========================================`);
-    console.log(`[API Call] FALLBACK API: ${fallback.toUpperCase()}`);
-    console.log(`[API Call] Starting rewrite with FALLBACK API: ${fallback}`);
-    console.log(`[API Call] ========================================\n`);
-    log?.info("rewrite: calling fallback api", { provider: fallback });
-    return await callProvider(fallback, "fallback");
-  } catch (e) {
-    console.error(`\n[API Call] ========================================`);
-    console.error(`[API Call] FALLBACK API (${fallback.toUpperCase()}) FAILED after 3 attempts`);
-    console.error(`[API Call] ALL APIs EXHAUSTED - Failing entire run`);
-    console.error(`[API Call] ========================================\n`);
-    log?.error("rewrite: fallback api failed; surfacing support message", {
-      primaryProvider: primary,
-      primaryError: errorToObject(primaryErr),
-      fallbackProvider: fallback,
-      fallbackError: errorToObject(e),
-    });
-    log?.warn("rewrite: all LLMs failed; using local markdown->HTML fallback", {
-      primaryProvider: primary,
-      primaryError: errorToObject(primaryErr),
-      fallbackProvider: fallback,
-      fallbackError: errorToObject(e),
-    });
-    return localMarkdownToHtml();
+/** Breadth-first order: shallower files first, then by position along the parent chain. */
+function compareOrder(a: number[], b: number[]) {
+  if (a.length !== b.length) return a.length - b.length;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
   }
+  return 0;
+}
+
+/**
+ * Names can come from section headings as well as file names, so anything that isn't safe in a single
+ * path segment (or a zip entry) is replaced and overly long names are cut.
+ */
+function outputNameBase(name: string) {
+  const cleaned = [...(name || "")]
+    .map((ch) => (ch.charCodeAt(0) < 32 || '<>:"/\\|?*'.includes(ch) ? " " : ch))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_OUTPUT_NAME_CHARS)
+    .trim();
+  return cleaned || "file";
 }
 
 function makeUniqueOutputHtmlName(baseNameNoExt: string, used: Map<string, number>) {
-  const safeBase = (baseNameNoExt || "file").trim() || "file";
+  const safeBase = outputNameBase(baseNameNoExt);
   const base = `${safeBase}.html`;
-  const count = used.get(base) ?? 0;
-  if (count === 0) {
-    used.set(base, 1);
-    return base;
+  // Also skip suffixed names that are already taken, e.g. a heading that is literally "Intro (2)".
+  let count = used.get(base) ?? 0;
+  let name = base;
+  while (used.has(name)) {
+    count++;
+    name = `${safeBase} (${count}).html`;
   }
-  const next = count + 1;
-  used.set(base, next);
-  return `${safeBase} (${next}).html`;
+  used.set(base, Math.max(count, 1));
+  if (name !== base) used.set(name, 1);
+  return name;
 }
 
 async function zipDirectoryToFile(sourceDir: string, zipPath: string) {
@@ -822,11 +863,14 @@ export async function runPipeline(
   const log = createLogger("pipeline", { runId: run.runId, uploadId: run.uploadId });
   log.info("runPipeline: start", {
     cwd: process.cwd(),
+    options: run.options ?? null,
     env: {
       hasOPENAI_API_KEY: !!process.env.OPENAI_API_KEY,
       hasGEMINI_API_KEY: !!process.env.GEMINI_API_KEY,
       hasGOOGLE_API_KEY: !!process.env.GOOGLE_API_KEY,
       GEMINI_MODEL: process.env.GEMINI_MODEL || null,
+      OPENAI_COMPATIBLE_BASE_URL: process.env.OPENAI_COMPATIBLE_BASE_URL || null,
+      LLM_PROVIDERS: process.env.LLM_PROVIDERS || null,
       hasDATA_INGESTION_API_URL: !!process.env.DATA_INGESTION_API_URL,
       hasDATA_INGESTION_API_TOKEN: !!process.env.DATA_INGESTION_API_TOKEN,
       DATA_INGESTION_API_URL: process.env.DATA_INGESTION_API_URL || null,
@@ -869,30 +913,71 @@ export async function runPipeline(
     totalFiles: relFiles.length,
   });
 
-  const per = 80 / relFiles.length;
-  let idx = 0;
+  const attachmentsDir = path.join(outDir, "attachments");
 
   // Sticky LLM preference: if the primary provider fails once (e.g. broken OpenAI key),
   // keep using the fallback for the rest of this run rather than "cycling back" per file.
-  const hasOpenAi = !!process.env.OPENAI_API_KEY;
-  const hasGemini = !!(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY);
-  let preferredRewriteProvider: "openai" | "gemini" | null =
-    hasOpenAi ? "openai" : hasGemini ? "gemini" : null;
-  const usedOutputNames = new Map<string, number>();
-  const manifest: Array<{
-    sourcePath: string;
-    outputFile: string;
-    title: string;
-    status: "ok" | "error";
-    error?: string;
-  }> = [];
-
-  for (const rel of relFiles) {
-    idx++;
-    const inputPath = safeJoin(inputDir, rel);
+  const llmProviderIds = configuredLlmProviders().map((p) => p.id);
+  let preferredRewriteProvider: string | null = llmProviderIds[0] ?? null;
+  // The download's index page owns this name; a source called index.* gets a suffix instead.
+  const usedOutputNames = new Map<string, number>([[SITE_INDEX_FILE, 1]]);
+  const splitSections = run.options?.splitSections ?? process.env.SPLIT_GUIDES_BY_SECTION === "1";
+  const redact = REDACT_EVERY_RUN || run.options?.redact === true;
+  if (redact) log.info("runPipeline: masking personal data and secrets before external calls");
+  const translationLanguages = (run.options?.rewrite?.translations ?? DEFAULT_TRANSLATIONS).filter(
+    (lang) => lang !== run.options?.rewrite?.language
+  );
+  for (const lang of translationLanguages) await ensureDir(path.join(guidesDir, lang));
+  // Read once so every guide in the run is held to the same glossary, even if it is replaced meanwhile.
+  const glossary = await readGlossary(run.options?.workspace);
+  if (glossary.entries.length) {
+    log.info("runPipeline: using glossary", { workspace: run.options?.workspace, terms: glossary.entries.length });
+  }
+  const checkAgainstGlossary = (source: string, html: string) =>
+    glossary.entries.length ? checkGlossary(glossary, source, html) : undefined;
+  const manifest: ManifestEntry[] = [];
+  const cacheHits = { markdown: 0, html: 0, guides: 0 };
+
+  // Work queue rather than a fixed list: converters can surface embedded files (email attachments)
+  // that are appended and processed as their own sources.
+  // `order` is the file's position among its siblings, prefixed by its parent's: sorting by depth
+  // then `order` gives the same manifest order as sequential processing, however workers interleave.
+  type QueuedFile = {
+    rel: string;
+    inputPath: string;
+    outName: string;
+    parentRel?: string;
+    depth: number;
+    order: number[];
+  };
+  const queue: QueuedFile[] = relFiles.map((rel, i) => ({
+    rel,
+    inputPath: safeJoin(inputDir, rel),
+    outName: makeUniqueOutputHtmlName(path.basename(rel, path.extname(rel)), usedOutputNames),
+    depth: 0,
+    order: [i],
+  }));
+  const manifestOrder = new Map<ManifestEntry, number[]>();
+  let completed = 0;
+  const progressAt = (done: number) => Math.round(5 + (80 * done) / queue.length);
+
+  // Workers report concurrently, but progress observers do read-modify-write on the run state.
+  let progressChain: Promise<void> = Promise.resolve();
+  const reportProgress = (u: PipelineProgressUpdate) => {
+    const next = progressChain.then(() => onProgress(u));
+    progressChain = next.catch(() => {});
+    return next;
+  };
+  const addEntry = (entry: ManifestEntry, order: number[]) => {
+    manifest.push(entry);
+    manifestOrder.set(entry, order);
+  };
+
+  const processFile = async (i: number) => {
+    const { rel, inputPath, outName, parentRel, depth, order } = queue[i];
+    const idx = i + 1;
     const title = path.basename(rel);
     const baseNoExt = path.basename(rel, path.extname(rel));
-    const outName = makeUniqueOutputHtmlName(baseNoExt, usedOutputNames);
     const fileLog = createLogger("pipeline.file", {
       runId: run.runId,
       uploadId: run.uploadId,
@@ -901,7 +986,7 @@ export async function runPipeline(
       outputFile: outName,
     });
 
-    const desiredOutName = `${((baseNoExt || "file").trim() || "file")}.html`;
+    const desiredOutName = `${outputNameBase(baseNoExt)}.html`;
     if (outName !== desiredOutName) {
       fileLog.warn("output name collision; applied suffix", {
         desiredOutName,
@@ -920,48 +1005,276 @@ export async function runPipeline(
       fileLog.warn("file: could not stat input file", { error: errorToObject(e) });
     }
 
-    await onProgress({
-      progress: Math.round(5 + per * (idx - 1)),
+    await reportProgress({
+      progress: progressAt(completed),
       message: `Converting ${title}`,
       stage: "converting",
       currentFile: title,
       currentIndex: idx,
-      totalFiles: relFiles.length,
+      totalFiles: queue.length,
     });
 
+    let cacheNote = "";
     try {
-      const md = await toMarkdown(inputPath, fileLog);
-      fileLog.info("file: markdown ready", { markdownChars: md.length });
-      const html = await rewriteToHtmlFragment(title, md, fileLog, {
-        preferredPrimary: preferredRewriteProvider || undefined,
-        onPrimaryFailure: ({ provider, error }) => {
-          // If both are available, flip preference so we don't keep retrying the failing one.
-          if (!hasOpenAi || !hasGemini) return;
-          if (preferredRewriteProvider !== provider) return;
-          preferredRewriteProvider = provider === "openai" ? "gemini" : "openai";
-          fileLog.warn("rewrite: primary failed; making fallback sticky for remainder of run", {
-            failedProvider: provider,
-            nextPreferred: preferredRewriteProvider,
-            error: errorToObject(error),
-          });
-        },
+      const { markdown: md, ocr, attachments, encoding, converter, cached } = await toMarkdown(inputPath, fileLog, {
+        redact,
       });
-      fileLog.info("file: html ready", { htmlChars: html.length });
-      await fs.writeFile(path.join(guidesDir, outName), html, "utf8");
-      manifest.push({
-        sourcePath: rel,
-        outputFile: outName,
-        title,
-        status: "ok",
+      // One redactor per file, seeded with the whole document so placeholders are numbered the same way
+      // on every run (cached answers depend on it) and shared by its sections, chunks and translations.
+      const redactor = redact ? createRedactor() : undefined;
+      if (redactor) {
+        redactor.redact(md);
+        fileLog.info("file: masked personal data and secrets", { counts: redactor.report().counts });
+      }
+      fileLog.info("file: markdown ready", {
+        markdownChars: md.length,
+        converter,
+        cached: !!cached,
+        ocrPages: ocr?.pages.map((p) => p.page),
+        encoding: encoding?.name,
+        attachments: attachments?.length,
       });
+
+      const attachmentLinks: Array<{ name: string; outputFile: string }> = [];
+      if (attachments?.length && depth >= MAX_ATTACHMENT_DEPTH) {
+        fileLog.warn("file: attachments nested too deep; skipping", { depth, count: attachments.length });
+      } else {
+        for (const att of attachments || []) {
+          const name = path.basename(att.fileName.replaceAll("\\", "/")).replaceAll("\0", "") || "attachment";
+          const attRel = `${rel}/${name}`;
+          const attPath = safeJoin(attachmentsDir, attRel);
+          await ensureDir(path.dirname(attPath));
+          await fs.writeFile(attPath, att.content);
+          const attOut = makeUniqueOutputHtmlName(path.basename(name, path.extname(name)), usedOutputNames);
+          queue.push({
+            rel: attRel,
+            inputPath: attPath,
+            outName: attOut,
+            parentRel: rel,
+            depth: depth + 1,
+            order: [...order, attachmentLinks.length],
+          });
+          attachmentLinks.push({ name, outputFile: attOut });
+        }
+        if (attachmentLinks.length) {
+          fileLog.info("file: queued attachments", { attachments: attachmentLinks, totalFiles: queue.length });
+        }
+      }
+
+      // Split mode emits one guide per top-level section; documents without real sections still get
+      // a single guide.
+      const sections = splitSections ? splitMarkdownSections(md) : [];
+      const parts = sections.length
+        ? sections.map((section, n) => ({
+            title: section.heading,
+            markdown: section.markdown,
+            outName: makeUniqueOutputHtmlName(`${baseNoExt} - ${section.heading}`, usedOutputNames),
+            section: {
+              index: n + 1,
+              count: sections.length,
+              heading: section.heading,
+              startLine: section.startLine,
+              endLine: section.endLine,
+            },
+          }))
+        : [{ title, markdown: md, outName, section: undefined }];
+      if (sections.length) {
+        fileLog.info("file: split into section guides", {
+          sections: parts.map((p) => ({ heading: p.title, outputFile: p.outName, lines: p.section })),
+        });
+      }
+
+      const onProviderFailure = ({ provider, error }: { provider: string; error: unknown }) => {
+        // Move preference to the next provider so we don't keep retrying the failing one.
+        if (llmProviderIds.length < 2) return;
+        if (preferredRewriteProvider !== provider) return;
+        const idx = llmProviderIds.indexOf(provider);
+        preferredRewriteProvider = llmProviderIds[(idx + 1) % llmProviderIds.length];
+        fileLog.warn("rewrite: primary failed; making fallback sticky for remainder of run", {
+          failedProvider: provider,
+          nextPreferred: preferredRewriteProvider,
+          error: errorToObject(error),
+        });
+      };
+      const attachmentsHtml = attachmentLinks.length
+        ? `\n<section data-role="attachments">
+<h2>Attachments</h2>
+<ul>
+${attachmentLinks.map((a) => `<li><a href="${encodeURI(a.outputFile)}">${escapeHtml(a.name)}</a></li>`).join("\n")}
+</ul>
+</section>`
+        : "";
+
+      let htmlCachedParts = 0;
+      for (const [n, part] of parts.entries()) {
+        try {
+          if (part.section) {
+            await reportProgress({
+              progress: progressAt(completed),
+              message: `Rewriting ${title}: ${part.title} (${n + 1}/${parts.length})`,
+              stage: "converting",
+              currentFile: title,
+              currentIndex: idx,
+              totalFiles: queue.length,
+            });
+          }
+          const rewrite = restoreRedacted(
+            await rewriteToHtmlFragment(part.title, part.markdown, fileLog, {
+              preferredProvider: preferredRewriteProvider || undefined,
+              onProviderFailure,
+              rewrite: run.options?.rewrite,
+              glossary,
+              redactor,
+            }),
+            redactor
+          );
+          // Model output (and raw HTML passed through by the local fallback) is rendered as-is by the
+          // preview, so it is reduced to the allowlist before it is written.
+          const { html, report: sanitized } = sanitizeHtmlFragment(rewrite.html);
+          if (!isSanitizeReportEmpty(sanitized)) {
+            fileLog.warn("file: removed disallowed HTML from rewrite", { outputFile: part.outName, sanitized });
+          }
+          const fidelity = checkSourceFidelity(part.markdown, html, {
+            context: part.title,
+            translated: !!run.options?.rewrite?.language,
+          });
+          if (fidelity.warnings.length) {
+            fileLog.warn("file: rewrite differs from source", { outputFile: part.outName, ...fidelity });
+          }
+          const glossaryReport = checkAgainstGlossary(part.markdown, html);
+          if (glossaryReport?.violations.length) {
+            fileLog.warn("file: rewrite breaks the glossary", {
+              outputFile: part.outName,
+              violations: glossaryReport.violations.map(describeGlossaryViolation),
+            });
+          }
+          fileLog.info("file: html ready", { outputFile: part.outName, htmlChars: html.length, cached: rewrite.cached });
+          const cache = { markdown: !!cached, html: rewrite.cached };
+          if (cache.markdown) cacheHits.markdown++;
+          if (cache.html) cacheHits.html++;
+          if (cache.markdown && cache.html) cacheHits.guides++;
+          if (cache.html) htmlCachedParts++;
+          // Attachments are linked from the file's first guide only.
+          const written = n === 0 ? html + attachmentsHtml : html;
+          await fs.writeFile(path.join(guidesDir, part.outName), written, "utf8");
+
+          // Translations start from the finished guide, so every language has the same sections and links.
+          const translations: Record<string, TranslationEntry> = {};
+          for (const lang of translationLanguages) {
+            const outputFile = `${lang}/${part.outName}`;
+            await reportProgress({
+              progress: progressAt(completed),
+              message: `Translating ${part.title} into ${languageName(lang)}`,
+              stage: "converting",
+              currentFile: title,
+              currentIndex: idx,
+              totalFiles: queue.length,
+            });
+            try {
+              const translated = restoreRedacted(
+                await translateGuide({
+                  html: written,
+                  guide: rewrite.guide,
+                  language: lang,
+                  rewrite: run.options?.rewrite,
+                  glossary,
+                  maxTokens: REWRITE_CHUNK_TOKENS,
+                  preferredProvider: preferredRewriteProvider || undefined,
+                  onProviderFailure,
+                  redactor,
+                  log: fileLog,
+                }),
+                redactor
+              );
+              const { html: translatedHtml, report: translatedSanitized } = sanitizeHtmlFragment(translated.html);
+              await fs.writeFile(safeJoin(guidesDir, outputFile), translatedHtml, "utf8");
+              translations[lang] = {
+                outputFile,
+                status: "ok",
+                title: translated.guide.title,
+                ...(translated.guide.description ? { description: translated.guide.description } : null),
+                tags: translated.guide.tags,
+                ...(translated.cached ? { cached: true } : null),
+                sanitized: translatedSanitized,
+                fidelity: checkSourceFidelity(part.markdown, translatedHtml, { context: part.title, translated: true }),
+                glossary: checkAgainstGlossary(part.markdown, translatedHtml),
+              };
+            } catch (e) {
+              fileLog.warn("file: translation failed", { outputFile, language: lang, error: errorToObject(e) });
+              translations[lang] = { outputFile, status: "error", error: e instanceof Error ? e.message : String(e) };
+            }
+          }
+
+          addEntry(
+            {
+              sourcePath: rel,
+              outputFile: part.outName,
+              title: rewrite.guide.title,
+              ...(rewrite.guide.description ? { description: rewrite.guide.description } : null),
+              tags: rewrite.guide.tags,
+              status: "ok",
+              ...(ocr ? { ocr } : null),
+              ...(encoding ? { encoding } : null),
+              ...(converter ? { converter } : null),
+              ...(parentRel ? { parentSourcePath: parentRel } : null),
+              ...(part.section ? { section: part.section } : null),
+              ...(n === 0 && attachmentLinks.length
+                ? { attachments: attachmentLinks.map((a) => a.outputFile) }
+                : null),
+              ...(cache.markdown || cache.html ? { cache } : null),
+              sanitized,
+              fidelity,
+              ...(glossaryReport ? { glossary: glossaryReport } : null),
+              ...(redactor ? { redaction: redactor.report() } : null),
+              ...(translationLanguages.length ? { translations } : null),
+            },
+            order
+          );
+        } catch (e) {
+          // A failed section becomes its own error guide; the file's other sections are still written.
+          // Unsplit files and run-fatal failures go to the file-level handler below.
+          if (!part.section || isSupportFailure(e)) throw e;
+          const msg = e instanceof Error ? e.message : "Conversion failed";
+          fileLog.error("file: section conversion failed", {
+            outputFile: part.outName,
+            section: part.section,
+            error: errorToObject(e),
+          });
+          const html = conversionErrorHtml(rel, msg, part.title);
+          await fs.writeFile(path.join(guidesDir, part.outName), n === 0 ? html + attachmentsHtml : html, "utf8");
+          addEntry(
+            {
+              sourcePath: rel,
+              outputFile: part.outName,
+              title: part.title,
+              status: "error",
+              error: msg,
+              ...(parentRel ? { parentSourcePath: parentRel } : null),
+              section: part.section,
+              ...(n === 0 && attachmentLinks.length
+                ? { attachments: attachmentLinks.map((a) => a.outputFile) }
+                : null),
+            },
+            order
+          );
+        }
+      }
+      const allHtmlCached = htmlCachedParts === parts.length;
+      cacheNote =
+        cached && allHtmlCached
+          ? " (from cache)"
+          : cached
+            ? " (cached extraction)"
+            : allHtmlCached
+              ? " (cached rewrite)"
+              : "";
       fileLog.info("file: wrote output", { guidesDir });
     } catch (e) {
       const msg = e instanceof Error ? e.message : "Conversion failed";
       fileLog.error("file: conversion failed", { error: errorToObject(e) });
       
       // If all APIs failed after retries (SUPPORT_MESSAGE), fail the entire run instead of just this file
-      // Check both exact match and if message contains SUPPORT_MESSAGE (in case of wrapped errors)
-      if (msg === SUPPORT_MESSAGE || msg.includes(SUPPORT_MESSAGE)) {
+      if (isSupportFailure(e)) {
         console.error(`\n[Pipeline] ========================================`);
         console.error(`[Pipeline] CRITICAL API FAILURE for file "${rel}"`);
         console.error(`[Pipeline] Error: ${msg}`);
@@ -976,41 +1289,83 @@ export async function runPipeline(
       
       // For other errors, write error HTML and continue with other files
       console.warn(`[Pipeline] Non-critical error for file "${rel}": ${msg}. Writing error HTML and continuing.`);
-      const html = `<h2>Conversion failed</h2>
-<p><strong>File:</strong> ${escapeHtml(rel)}</p>
-<p><strong>Error:</strong> ${escapeHtml(msg)}</p>`;
-      await fs.writeFile(path.join(guidesDir, outName), html, "utf8");
-      manifest.push({
-        sourcePath: rel,
-        outputFile: outName,
-        title,
-        status: "error",
-        error: msg,
-      });
+      await fs.writeFile(path.join(guidesDir, outName), conversionErrorHtml(rel, msg), "utf8");
+      addEntry(
+        {
+          sourcePath: rel,
+          outputFile: outName,
+          title,
+          status: "error",
+          error: msg,
+          ...(parentRel ? { parentSourcePath: parentRel } : null),
+        },
+        order
+      );
       fileLog.info("file: wrote error output", { guidesDir });
     } finally {
-      await onProgress({
-        progress: Math.round(5 + per * idx),
-        message: `Processed ${title}`,
+      completed++;
+      await reportProgress({
+        progress: progressAt(completed),
+        message: `Processed ${title}${cacheNote}`,
         stage: "writing",
         currentFile: title,
         currentIndex: idx,
-        totalFiles: relFiles.length,
+        totalFiles: queue.length,
       });
     }
+  };
+
+  const concurrency = Math.max(1, Math.floor(PIPELINE_CONCURRENCY) || 1);
+  log.info("runPipeline: processing files", { concurrency, totalFiles: queue.length });
+  // Attachments are appended while files are in flight, so free slots are refilled until the queue is
+  // drained and nothing still running could add to it.
+  const active = new Set<Promise<void>>();
+  let nextIndex = 0;
+  const fatalErrors: unknown[] = [];
+  while (!fatalErrors.length && (nextIndex < queue.length || active.size)) {
+    while (!fatalErrors.length && active.size < concurrency && nextIndex < queue.length) {
+      const task: Promise<void> = processFile(nextIndex++)
+        .catch((e: unknown) => {
+          fatalErrors.push(e);
+        })
+        .finally(() => active.delete(task));
+      active.add(task);
+    }
+    if (active.size) await Promise.race(active);
+  }
+  if (fatalErrors.length) {
+    // Let in-flight files settle so nothing writes into the output folder after the run has failed.
+    await Promise.allSettled(active);
+    throw fatalErrors[0];
   }
+  manifest.sort((a, b) => compareOrder(manifestOrder.get(a) ?? [], manifestOrder.get(b) ?? []));
 
   await onProgress({
     progress: 90,
     message: "Creating zip...",
     stage: "zipping",
-    currentIndex: relFiles.length,
-    totalFiles: relFiles.length,
+    currentIndex: queue.length,
+    totalFiles: queue.length,
   });
+  const theme = getGuideTheme(run.options?.theme);
+  const formats: OutputFormat[] = run.options?.formats ?? ["html"];
   const manifestPath = path.join(outDir, "manifest.json");
   await fs.writeFile(
     manifestPath,
-    JSON.stringify({ runId: run.runId, uploadId: run.uploadId, guides: manifest }, null, 2),
+    JSON.stringify(
+      {
+        runId: run.runId,
+        uploadId: run.uploadId,
+        theme: theme.id,
+        formats,
+        ...(run.options?.rewrite ? { rewrite: run.options.rewrite } : null),
+        ...(translationLanguages.length ? { translations: translationLanguages } : null),
+        cacheHits,
+        guides: manifest,
+      },
+      null,
+      2
+    ),
     "utf8"
   );
   const zipPath = path.join(outDir, "guides.zip");
@@ -1018,16 +1373,66 @@ export async function runPipeline(
     outputs: manifest.map((m) => m.outputFile),
     outputsCount: manifest.length,
   });
-  // Zip ONLY the converted HTML files, with no folders and no manifest.
-  await zipDirectoryToFile(guidesDir, zipPath);
+  // The zip is a flat, browsable mini-site: index.html plus themed, standalone guides with navigation
+  // (no manifest).
+  const siteDir = path.join(outDir, "site");
+  const lang = run.options?.rewrite?.language;
+  const site = await buildGuideSite({
+    guidesDir,
+    siteDir,
+    guides: manifest,
+    theme,
+    branding: run.options?.branding,
+    lang,
+    translations: translationLanguages,
+  });
+  await zipDirectoryToFile(siteDir, zipPath);
   log.info("runPipeline: zip created", {
     zipPath,
-    guidesDir,
+    siteDir,
+    indexFile: site.indexFile,
+    theme: theme.id,
     manifestPath,
     filesZipped: manifest.length,
+    cacheHits,
+  });
+
+  // Other formats are rebuilt from the same fragments, each as one file next to guides.zip.
+  const downloads: Partial<Record<OutputFormat, string>> = { html: zipPath };
+  for (const format of formats) {
+    if (format === "html") continue;
+    await onProgress({
+      progress: 95,
+      message: `Creating ${OUTPUT_FORMATS[format].label} download...`,
+      stage: "zipping",
+      currentIndex: queue.length,
+      totalFiles: queue.length,
+    });
+    const bundlePath = path.join(outDir, OUTPUT_FORMATS[format].fileName);
+    if (format === "epub") {
+      const epub = await buildEpubHandbook({
+        guidesDir,
+        guides: manifest,
+        title: run.options?.branding?.headerText || "Guides",
+        identifier: `urn:uuid:${run.runId}`,
+        lang,
+      });
+      await fs.writeFile(bundlePath, epub);
+    } else {
+      const dir = path.join(outDir, format);
+      const write = format === "markdown" ? writeMarkdownExport : writeDocxExport;
+      await write({ guidesDir, dir, guides: manifest });
+      await zipDirectoryToFile(dir, bundlePath);
+    }
+    downloads[format] = bundlePath;
+    log.info("runPipeline: export created", { format, bundlePath });
+  }
+
+  await onProgress({
+    progress: 100,
+    message: cacheHits.guides ? `Done (${cacheHits.guides} of ${manifest.length} guides from cache)` : "Done",
   });
-  await onProgress({ progress: 100, message: "Done" });
 
-  return { zipPath };
+  return { zipPath, downloads };
 }
 
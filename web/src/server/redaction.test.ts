@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRedactor } from "@/server/redaction";
+
+function redact(text: string) {
+  return createRedactor().redact(text);
+}
+
+test("leaves prose about credentials alone", () => {
+  for (const text of [
+    "Your password is required to continue.",
+    "If the PIN is incorrect, try again.",
+    "The API key is optional.",
+    "The access token is short-lived.",
+    "Password: required",
+  ]) {
+    assert.equal(redact(text), text);
+  }
+});
+
+test("masks labelled credentials", () => {
+  assert.equal(redact("Password: hunter22."), "Password: [SECRET_1].");
+  assert.equal(redact("The PIN is 4711"), "The PIN is [SECRET_1]");
+  assert.equal(redact("**API key**: abc$def_ghi"), "**API key**: [SECRET_1]");
+  assert.equal(redact("the password is 'letmein'"), "the password is '[SECRET_1]'");
+  assert.equal(redact("client_secret=s3cr3t-value"), "client_secret=[SECRET_1]");
+});
+
+test("does not restore secrets", () => {
+  const redactor = createRedactor();
+  const masked = redactor.redact("Password: hunter22");
+  assert.equal(redactor.restore(masked), masked);
+  assert.equal(redactor.restore(masked, { all: true }), "Password: hunter22");
+});
+
+test("leaves times, ids and dates that look like phone numbers alone", () => {
+  for (const text of [
+    "Opening hours 09.00 - 17.30",
+    "Opening hours 9:00-17:30 on weekdays",
+    "See invoice 2024-0001-2345 for details.",
+    "Order number 1234 5678 9012",
+    "Ticket #: 555-123-4567",
+    "ISBN 978-3-16-148410-0",
+    "Released on 2024-03-15.",
+  ]) {
+    assert.equal(redact(text), text);
+  }
+});
+
+test("masks phone numbers", () => {
+  assert.equal(redact("Call +44 20 7946 0958 today."), "Call [PHONE_1] today.");
+  assert.equal(redact("Call (555) 123-4567."), "Call [PHONE_1].");
+  assert.equal(redact("Phone number: 555-123-4567"), "Phone number: [PHONE_1]");
+  assert.equal(redact("Tel. 030 1234567"), "Tel. [PHONE_1]");
+});
+
+test("reuses placeholders and restores values", () => {
+  const redactor = createRedactor();
+  const masked = redactor.redact("Mail jane@example.com or jane@example.com, call +1 555 123 4567");
+  assert.equal(masked, "Mail [EMAIL_1] or [EMAIL_1], call [PHONE_1]");
+  assert.equal(redactor.restore(masked), "Mail jane@example.com or jane@example.com, call +1 555 123 4567");
+  assert.deepEqual(redactor.report().counts, { email: 1, phone: 1 });
+});
@@ -0,0 +1,132 @@
+/**
+ * Per-run writing options for the rewrite step: who the guides are for, how they sound and which
+ * language they are written in. They only change the instructions given to the model, so every
+ * provider gets them, and runs with the same options share cached rewrites.
+ */
+
+export type RewriteTone = "friendly" | "neutral" | "formal" | "concise";
+
+export type ReadingLevel = "simple" | "general" | "expert";
+
+export type RewriteOptions = {
+  /** Who the guides are written for, e.g. "new warehouse staff". Defaults to non-technical users. */
+  audience?: string;
+  tone?: RewriteTone;
+  readingLevel?: ReadingLevel;
+  /** BCP 47 language tag of the output, e.g. "de" or "pt-BR". Unset keeps the source's language. */
+  language?: string;
+  /** Free-form house style guide (terminology, formatting, voice) applied to every guide. */
+  styleGuide?: string;
+  /** Extra languages (BCP 47 tags) every guide is translated into, written to `guides/<lang>/`. */
+  translations?: string[];
+};
+
+export const REWRITE_TONES: Record<RewriteTone, { label: string; instruction: string }> = {
+  friendly: { label: "Friendly", instruction: "Use a warm, encouraging tone and address the reader as \"you\"." },
+  neutral: { label: "Neutral", instruction: "Use a plain, neutral tone." },
+  formal: { label: "Formal", instruction: "Use a formal, professional tone without contractions or slang." },
+  concise: { label: "Concise", instruction: "Be brief: short sentences, no filler, steps over explanations." },
+};
+
+export const READING_LEVELS: Record<ReadingLevel, { label: string; instruction: string }> = {
+  simple: {
+    label: "Simple",
+    instruction:
+      "Write in plain language for a reading age of about 11: short sentences, everyday words, and explain " +
+      "any term you must keep.",
+  },
+  general: {
+    label: "General",
+    instruction: "Write for a general adult reader: clear sentences, and explain specialist terms on first use.",
+  },
+  expert: {
+    label: "Expert",
+    instruction: "Write for specialists: keep technical terms and precise detail, and skip basic explanations.",
+  },
+};
+
+const MAX_AUDIENCE_CHARS = 200;
+const MAX_STYLE_GUIDE_CHARS = 8000;
+const LANGUAGE_TAG_RE = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i;
+// Each translation is another model call per guide.
+const MAX_TRANSLATIONS = 5;
+
+function cleanText(value: unknown, max: number) {
+  if (typeof value !== "string") return undefined;
+  const text = value.trim().slice(0, max);
+  return text || undefined;
+}
+
+/** Canonical language tag ("pt-br" -> "pt-BR"), or undefined when it isn't one. */
+export function cleanLanguageTag(value: unknown) {
+  if (typeof value !== "string" || !LANGUAGE_TAG_RE.test(value.trim())) return undefined;
+  try {
+    return Intl.getCanonicalLocales(value.trim())[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Name of a language tag for prompts and labels, in English by default ("de" -> "German"); pass the
+ * tag itself as `displayIn` for its own name ("Deutsch").
+ */
+export function languageName(tag: string, displayIn = "en") {
+  try {
+    return new Intl.DisplayNames([displayIn], { type: "language" }).of(tag) || tag;
+  } catch {
+    return tag;
+  }
+}
+
+/** Language tags from an array or a comma-separated string, canonical and deduplicated. */
+export function parseLanguageList(raw: unknown) {
+  const items = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : [];
+  const tags = items.map(cleanLanguageTag).filter((t): t is string => !!t);
+  return [...new Set(tags)].slice(0, MAX_TRANSLATIONS);
+}
+
+/** Reads rewrite options from an untrusted request body; undefined when none are set. */
+export function parseRewriteOptions(raw: unknown): RewriteOptions | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const o = raw as Record<string, unknown>;
+  const options: RewriteOptions = {
+    audience: cleanText(o.audience, MAX_AUDIENCE_CHARS)?.replace(/\s+/g, " "),
+    tone: typeof o.tone === "string" && Object.hasOwn(REWRITE_TONES, o.tone) ? (o.tone as RewriteTone) : undefined,
+    readingLevel:
+      typeof o.readingLevel === "string" && Object.hasOwn(READING_LEVELS, o.readingLevel)
+        ? (o.readingLevel as ReadingLevel)
+        : undefined,
+    language: cleanLanguageTag(o.language),
+    styleGuide: cleanText(o.styleGuide, MAX_STYLE_GUIDE_CHARS),
+  };
+  const translations = parseLanguageList(o.translations).filter((t) => t !== options.language);
+  if (translations.length) options.translations = translations;
+  const set = Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined)) as RewriteOptions;
+  return Object.keys(set).length ? set : undefined;
+}
+
+/**
+ * Instructions added to the rewrite system prompt for these options; empty when none are set, so
+ * the default prompt (and its cache entries) are unchanged.
+ */
+export function rewriteStyleInstructions(options: RewriteOptions | undefined) {
+  if (!options) return "";
+  const lines: string[] = [];
+  if (options.tone) lines.push(REWRITE_TONES[options.tone].instruction);
+  if (options.readingLevel) lines.push(READING_LEVELS[options.readingLevel].instruction);
+  if (options.language) {
+    lines.push(
+      `Write the guide in ${languageName(options.language)} (${options.language}), including the title, ` +
+        "description and tags, whatever the language of the source. Keep product names, codes, numbers and " +
+        "URLs as they are."
+    );
+  }
+  if (options.styleGuide) {
+    lines.push(
+      "Follow this house style guide unless it conflicts with the answer format:\n" +
+        `<style-guide>\n${options.styleGuide}\n</style-guide>`
+    );
+  }
+  return lines.join("\n");
+}
@@ -1,11 +1,33 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import { ensureDir, getRunsDir, writeJsonAtomic } from "@/server/storage";
+import { ensureDir, getRunsDir, parseWorkspaceId, writeJsonAtomic } from "@/server/storage";
+import { parseGuideBranding, type GuideBranding } from "@/server/themes";
+import { OUTPUT_FORMATS, parseOutputFormats, type OutputFormat } from "@/server/exports/formats";
+import { parseRewriteOptions, type RewriteOptions } from "@/server/rewrite-options";
+
+/** Processing choices made when a run is started; stored with the run so the worker can apply them. */
+export type RunOptions = {
+  /** Emit one guide per top-level section of each document instead of one guide per file. */
+  splitSections?: boolean;
+  /** Theme id for the downloaded guides (see `listGuideThemes`). */
+  theme?: string;
+  /** Per-run overrides of the theme's logo, header/footer text and colours. */
+  branding?: GuideBranding;
+  /** Download bundles to build; HTML is always included. */
+  formats?: OutputFormat[];
+  /** Audience, tone, reading level, output language and house style for the rewrite prompt. */
+  rewrite?: RewriteOptions;
+  /** Mask personal data and secrets before anything is sent to an external service (always on with `REDACT_PII=1`). */
+  redact?: boolean;
+  /** Workspace whose glossary the run is held to; the default workspace when unset. */
+  workspace?: string;
+};
 
 export type RunState =
   | {
       runId: string;
       uploadId: string;
+      options?: RunOptions;
       status: "queued" | "running";
       progress: number;
       message?: string;
@@ -21,6 +43,7 @@ export type RunState =
   | {
       runId: string;
       uploadId: string;
+      options?: RunOptions;
       status: "completed";
       progress: 100;
       message?: string;
@@ -30,7 +53,10 @@ export type RunState =
         total?: number;
         stage?: "reading" | "converting" | "writing" | "zipping";
       };
+      /** The HTML site zip. */
       downloadPath: string;
+      /** Every bundle the run built, by format (including HTML). */
+      downloads?: Partial<Record<OutputFormat, string>>;
       createdAt: string;
       updatedAt: string;
       completedAt: string;
@@ -38,6 +64,7 @@ export type RunState =
   | {
       runId: string;
       uploadId: string;
+      options?: RunOptions;
       status: "failed";
       progress: number;
       error: string;
@@ -59,6 +86,35 @@ export type RunState =
       failedAt: string;
     };
 
+/** Reads options from an untrusted request body, keeping only known fields with the right types. */
+export function parseRunOptions(raw: unknown): RunOptions {
+  const o = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const branding = parseGuideBranding(o.branding);
+  const formats = parseOutputFormats(o.formats);
+  const rewrite = parseRewriteOptions(o.rewrite);
+  const workspace = parseWorkspaceId(o.workspace);
+  return {
+    ...(typeof o.splitSections === "boolean" ? { splitSections: o.splitSections } : null),
+    ...(typeof o.theme === "string" && /^[\w-]{1,64}$/.test(o.theme) ? { theme: o.theme } : null),
+    ...(branding ? { branding } : null),
+    ...(formats ? { formats } : null),
+    ...(rewrite ? { rewrite } : null),
+    ...(typeof o.redact === "boolean" ? { redact: o.redact } : null),
+    ...(workspace ? { workspace } : null),
+  };
+}
+
+/** Download links for a completed run, one per bundle it built (runs from before exports only have HTML). */
+export function runDownloadLinks(state: Extract<RunState, { status: "completed" }>) {
+  const formats = Object.keys(state.downloads ?? { html: state.downloadPath }) as OutputFormat[];
+  const base = `/api/runs/${encodeURIComponent(state.runId)}/download`;
+  return formats.map((format) => ({
+    format,
+    label: OUTPUT_FORMATS[format].label,
+    url: format === "html" ? base : `${base}?format=${format}`,
+  }));
+}
+
 export function getRunDir(runId: string) {
   return path.join(getRunsDir(), runId);
 }
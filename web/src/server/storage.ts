@@ -22,6 +22,23 @@ export function getRunsDir() {
   return path.join(getDataDir(), "runs");
 }
 
+export function getCacheDir() {
+  return path.join(getDataDir(), "cache");
+}
+
+/** Workspace used when a request names none; it also keeps settings stored before workspaces existed. */
+export const DEFAULT_WORKSPACE = "default";
+
+/** Workspace id from untrusted input (a slug, compared case-insensitively), or null when it isn't one. */
+export function parseWorkspaceId(raw: unknown) {
+  return typeof raw === "string" && /^[a-z0-9][a-z0-9_-]{0,63}$/i.test(raw) ? raw.toLowerCase() : null;
+}
+
+/** Per-workspace settings, such as the glossary. */
+export function getWorkspaceDir(workspace: string) {
+  return path.join(getDataDir(), "workspaces", workspace);
+}
+
 export async function ensureDir(dir: string) {
   await fs.mkdir(dir, { recursive: true });
 }
@@ -41,7 +58,8 @@ export function safeJoin(baseDir: string, unsafeRelativePath: string) {
 export async function writeJsonAtomic(filePath: string, value: unknown) {
   const dir = path.dirname(filePath);
   await ensureDir(dir);
-  const tmp = `${filePath}.${Date.now()}.tmp`;
+  // Unique per write: concurrent writers of the same file must not share a temp file.
+  const tmp = `${filePath}.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`;
   await fs.writeFile(tmp, JSON.stringify(value, null, 2), "utf8");
   await fs.rename(tmp, filePath);
 }
@@ -0,0 +1,195 @@
+/**
+ * Themes for the downloaded guides: each wraps a guide fragment in a complete HTML document with the
+ * theme's CSS, brand colours, logo and header/footer text. A run picks a theme by id and can override
+ * the branding fields without touching the CSS.
+ */
+
+export type GuideBranding = {
+  /** Shown in the page header next to the logo. */
+  headerText?: string;
+  footerText?: string;
+  /** http(s) URL or `data:image/...` URI; data URIs keep the zip self-contained. */
+  logoUrl?: string;
+  /** Hex colours (#rgb or #rrggbb). */
+  primaryColor?: string;
+  accentColor?: string;
+};
+
+export type GuideTheme = {
+  id: string;
+  label: string;
+  /** Page CSS. Brand colours are available as `--brand-primary` and `--brand-accent`. */
+  css: string;
+  branding: GuideBranding;
+};
+
+const HEX_COLOR_RE = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const MAX_BRANDING_TEXT_CHARS = 200;
+// Enough for a small inline PNG/SVG logo.
+const MAX_LOGO_URL_CHARS = 200_000;
+
+const BASE_CSS = `
+:root { color-scheme: light; }
+* { box-sizing: border-box; }
+body {
+  margin: 0;
+  font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+  line-height: 1.55;
+  color: #0f172a;
+  background: #ffffff;
+}
+a { color: var(--brand-primary); text-decoration: none; }
+a:hover { text-decoration: underline; }
+pre, code { font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", monospace; }
+pre { padding: 12px; background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 10px; overflow: auto; }
+hr { border: 0; border-top: 1px solid #e2e8f0; margin: 16px 0; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #e2e8f0; padding: 8px; vertical-align: top; }
+blockquote { margin: 0; padding-left: 12px; border-left: 3px solid var(--brand-accent); color: #475569; }
+img { max-width: 100%; height: auto; }
+.page-header, .page-footer, main { max-width: 960px; margin: 0 auto; padding: 16px 24px; }
+.page-header { display: flex; align-items: center; gap: 12px; }
+.page-header img { max-height: 40px; width: auto; }
+.page-header span { font-weight: 600; }
+.page-footer { color: #64748b; font-size: 0.875rem; }
+nav[data-role="guide-nav"] { display: flex; flex-wrap: wrap; gap: 16px; margin: 8px 0 24px; font-size: 0.9rem; }
+nav[data-role="guide-nav"] a[rel="next"] { margin-left: auto; }
+nav[data-role="language-switcher"] { display: flex; justify-content: flex-end; gap: 12px; font-size: 0.85rem; }
+`;
+
+const BUILTIN_THEMES: GuideTheme[] = [
+  {
+    id: "default",
+    label: "Default",
+    css: BASE_CSS,
+    branding: { primaryColor: "#2563eb", accentColor: "#e2e8f0" },
+  },
+  {
+    id: "corporate",
+    label: "Corporate",
+    css: `${BASE_CSS}
+body { background: #f1f5f9; }
+.page-header-band { background: var(--brand-primary); color: #ffffff; }
+.page-header-band .page-header span { color: #ffffff; }
+main { background: #ffffff; border-radius: 12px; margin-top: 24px; margin-bottom: 24px; padding: 32px;
+  box-shadow: 0 1px 3px rgb(15 23 42 / 0.08); }
+h1, h2 { color: var(--brand-primary); }
+h2 { border-bottom: 2px solid var(--brand-accent); padding-bottom: 4px; }
+`,
+    branding: { primaryColor: "#1e3a8a", accentColor: "#f59e0b" },
+  },
+  {
+    id: "print",
+    label: "Print-friendly",
+    css: `${BASE_CSS}
+body { font-family: Georgia, "Times New Roman", serif; font-size: 12pt; }
+main { max-width: 720px; }
+h1, h2, h3 { font-family: ui-sans-serif, system-ui, sans-serif; }
+@media print {
+  nav[data-role="guide-nav"] { display: none; }
+  a { color: inherit; }
+  pre, table, blockquote { break-inside: avoid; }
+}
+`,
+    branding: { primaryColor: "#111827", accentColor: "#9ca3af" },
+  },
+];
+
+const registered: GuideTheme[] = [];
+
+/** Adds a theme (or replaces a built-in with the same id). */
+export function registerGuideTheme(theme: GuideTheme) {
+  const idx = registered.findIndex((t) => t.id === theme.id);
+  if (idx >= 0) registered.splice(idx, 1);
+  registered.push(theme);
+}
+
+export function listGuideThemes(): GuideTheme[] {
+  const ids = new Set(registered.map((t) => t.id));
+  return [...BUILTIN_THEMES.filter((t) => !ids.has(t.id)), ...registered];
+}
+
+/** Theme by id, falling back to the default theme for unknown ids. */
+export function getGuideTheme(id?: string) {
+  const themes = listGuideThemes();
+  return themes.find((t) => t.id === id) ?? themes.find((t) => t.id === "default") ?? BUILTIN_THEMES[0];
+}
+
+function cleanText(value: unknown) {
+  if (typeof value !== "string") return undefined;
+  const text = value.replace(/\s+/g, " ").trim().slice(0, MAX_BRANDING_TEXT_CHARS);
+  return text || undefined;
+}
+
+function cleanColor(value: unknown) {
+  return typeof value === "string" && HEX_COLOR_RE.test(value.trim()) ? value.trim() : undefined;
+}
+
+function cleanLogoUrl(value: unknown) {
+  if (typeof value !== "string") return undefined;
+  const url = value.trim();
+  if (!url || url.length > MAX_LOGO_URL_CHARS) return undefined;
+  return /^https?:\/\//i.test(url) || /^data:image\/(?:png|jpeg|gif|webp|svg\+xml)[;,]/i.test(url) ? url : undefined;
+}
+
+/** Branding overrides from an untrusted request body; unknown fields and unsafe values are dropped. */
+export function parseGuideBranding(raw: unknown): GuideBranding | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const o = raw as Record<string, unknown>;
+  const branding: GuideBranding = {
+    headerText: cleanText(o.headerText),
+    footerText: cleanText(o.footerText),
+    logoUrl: cleanLogoUrl(o.logoUrl),
+    primaryColor: cleanColor(o.primaryColor),
+    accentColor: cleanColor(o.accentColor),
+  };
+  const set = Object.fromEntries(Object.entries(branding).filter(([, v]) => v !== undefined)) as GuideBranding;
+  return Object.keys(set).length ? set : undefined;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+/** Wraps a body fragment in a complete, self-contained HTML document styled by `theme`. */
+export function renderThemedDocument(opts: {
+  theme: GuideTheme;
+  branding?: GuideBranding;
+  title: string;
+  bodyHtml: string;
+  lang?: string;
+}) {
+  const branding = { ...opts.theme.branding, ...opts.branding };
+  const primary = branding.primaryColor ?? "#2563eb";
+  const accent = branding.accentColor ?? "#e2e8f0";
+  const logo = branding.logoUrl ? `<img src="${escapeHtml(branding.logoUrl)}" alt="">` : "";
+  const headerText = branding.headerText ? `<span>${escapeHtml(branding.headerText)}</span>` : "";
+  const header =
+    logo || headerText
+      ? `<div class="page-header-band"><header class="page-header">${logo}${headerText}</header></div>\n`
+      : "";
+  const footer = branding.footerText ? `\n<footer class="page-footer">${escapeHtml(branding.footerText)}</footer>` : "";
+  return `<!doctype html>
+<html lang="${escapeHtml(opts.lang || "en")}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(opts.title)}</title>
+<style>
+:root { --brand-primary: ${primary}; --brand-accent: ${accent}; }
+${opts.theme.css.trim()}
+</style>
+</head>
+<body data-theme="${escapeHtml(opts.theme.id)}">
+${header}<main>
+${opts.bodyHtml}
+</main>${footer}
+</body>
+</html>
+`;
+}
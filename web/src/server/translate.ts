@@ -0,0 +1,171 @@
+import { parseHTML } from "linkedom";
+import type { Logger } from "@/server/logger";
+import { errorToObject } from "@/server/logger";
+import { configuredLlmProviders, generateWithFallback } from "@/server/llm/registry";
+import type { LlmProvider } from "@/server/llm/provider";
+import { hashKey, readCache, writeCache } from "@/server/cache";
+import { estimateTokens } from "@/server/markdown-chunks";
+import {
+  GUIDE_OUTPUT_FIELDS,
+  GUIDE_PART_OUTPUT_FIELDS,
+  guidePartSchema,
+  guideSchema,
+  parseStructuredOutput,
+  type GuideMetadata,
+} from "@/server/guide-schema";
+import { languageName, rewriteStyleInstructions, type RewriteOptions } from "@/server/rewrite-options";
+import { glossaryInstructions, type Glossary } from "@/server/glossary";
+import type { Redactor } from "@/server/redaction";
+
+/**
+ * Translates a finished guide into another language. The guide's HTML (not the source) is translated
+ * so every language variant has the same structure, links and sections as the original; long guides
+ * are sent in parts split between top-level blocks.
+ */
+
+// Bump to invalidate cached translations when the prompt or the entry shape changes.
+const TRANSLATION_CACHE_VERSION = "1";
+
+type CachedTranslation = { html: string; guide: GuideMetadata; provider: string; model: string };
+
+/** Top-level blocks of the fragment (inside one outer <article>), grouped into parts of about `maxTokens`. */
+function splitHtmlIntoParts(html: string, maxTokens: number) {
+  const { document } = parseHTML(`<!doctype html><html><head></head><body>${html}</body></html>`);
+  let root = document.body as unknown as Element;
+  const only = Array.from(root.children);
+  const article = only.length === 1 && only[0].tagName.toLowerCase() === "article" ? only[0] : null;
+  if (article) root = article;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const node of Array.from(root.childNodes)) {
+    const piece = node.nodeType === 1 ? (node as Element).outerHTML : node.nodeType === 3 ? node.textContent || "" : "";
+    if (!piece.trim()) continue;
+    if (current && estimateTokens(current + piece) > maxTokens) {
+      parts.push(current);
+      current = "";
+    }
+    current += `${piece}\n`;
+  }
+  if (current.trim()) parts.push(current);
+  const open = article ? article.outerHTML.match(/^<article\b[^>]*>/i)?.[0] || "<article>" : "";
+  return { parts: parts.length ? parts : [html], open, close: article ? "</article>" : "" };
+}
+
+export async function translateGuide(opts: {
+  html: string;
+  guide: GuideMetadata;
+  /** BCP 47 tag of the target language. */
+  language: string;
+  /** The run's writing options; tone, reading level and house style carry over to the translation. */
+  rewrite?: RewriteOptions;
+  /** Workspace glossary; its terms stay untranslated. */
+  glossary?: Glossary;
+  /** Estimated tokens per translation prompt. */
+  maxTokens: number;
+  preferredProvider?: string;
+  onProviderFailure?: (info: { provider: string; error: unknown }) => void;
+  /** Masks personal data and secrets for external providers; the result keeps their placeholders. */
+  redactor?: Redactor;
+  log?: Logger;
+}) {
+  const { language, log } = opts;
+  const providers = configuredLlmProviders();
+  if (!providers.length) throw new Error("Translation needs an LLM provider; none is configured");
+
+  const style = [
+    rewriteStyleInstructions({ ...opts.rewrite, language }),
+    opts.glossary ? glossaryInstructions(opts.glossary, opts.html, { translated: true }) : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const system =
+    `You translate HTML guides for ${opts.rewrite?.audience || "non-technical users"}. ` +
+    "Answer with a single JSON object and nothing else. " +
+    "Translate only the text: keep every HTML tag, attribute, link target and the order of sections exactly " +
+    "as they are. Do not add, drop or summarize content. Do not include code fences. Do not include markdown." +
+    `\n\n${style}`;
+
+  const { parts, open, close } = splitHtmlIntoParts(opts.html, opts.maxTokens);
+  const target = `${languageName(language)} (${language})`;
+  const prompts = parts.map((part, i) =>
+    [
+      i === 0
+        ? `Title: ${opts.guide.title}\nDescription: ${opts.guide.description}\nTags: ${opts.guide.tags.join(", ")}`
+        : "",
+      parts.length > 1
+        ? `This is part ${i + 1} of ${parts.length} of one guide; the parts are joined in order after translation.`
+        : "",
+      `Translate the guide below into ${target}.`,
+      `Content:\n${part}`,
+      i === 0
+        ? `${GUIDE_OUTPUT_FIELDS} Title, description and tags are the translations of the ones above.`
+        : GUIDE_PART_OUTPUT_FIELDS,
+    ]
+      .filter(Boolean)
+      .join("\n\n")
+  );
+
+  const sent = (p: LlmProvider, text: string) => (p.external && opts.redactor ? opts.redactor.redact(text) : text);
+  const cacheKeyFor = (p: LlmProvider) =>
+    hashKey(
+      TRANSLATION_CACHE_VERSION,
+      "translate",
+      sent(p, system),
+      ...prompts.map((t) => sent(p, t)),
+      p.id,
+      p.modelSpec()
+    );
+  for (const p of providers) {
+    const hit = await readCache<CachedTranslation>("html", cacheKeyFor(p));
+    if (hit?.html && hit.guide) {
+      log?.info("translate: cache hit", { language, provider: hit.provider, model: hit.model });
+      return { html: hit.html, guide: hit.guide, provider: hit.provider, cached: true };
+    }
+  }
+
+  let preferred = opts.preferredProvider;
+  let guide: GuideMetadata | null = null;
+  const answeredBy = new Set<string>();
+  let model = "";
+  const fragments: string[] = [];
+  for (const [i, prompt] of prompts.entries()) {
+    const result = await generateWithFallback({
+      system,
+      prompt,
+      purpose: prompts.length > 1 ? `translate ${language} ${i + 1}/${prompts.length}` : `translate ${language}`,
+      json: true,
+      validate: (text) => void parseStructuredOutput(text, i === 0 ? guideSchema : guidePartSchema),
+      preferred,
+      onProviderFailure: opts.onProviderFailure,
+      redactor: opts.redactor,
+      log,
+    });
+    if (i === 0) {
+      const { content, ...metadata } = parseStructuredOutput(result.text, guideSchema);
+      guide = metadata;
+      fragments.push(content);
+    } else {
+      fragments.push(parseStructuredOutput(result.text, guidePartSchema).content);
+    }
+    preferred = result.provider;
+    answeredBy.add(result.provider);
+    model = result.model;
+  }
+
+  // A model that re-wraps every part in <article> would nest them inside the original wrapper.
+  const body = fragments.map((f) => f.trim().replace(/^<article\b[^>]*>([\s\S]*)<\/article>$/i, "$1").trim());
+  const html = open ? `${open}\n${body.join("\n")}\n${close}` : body.join("\n");
+  const provider = [...answeredBy][0];
+  log?.info("translate: done", { language, parts: prompts.length, providers: [...answeredBy], htmlChars: html.length });
+  if (answeredBy.size === 1) {
+    const answered = providers.find((p) => p.id === provider);
+    const entry: CachedTranslation = { html, guide: guide!, provider, model };
+    if (answered) {
+      await writeCache("html", cacheKeyFor(answered), entry).catch((e) =>
+        log?.warn("translate: could not write cache entry", { error: errorToObject(e) })
+      );
+    }
+  }
+  return { html, guide: guide!, provider, cached: false };
+}
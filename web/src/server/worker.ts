@@ -56,7 +56,7 @@ async function processRun(
     // Dynamic import so dev hot-reloads pick up the latest pipeline logic even if the worker loop
     // stays alive across edits.
     const { runPipeline } = await import("@/server/pipeline");
-    const { zipPath } = await runPipeline(runningState, async (u) => {
+    const { zipPath, downloads } = await runPipeline(runningState, async (u) => {
       const cur = await readRunState(runId);
       if (cur.status !== "running") return;
       await writeRunState({
@@ -88,10 +88,12 @@ async function processRun(
     await writeRunState({
       runId,
       uploadId: state.uploadId,
+      options: state.options,
       status: "completed",
       progress: 100,
       message: "Complete",
       downloadPath: zipPath,
+      downloads,
       createdAt: state.createdAt,
       updatedAt: new Date().toISOString(),
       completedAt: new Date().toISOString(),
@@ -101,6 +103,7 @@ async function processRun(
     await writeRunState({
       runId,
       uploadId: state.uploadId,
+      options: state.options,
       status: "failed",
       progress: Math.max(0, state.progress ?? 0),
       // Keep UI copy stable; store real error separately for devtools.